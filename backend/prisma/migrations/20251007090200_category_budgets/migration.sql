@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "CategoryBudget" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "period" TEXT NOT NULL DEFAULT 'MONTHLY',
+    "limit" DECIMAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CategoryBudget_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryBudget_userId_category_period_key" ON "CategoryBudget"("userId", "category", "period");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "BudgetChange" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BudgetChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_User" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "name" TEXT,
+    "monthlyBudget" DECIMAL DEFAULT 0,
+    "budgetRollover" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_User" ("createdAt", "email", "id", "monthlyBudget", "name", "passwordHash") SELECT "createdAt", "email", "id", "monthlyBudget", "name", "passwordHash" FROM "User";
+DROP TABLE "User";
+ALTER TABLE "new_User" RENAME TO "User";
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetChange_userId_effectiveFrom_key" ON "BudgetChange"("userId", "effectiveFrom");
+
+-- Backfill: a budget set before changes were recorded becomes the first
+-- change, in the month of the user's first expense (or sign-up), so a later
+-- change does not leave the months before it without a budget.
+INSERT INTO "BudgetChange" ("id", "userId", "amount", "effectiveFrom")
+SELECT 'c' || lower(hex(randomblob(12))), u."id", u."monthlyBudget",
+    CAST(strftime('%s', coalesce(
+        (SELECT min(t."date") FROM "Transaction" t WHERE t."userId" = u."id" AND t."type" = 'EXPENSE'),
+        u."createdAt"
+    ) / 1000, 'unixepoch', 'start of month') AS INTEGER) * 1000
+FROM "User" u
+WHERE u."monthlyBudget" > 0;
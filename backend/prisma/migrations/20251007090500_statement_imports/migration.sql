@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "externalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mapping" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ImportProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_userId_name_key" ON "ImportProfile"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Transaction_userId_externalId_idx" ON "Transaction"("userId", "externalId");
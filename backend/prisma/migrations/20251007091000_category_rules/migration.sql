@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "tags" TEXT;
+
+-- CreateTable
+CREATE TABLE "CategoryRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "descriptionPattern" TEXT,
+    "matchMode" TEXT NOT NULL DEFAULT 'CONTAINS',
+    "minAmount" DECIMAL,
+    "maxAmount" DECIMAL,
+    "type" TEXT,
+    "category" TEXT NOT NULL,
+    "tags" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CategoryRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryRule_userId_priority_idx" ON "CategoryRule"("userId", "priority");
@@ -0,0 +1,90 @@
+-- CreateTable
+CREATE TABLE "Category" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" TEXT,
+    "color" TEXT,
+    "icon" TEXT,
+    "parentId" TEXT,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "aliases" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Category_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "date" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "recurringRuleId" TEXT,
+    "externalId" TEXT,
+    "importBatchId" TEXT,
+    "tags" TEXT,
+    "categoryId" TEXT,
+    CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_recurringRuleId_fkey" FOREIGN KEY ("recurringRuleId") REFERENCES "RecurringRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("amount", "category", "createdAt", "date", "description", "externalId", "id", "importBatchId", "recurringRuleId", "tags", "type", "updatedAt", "userId") SELECT "amount", "category", "createdAt", "date", "description", "externalId", "id", "importBatchId", "recurringRuleId", "tags", "type", "updatedAt", "userId" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_userId_externalId_idx" ON "Transaction"("userId", "externalId");
+CREATE INDEX "Transaction_categoryId_idx" ON "Transaction"("categoryId");
+CREATE UNIQUE INDEX "Transaction_recurringRuleId_date_key" ON "Transaction"("recurringRuleId", "date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_userId_key_key" ON "Category"("userId", "key");
+
+-- Backfill: one Category per distinct name (trimmed, runs of spaces collapsed,
+-- compared case-insensitively) per user, named after its earliest spelling,
+-- then link every transaction to it. Mirrors categoryKey() in
+-- src/lib/categories.ts for ASCII names.
+CREATE TEMP TABLE "_CategoryName" AS
+SELECT "userId", "type", "category", min("createdAt") AS "firstUsed",
+    replace(replace(replace(replace(trim(replace("category", char(9), ' ')), '    ', ' '), '   ', ' '), '  ', ' '), '  ', ' ') AS "name"
+FROM "Transaction"
+GROUP BY "userId", "type", "category";
+
+INSERT INTO "Category" ("id", "userId", "name", "key", "type", "createdAt", "updatedAt")
+SELECT 'c' || lower(hex(randomblob(12))), n."userId",
+    (SELECT f."name" FROM "_CategoryName" f
+        WHERE f."userId" = n."userId" AND lower(f."name") = lower(n."name")
+        ORDER BY f."firstUsed" LIMIT 1),
+    lower(n."name"),
+    CASE WHEN count(DISTINCT n."type") = 1 THEN min(n."type") END,
+    CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000
+FROM "_CategoryName" n
+WHERE n."name" <> ''
+GROUP BY n."userId", lower(n."name");
+
+UPDATE "Transaction" SET
+    "categoryId" = (
+        SELECT c."id" FROM "_CategoryName" n
+        JOIN "Category" c ON c."userId" = n."userId" AND c."key" = lower(n."name")
+        WHERE n."userId" = "Transaction"."userId" AND n."category" = "Transaction"."category"
+        LIMIT 1
+    ),
+    "category" = coalesce((
+        SELECT c."name" FROM "_CategoryName" n
+        JOIN "Category" c ON c."userId" = n."userId" AND c."key" = lower(n."name")
+        WHERE n."userId" = "Transaction"."userId" AND n."category" = "Transaction"."category"
+        LIMIT 1
+    ), "category");
+
+DROP TABLE "_CategoryName";
@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "Account" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "openingBalance" DECIMAL NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Account_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "date" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "recurringRuleId" TEXT,
+    "externalId" TEXT,
+    "importBatchId" TEXT,
+    "tags" TEXT,
+    "categoryId" TEXT,
+    "accountId" TEXT,
+    CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_recurringRuleId_fkey" FOREIGN KEY ("recurringRuleId") REFERENCES "RecurringRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("amount", "category", "categoryId", "createdAt", "date", "description", "externalId", "id", "importBatchId", "recurringRuleId", "tags", "type", "updatedAt", "userId") SELECT "amount", "category", "categoryId", "createdAt", "date", "description", "externalId", "id", "importBatchId", "recurringRuleId", "tags", "type", "updatedAt", "userId" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_userId_externalId_idx" ON "Transaction"("userId", "externalId");
+CREATE INDEX "Transaction_categoryId_idx" ON "Transaction"("categoryId");
+CREATE INDEX "Transaction_accountId_date_idx" ON "Transaction"("accountId", "date");
+CREATE UNIQUE INDEX "Transaction_recurringRuleId_date_key" ON "Transaction"("recurringRuleId", "date");
+CREATE TABLE "new_RecurringRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME,
+    "nextRunAt" DATETIME,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "accountId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "RecurringRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "RecurringRule_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_RecurringRule" ("active", "amount", "category", "createdAt", "description", "endDate", "frequency", "id", "interval", "nextRunAt", "startDate", "type", "updatedAt", "userId") SELECT "active", "amount", "category", "createdAt", "description", "endDate", "frequency", "id", "interval", "nextRunAt", "startDate", "type", "updatedAt", "userId" FROM "RecurringRule";
+DROP TABLE "RecurringRule";
+ALTER TABLE "new_RecurringRule" RENAME TO "RecurringRule";
+CREATE INDEX "RecurringRule_active_nextRunAt_idx" ON "RecurringRule"("active", "nextRunAt");
+CREATE TABLE "new_ImportBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "filename" TEXT,
+    "fileHash" TEXT,
+    "rowCount" INTEGER NOT NULL,
+    "accountId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ImportBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ImportBatch_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ImportBatch" ("createdAt", "fileHash", "filename", "id", "rowCount", "source", "userId") SELECT "createdAt", "fileHash", "filename", "id", "rowCount", "source", "userId" FROM "ImportBatch";
+DROP TABLE "ImportBatch";
+ALTER TABLE "new_ImportBatch" RENAME TO "ImportBatch";
+CREATE INDEX "ImportBatch_userId_createdAt_idx" ON "ImportBatch"("userId", "createdAt");
+CREATE INDEX "ImportBatch_userId_fileHash_idx" ON "ImportBatch"("userId", "fileHash");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Account_userId_name_key" ON "Account"("userId", "name");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "UserPreference" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "locale" TEXT NOT NULL DEFAULT 'en-US',
+    "weekStartsOn" INTEGER NOT NULL DEFAULT 0,
+    "dateFormat" TEXT NOT NULL DEFAULT 'locale',
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "UserPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserPreference_userId_key" ON "UserPreference"("userId");
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "Debt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "principal" DECIMAL NOT NULL,
+    "apr" DECIMAL NOT NULL,
+    "minimumPayment" DECIMAL NOT NULL,
+    "dueDay" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "accountId" TEXT,
+    "startDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Debt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Debt_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "DebtPayment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "debtId" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "principal" DECIMAL NOT NULL,
+    "interest" DECIMAL NOT NULL,
+    "date" DATETIME NOT NULL,
+    "transactionId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DebtPayment_debtId_fkey" FOREIGN KEY ("debtId") REFERENCES "Debt" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DebtPayment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Debt_userId_name_key" ON "Debt"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DebtPayment_transactionId_key" ON "DebtPayment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "DebtPayment_debtId_date_idx" ON "DebtPayment"("debtId", "date");
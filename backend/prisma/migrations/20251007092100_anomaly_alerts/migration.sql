@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "Alert" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "reasons" TEXT NOT NULL,
+    "score" REAL NOT NULL,
+    "readAt" DATETIME,
+    "dismissedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Alert_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Alert_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Alert_transactionId_key" ON "Alert"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Alert_userId_dismissedAt_createdAt_idx" ON "Alert"("userId", "dismissedAt", "createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "DigestPreference" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL DEFAULT 'OFF',
+    "sections" TEXT NOT NULL DEFAULT '["summary","budget","categories"]',
+    "unsubscribeToken" TEXT NOT NULL,
+    "lastPeriodEnd" DATETIME,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DigestPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DigestPreference_userId_key" ON "DigestPreference"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DigestPreference_unsubscribeToken_key" ON "DigestPreference"("unsubscribeToken");
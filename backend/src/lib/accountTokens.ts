@@ -0,0 +1,93 @@
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import type { AccountTokenPurpose } from '@prisma/client';
+import { getMailTransport } from './mail';
+import { jwtSecret } from './sessions';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A reset link is as good as the password, so it lives far shorter than a
+// verification link
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  VERIFY_EMAIL: 48 * HOUR_MS,
+  RESET_PASSWORD: HOUR_MS,
+};
+
+// Where the React app is served, for the links in the emails
+function appUrl(path: string, token: string) {
+  const base = process.env.APP_URL || 'http://localhost:8080';
+  return `${base.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`;
+}
+
+// A signed link token for the user. The row makes it single-use; asking for a
+// new one cancels any earlier token for the same purpose.
+export async function issueAccountToken(userId: string, purpose: AccountTokenPurpose, now: Date = new Date()) {
+  const ttl = TOKEN_TTL_MS[purpose];
+  const [, row] = await prisma.$transaction([
+    prisma.accountToken.updateMany({ where: { userId, purpose, usedAt: null }, data: { usedAt: now } }),
+    prisma.accountToken.create({ data: { userId, purpose, expiresAt: new Date(now.getTime() + ttl) } }),
+  ]);
+  return jwt.sign({ sub: userId, jti: row.id }, jwtSecret(), { audience: purpose, expiresIn: Math.floor(ttl / 1000) });
+}
+
+// Marks the token used and returns its user, or null when it is forged,
+// expired, for another purpose or already used
+export async function consumeAccountToken(token: string, purpose: AccountTokenPurpose, now: Date = new Date()) {
+  let payload: { sub?: string; jti?: string };
+  try {
+    payload = jwt.verify(token, jwtSecret(), { audience: purpose }) as { sub?: string; jti?: string };
+  } catch {
+    return null;
+  }
+  if (!payload.sub || !payload.jti) return null;
+  // Conditional on usedAt, so a link opened twice at once only counts once
+  const { count } = await prisma.accountToken.updateMany({
+    where: { id: payload.jti, userId: payload.sub, purpose, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+  return count > 0 ? payload.sub : null;
+}
+
+function linkEmail(to: string, subject: string, intro: string, action: string, link: string, outro: string) {
+  return {
+    to,
+    subject: `FinSmart – ${subject}`,
+    text: [intro, '', `${action}: ${link}`, '', outro].join('\n'),
+    html: `<!doctype html><html><body style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;padding:24px;color:#0f172a">
+<h1 style="font-size:22px;color:#1d4ed8;margin:0 0 16px">${subject}</h1>
+<p>${intro}</p>
+<p style="margin:24px 0"><a href="${link}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none;font-weight:bold">${action}</a></p>
+<p style="font-size:12px;color:#94a3b8">${outro}</p>
+</body></html>`,
+  };
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string }) {
+  const token = await issueAccountToken(user.id, 'VERIFY_EMAIL');
+  await getMailTransport().send(
+    linkEmail(
+      user.email,
+      'Confirm your email address',
+      'Confirm this is your email address to start receiving FinSmart emails such as your spending digest.',
+      'Confirm email address',
+      appUrl('/verify-email', token),
+      'The link works once and expires in 48 hours. If you did not create a FinSmart account, ignore this email.'
+    )
+  );
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string }) {
+  const token = await issueAccountToken(user.id, 'RESET_PASSWORD');
+  await getMailTransport().send(
+    linkEmail(
+      user.email,
+      'Reset your password',
+      'Someone asked to reset the password for your FinSmart account.',
+      'Choose a new password',
+      appUrl('/reset-password', token),
+      'The link works once and expires in 1 hour. If you did not ask for this, ignore this email; your password stays the same.'
+    )
+  );
+}
@@ -0,0 +1,93 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma, TransactionType } from '@prisma/client';
+import { loadConverter } from './currency';
+
+const prisma = new PrismaClient();
+
+// Effect of a transaction on the balance of `accountId`. A transfer leaves
+// its accountId and arrives in its transferAccountId.
+export function signedAmount(
+  tx: { type: TransactionType; amount: Prisma.Decimal | number; accountId?: string | null; transferAccountId?: string | null },
+  accountId?: string
+) {
+  if (tx.type === 'TRANSFER' && accountId && tx.transferAccountId === accountId) return Number(tx.amount);
+  return tx.type === 'INCOME' ? Number(tx.amount) : -Number(tx.amount);
+}
+
+// Transactions that move money in or out of an account
+export function accountFilter(accountId: string) {
+  return { OR: [{ accountId }, { transferAccountId: accountId }] };
+}
+
+// Validates an optional accountId from a request body (JSON or form field).
+// Blank means "no account".
+export async function resolveAccountId(userId: string, raw: unknown): Promise<{ accountId: string | null } | { error: string }> {
+  if (raw === undefined || raw === null || raw === '') return { accountId: null };
+  if (typeof raw !== 'string') return { error: 'accountId must be a string' };
+  const account = await prisma.account.findFirst({ where: { id: raw, userId }, select: { id: true } });
+  return account ? { accountId: account.id } : { error: 'Account not found' };
+}
+
+// A transfer needs two different accounts; anything else must not name a destination
+export async function resolveTransfer(
+  userId: string,
+  input: { type: TransactionType; accountId?: unknown; transferAccountId?: unknown }
+): Promise<{ accountId: string | null; transferAccountId: string | null } | { error: string }> {
+  const source = await resolveAccountId(userId, input.accountId);
+  if ('error' in source) return source;
+  if (input.type !== 'TRANSFER') {
+    if (input.transferAccountId) return { error: 'Only transfers have a destination account' };
+    return { accountId: source.accountId, transferAccountId: null };
+  }
+  const destination = await resolveAccountId(userId, input.transferAccountId);
+  if ('error' in destination) return destination;
+  if (!source.accountId || !destination.accountId) return { error: 'A transfer needs both a source and a destination account' };
+  if (source.accountId === destination.accountId) return { error: 'Cannot transfer to the same account' };
+  return { accountId: source.accountId, transferAccountId: destination.accountId };
+}
+
+// Current balance of each of the user's accounts in its own currency, keyed
+// by account id
+export async function accountBalances(userId: string) {
+  const [accounts, transactions, converter] = await Promise.all([
+    prisma.account.findMany({ where: { userId }, select: { id: true, currency: true, openingBalance: true } }),
+    prisma.transaction.findMany({
+      where: { userId, OR: [{ accountId: { not: null } }, { transferAccountId: { not: null } }] },
+      select: { type: true, amount: true, currency: true, date: true, accountId: true, transferAccountId: true },
+    }),
+    loadConverter(userId),
+  ]);
+  const currencies = new Map(accounts.map((a) => [a.id, a.currency]));
+  const balances = new Map(accounts.map((a) => [a.id, Number(a.openingBalance)]));
+  const apply = (tx: (typeof transactions)[number], accountId: string) => {
+    const currency = currencies.get(accountId);
+    if (!currency) return;
+    const amount = converter.convert(signedAmount(tx, accountId), tx.currency, tx.date, currency) ?? 0;
+    balances.set(accountId, balances.get(accountId)! + amount);
+  };
+  for (const tx of transactions) {
+    if (tx.accountId) apply(tx, tx.accountId);
+    if (tx.type === 'TRANSFER' && tx.transferAccountId) apply(tx, tx.transferAccountId);
+  }
+  return balances;
+}
+
+// Balance after each of the account's transactions, in date order (creation
+// order within a day), keyed by transaction id
+export async function runningBalances(account: { id: string; userId: string; currency: string; openingBalance: Prisma.Decimal }) {
+  const [transactions, converter] = await Promise.all([
+    prisma.transaction.findMany({
+      where: accountFilter(account.id),
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, type: true, amount: true, currency: true, date: true, accountId: true, transferAccountId: true },
+    }),
+    loadConverter(account.userId),
+  ]);
+  const balances = new Map<string, number>();
+  let balance = Number(account.openingBalance);
+  for (const tx of transactions) {
+    balance += converter.convert(signedAmount(tx, account.id), tx.currency, tx.date, account.currency) ?? 0;
+    balances.set(tx.id, Math.round(balance * 100) / 100);
+  }
+  return balances;
+}
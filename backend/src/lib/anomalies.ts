@@ -0,0 +1,179 @@
+import { PrismaClient } from '@prisma/client';
+import type { Transaction } from '@prisma/client';
+import { inBase, loadConverter } from './currency';
+import { normaliseDescription } from './duplicates';
+import { formatMoney, loadPreferences } from './preferences';
+import type { Preferences } from './preferences';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// History a new expense is compared with
+const HISTORY_DAYS = 365;
+// Back-dated rows (an old statement being imported) are not news
+const RECENT_DAYS = 30;
+// Amounts in a category before its spread means anything
+const MIN_CATEGORY_HISTORY = 8;
+// Rows overall before a first-time merchant is worth mentioning; a new user's
+// every purchase is at a new merchant
+const MIN_MERCHANT_HISTORY = 30;
+// How far above the category's median an amount must be before its spread is
+// consulted; a category of identical amounts has no spread, and any higher
+// amount would otherwise be infinitely unusual
+const MIN_AMOUNT_RATIO = 1.5;
+// Timed rows (not at midnight) before a purchase hour can be unusual
+const MIN_TIMED_HISTORY = 20;
+// Score at which a transaction raises an alert: a clearly outsized amount on
+// its own, or any two weaker signals together
+export const ALERT_SCORE = 2;
+
+export type AnomalyReason = { kind: 'amount' | 'merchant' | 'time'; message: string };
+
+export type AnomalyRow = {
+  id: string;
+  // In the base currency
+  amount: number;
+  date: Date;
+  category: string;
+  categoryId: string | null;
+  description: string | null;
+  // Scheduled rows say nothing about when the user shops
+  recurring: boolean;
+};
+
+type Scored = { score: number; title: string; reasons: AnomalyReason[] };
+
+function quantile(sorted: number[], q: number) {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (pos - lower);
+}
+
+// Dates entered without a time are stored at midnight UTC
+const isTimed = (d: Date) => d.getUTCHours() !== 0 || d.getUTCMinutes() !== 0;
+
+function hourDistance(a: number, b: number) {
+  const d = Math.abs(a - b);
+  return Math.min(d, 24 - d);
+}
+
+// Scores an expense against the user's earlier expenses:
+//   amount   - 2 when both over 3 standard deviations above its category's
+//              mean and past the upper IQR fence (Q3 + 1.5 IQR); 1 when over
+//              2 standard deviations and above Q3; either way at least
+//              MIN_AMOUNT_RATIO times the median
+//   merchant - 1 for a description not seen in the history
+//   time     - 1 for a purchase hour with no other purchase within an hour
+export function scoreTransaction(tx: AnomalyRow, history: AnomalyRow[], prefs: Preferences): Scored {
+  const reasons: Array<AnomalyReason & { weight: number }> = [];
+  const money = (n: number) => formatMoney(n, prefs);
+
+  const peers = history
+    .filter((h) => (tx.categoryId ? h.categoryId === tx.categoryId : h.category === tx.category))
+    .map((h) => h.amount)
+    .sort((a, b) => a - b);
+  if (peers.length >= MIN_CATEGORY_HISTORY) {
+    const mean = peers.reduce((s, v) => s + v, 0) / peers.length;
+    const sd = Math.sqrt(peers.reduce((s, v) => s + (v - mean) ** 2, 0) / peers.length);
+    const q1 = quantile(peers, 0.25);
+    const q3 = quantile(peers, 0.75);
+    const typical = quantile(peers, 0.5);
+    const z = sd > 0 ? (tx.amount - mean) / sd : tx.amount > mean ? Infinity : 0;
+    const outsized = tx.amount >= typical * MIN_AMOUNT_RATIO;
+    const weight = !outsized ? 0 : z >= 3 && tx.amount > q3 + 1.5 * (q3 - q1) ? 2 : z >= 2 && tx.amount > q3 ? 1 : 0;
+    if (weight > 0) {
+      reasons.push({
+        kind: 'amount',
+        weight,
+        message: `${money(tx.amount)} is ${typical > 0 ? `${(tx.amount / typical).toFixed(1)}× ` : 'far above '}your typical ${tx.category} expense of ${money(typical)}`,
+      });
+    }
+  }
+
+  const merchant = normaliseDescription(tx.description);
+  if (merchant && history.length >= MIN_MERCHANT_HISTORY && !history.some((h) => normaliseDescription(h.description) === merchant)) {
+    reasons.push({ kind: 'merchant', weight: 1, message: `First purchase at ${tx.description}` });
+  }
+
+  const timed = history.filter((h) => !h.recurring && isTimed(h.date));
+  if (isTimed(tx.date) && timed.length >= MIN_TIMED_HISTORY) {
+    const hour = tx.date.getUTCHours() + tx.date.getUTCMinutes() / 60;
+    if (!timed.some((h) => hourDistance(h.date.getUTCHours() + h.date.getUTCMinutes() / 60, hour) <= 1)) {
+      reasons.push({ kind: 'time', weight: 1, message: `Unusual time for a purchase (${String(tx.date.getUTCHours()).padStart(2, '0')}:${String(tx.date.getUTCMinutes()).padStart(2, '0')} UTC)` });
+    }
+  }
+
+  reasons.sort((a, b) => b.weight - a.weight);
+  const top = reasons[0];
+  const title = !top
+    ? ''
+    : top.kind === 'amount'
+      ? `Unusually large ${tx.category} expense`
+      : top.kind === 'merchant'
+        ? `New merchant: ${tx.description}`
+        : `Purchase at an unusual time`;
+  return { score: reasons.reduce((s, r) => s + r.weight, 0), title, reasons: reasons.map(({ kind, message }) => ({ kind, message })) };
+}
+
+export function parseReasons(reasons: string): AnomalyReason[] {
+  try {
+    const parsed: unknown = JSON.parse(reasons);
+    return Array.isArray(parsed) ? (parsed as AnomalyReason[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Scores freshly created transactions and stores an Alert for each one that
+// reaches ALERT_SCORE. Only recent expenses the user entered or imported are
+// scored; rows generated by recurring rules were expected.
+export async function detectAnomalies(userId: string, created: Transaction[], now: Date = new Date()) {
+  const candidates = created.filter(
+    (tx) => tx.type === 'EXPENSE' && !tx.recurringRuleId && now.getTime() - tx.date.getTime() <= RECENT_DAYS * DAY_MS
+  );
+  if (candidates.length === 0) return [];
+
+  const [converter, prefs, history] = await Promise.all([
+    loadConverter(userId),
+    loadPreferences(userId),
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        type: 'EXPENSE',
+        id: { notIn: created.map((tx) => tx.id) },
+        date: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) },
+      },
+      select: { id: true, amount: true, currency: true, date: true, category: true, categoryId: true, description: true, recurringRuleId: true },
+    }),
+  ]);
+  const toRow = (tx: (typeof history)[number] | Transaction): AnomalyRow => ({
+    id: tx.id,
+    amount: inBase(converter, tx),
+    date: tx.date,
+    category: tx.category,
+    categoryId: tx.categoryId,
+    description: tx.description,
+    recurring: !!tx.recurringRuleId,
+  });
+  const rows = history.map(toRow);
+  // Older rows of the same import are history too, and each scored row is
+  // history for the next, so ten charges at one new shop raise one alert
+  for (const tx of created) if (tx.type === 'EXPENSE' && !candidates.includes(tx)) rows.push(toRow(tx));
+
+  const alerts = [];
+  for (const tx of candidates) {
+    const row = toRow(tx);
+    const scored = scoreTransaction(row, rows, prefs);
+    rows.push(row);
+    if (scored.score < ALERT_SCORE) continue;
+    alerts.push(
+      await prisma.alert.upsert({
+        where: { transactionId: tx.id },
+        create: { userId, transactionId: tx.id, title: scored.title, reasons: JSON.stringify(scored.reasons), score: scored.score },
+        update: {},
+      })
+    );
+  }
+  return alerts;
+}
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { addMoney, emptyMoney, roundMoney } from './currency';
+import type { Converter, Money } from './currency';
+import { formatMonth } from './preferences';
+import type { Preferences } from './preferences';
+
+const prisma = new PrismaClient();
+
+export function monthStart(d: Date) {
+  return new Date(d.getFullYear(), d.getMonth(), 1);
+}
+
+export function monthKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type LedgerMonth = {
+  month: string;
+  label: string;
+  budget: number;
+  carriedIn: number;
+  effectiveBudget: number;
+  spent: number;
+  closingBalance: number;
+  // The month's spending in the currencies it was entered in
+  spentByCurrency: Record<string, number>;
+};
+
+// Walks month by month from the user's earliest expense (or budget change)
+// up to the month containing `now`. With rollover enabled, each month's
+// closing balance (positive or negative) is carried into the next month.
+// Budgets are in the base currency; spending is converted to it.
+export async function buildBudgetLedger(userId: string, now: Date, converter: Converter, prefs: Preferences) {
+  const [user, changes, firstExpense] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { monthlyBudget: true, budgetRollover: true },
+    }),
+    prisma.budgetChange.findMany({
+      where: { userId },
+      orderBy: { effectiveFrom: 'asc' },
+    }),
+    prisma.transaction.findFirst({
+      where: { userId, type: 'EXPENSE' },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    }),
+  ]);
+
+  const currentBudget = Number(user?.monthlyBudget || 0);
+  const rollover = user?.budgetRollover ?? false;
+  const currentStart = monthStart(now);
+
+  let start = currentStart;
+  if (firstExpense && firstExpense.date < start) start = monthStart(firstExpense.date);
+  const firstChange = changes[0];
+  if (firstChange && firstChange.effectiveFrom < start) start = monthStart(firstChange.effectiveFrom);
+
+  const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+  const expenses = await prisma.transaction.findMany({
+    where: { userId, type: 'EXPENSE', date: { gte: start, lte: lastDay } },
+    select: { amount: true, currency: true, date: true },
+  });
+  const spentByMonth = new Map<string, Money>();
+  for (const tx of expenses) {
+    const key = monthKey(tx.date);
+    if (!spentByMonth.has(key)) spentByMonth.set(key, emptyMoney());
+    addMoney(spentByMonth.get(key)!, converter, tx);
+  }
+
+  // Budget in force for a month: the latest change effective by its end.
+  // Budgets set before changes were recorded were migrated as a first
+  // change; without any, the current amount applies to every month.
+  const budgetFor = (end: Date) => {
+    if (changes.length === 0) return currentBudget;
+    let amount = 0;
+    for (const c of changes) {
+      if (c.effectiveFrom <= end) amount = Number(c.amount);
+      else break;
+    }
+    return amount;
+  };
+
+  const months: LedgerMonth[] = [];
+  let carried = 0;
+  for (let d = start; d <= currentStart; d = new Date(d.getFullYear(), d.getMonth() + 1, 1)) {
+    const end = new Date(d.getFullYear(), d.getMonth() + 1, 0, 23, 59, 59);
+    const budget = budgetFor(end);
+    const carriedIn = rollover ? carried : 0;
+    const effectiveBudget = budget + carriedIn;
+    const spending = roundMoney(spentByMonth.get(monthKey(d)) ?? emptyMoney());
+    const spent = spending.amount;
+    const closingBalance = effectiveBudget - spent;
+    months.push({
+      month: monthKey(d),
+      label: formatMonth(d, prefs),
+      budget: round2(budget),
+      carriedIn: round2(carriedIn),
+      effectiveBudget: round2(effectiveBudget),
+      spent: round2(spent),
+      closingBalance: round2(closingBalance),
+      spentByCurrency: spending.original,
+    });
+    // Months without a budget don't accumulate a (negative) balance
+    carried = budget > 0 || carriedIn !== 0 ? closingBalance : 0;
+  }
+
+  return { rollover, monthlyBudget: currentBudget, months };
+}
+
+// The figures /api/budget/status reports for one month of the ledger
+export function budgetStatus(month: LedgerMonth) {
+  const percentageUsed = month.effectiveBudget > 0 ? (month.spent / month.effectiveBudget) * 100 : 0;
+  return {
+    carriedOver: month.carriedIn,
+    effectiveBudget: month.effectiveBudget,
+    spent: month.spent,
+    spentByCurrency: month.spentByCurrency,
+    remaining: month.closingBalance,
+    percentageUsed: round2(percentageUsed),
+    isOverBudget: month.closingBalance < 0,
+    month: month.label,
+  };
+}
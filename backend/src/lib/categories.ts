@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Category, TransactionType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+type Db = Prisma.TransactionClient;
+
+// Case and whitespace-insensitive identity of a category name
+export function categoryKey(name: string) {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function parseAliases(aliases: string | null) {
+  return aliases ? aliases.split(',').filter(Boolean) : [];
+}
+
+// Finds the user's category for each name (by name or by the alias left
+// behind by a merge), creating missing ones. Keyed by categoryKey(name).
+export async function resolveCategories(
+  userId: string,
+  rows: Array<{ category: string; type: TransactionType }>,
+  db: Db = prisma
+) {
+  const existing = await db.category.findMany({ where: { userId } });
+  const byKey = new Map<string, Category>();
+  for (const c of existing) byKey.set(c.key, c);
+  for (const c of existing) {
+    for (const alias of parseAliases(c.aliases)) if (!byKey.has(alias)) byKey.set(alias, c);
+  }
+
+  const resolved = new Map<string, Category>();
+  for (const row of rows) {
+    const key = categoryKey(row.category);
+    if (!key || resolved.has(key)) continue;
+    let category = byKey.get(key);
+    if (!category) {
+      try {
+        category = await db.category.create({
+          data: { userId, name: row.category.trim().replace(/\s+/g, ' '), key, type: row.type },
+        });
+      } catch (error) {
+        // Created concurrently by another request
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+        category = await db.category.findUniqueOrThrow({ where: { userId_key: { userId, key } } });
+      }
+      byKey.set(key, category);
+    }
+    resolved.set(key, category);
+  }
+  return resolved;
+}
+
+// Replaces each row's category with the canonical name and adds its id, so
+// "dining" and "Dining " both land in the same Category
+export async function linkCategories<T extends { category: string; type: TransactionType }>(
+  userId: string,
+  rows: T[],
+  db: Db = prisma
+): Promise<Array<T & { categoryId: string | null }>> {
+  const resolved = rows.length > 0 ? await resolveCategories(userId, rows, db) : new Map<string, Category>();
+  return rows.map((row) => {
+    const category = resolved.get(categoryKey(row.category));
+    return category ? { ...row, category: category.name, categoryId: category.id } : { ...row, categoryId: null };
+  });
+}
+
+// Reporting level for category aggregates. `depth` 1 rolls everything up to
+// top-level categories, 2 to their children and so on; without it each
+// category is reported on its own. `parentId` narrows to one category's
+// subtree, reported one level below it (drill-down).
+export type Rollup = { depth?: number | undefined; parentId?: string | undefined };
+
+export const rollupQuery = z.object({
+  depth: z.coerce.number().int().min(1).optional(),
+  rollup: z.enum(['leaf', 'parent']).optional(),
+  parent: z.string().min(1).optional(),
+});
+
+export function toRollup(query: z.infer<typeof rollupQuery>): Rollup {
+  return {
+    depth: query.depth ?? (query.rollup === 'parent' ? 1 : undefined),
+    parentId: query.parent,
+  };
+}
+
+export function isRollupRequested(rollup: Rollup) {
+  return rollup.depth !== undefined || rollup.parentId !== undefined;
+}
+
+export type CategoryTree = Map<string, Category>;
+
+export async function loadCategoryTree(userId: string): Promise<CategoryTree> {
+  const categories = await prisma.category.findMany({ where: { userId } });
+  return new Map(categories.map((c) => [c.id, c]));
+}
+
+// Root-first chain of categories ending at `id`. Stops on a (corrupt) cycle.
+function ancestry(tree: CategoryTree, id: string) {
+  const chain: Category[] = [];
+  const seen = new Set<string>();
+  for (let node = tree.get(id); node && !seen.has(node.id); node = node.parentId ? tree.get(node.parentId) : undefined) {
+    seen.add(node.id);
+    chain.unshift(node);
+  }
+  return chain;
+}
+
+// `id` itself and every category below it
+export function descendantIds(tree: CategoryTree, id: string) {
+  const ids = new Set<string>();
+  for (const c of tree.values()) {
+    if (ancestry(tree, c.id).some((a) => a.id === id)) ids.add(c.id);
+  }
+  return ids;
+}
+
+type CategoryBucket = { categoryId: string | null; category: string };
+
+// The category a row is reported under, or null when it falls outside the
+// drill-down subtree. Unlinked rows are reported under their own name.
+export function rollupBucket(tree: CategoryTree, row: CategoryBucket, rollup: Rollup): CategoryBucket | null {
+  const chain = row.categoryId ? ancestry(tree, row.categoryId) : [];
+  if (chain.length === 0) return rollup.parentId ? null : { categoryId: row.categoryId, category: row.category };
+
+  let node: Category;
+  if (rollup.parentId) {
+    const index = chain.findIndex((c) => c.id === rollup.parentId);
+    if (index < 0) return null;
+    // Rows filed directly under the parent stay with it
+    node = chain[index + 1] ?? chain[index]!;
+  } else {
+    node = chain[Math.min(rollup.depth ?? chain.length, chain.length) - 1]!;
+  }
+  return { categoryId: node.id, category: node.name };
+}
+
+// Sums amounts per reporting category, largest first. `hasChildren` tells the
+// client whether a bucket can be drilled into.
+export function rollupTotals(
+  tree: CategoryTree,
+  rows: Array<CategoryBucket & { amount: number }>,
+  rollup: Rollup
+) {
+  const totals = new Map<string, CategoryBucket & { amount: number; hasChildren: boolean }>();
+  for (const row of rows) {
+    const bucket = rollupBucket(tree, row, rollup);
+    if (!bucket) continue;
+    const key = bucket.categoryId ?? `name:${bucket.category}`;
+    const total = totals.get(key) ?? {
+      ...bucket,
+      amount: 0,
+      // The parent's own rows never drill further than the parent itself
+      hasChildren: !!bucket.categoryId && bucket.categoryId !== rollup.parentId
+        && [...tree.values()].some((c) => c.parentId === bucket.categoryId),
+    };
+    total.amount += row.amount;
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,123 @@
+import { PrismaClient } from '@prisma/client';
+import type { CategoryRule, TransactionType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// The fields a rule looks at (a saved rule, or an unsaved one being previewed)
+export type RuleConditions = Pick<
+  CategoryRule,
+  'descriptionPattern' | 'matchMode' | 'minAmount' | 'maxAmount' | 'type' | 'category' | 'tags'
+>;
+
+export type Categorisable = {
+  description?: string | null | undefined;
+  amount: number;
+  type: TransactionType;
+  category: string;
+  tags?: string[] | undefined;
+};
+
+// Tags are stored comma-separated; these normalise to lowercase, trimmed and unique
+export function parseTags(tags: string | null | undefined): string[] {
+  return formatTagList((tags ?? '').split(','));
+}
+
+export function formatTags(tags: string[] | null | undefined) {
+  const list = formatTagList(tags ?? []);
+  return list.length > 0 ? list.join(',') : null;
+}
+
+function formatTagList(tags: string[]) {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+const MAX_PATTERN_LENGTH = 200;
+
+// Patterns run over whole transaction histories on the shared event loop, so
+// the shapes that backtrack exponentially are refused: a repeated group that
+// itself repeats or alternates, like (a+)+ or (a|ab)*, and backreferences.
+// Returns a reason, or null for a safe pattern.
+function unsafePattern(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `is longer than ${MAX_PATTERN_LENGTH} characters`;
+  // One entry per open group: whether it holds a quantifier or alternation
+  const groups: boolean[] = [false];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]!;
+    if (c === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'uses a backreference';
+      i++;
+    } else if (inClass) {
+      if (c === ']') inClass = false;
+    } else if (c === '[') {
+      inClass = true;
+    } else if (c === '(') {
+      groups.push(false);
+    } else if (c === ')' && groups.length > 1) {
+      const inner = groups.pop()!;
+      const repeated = /^(?:[*+]|\{\d*,\d*\}|\{\d*[2-9]\d*\})/.test(pattern.slice(i + 1));
+      if (inner && repeated) return 'repeats a group that contains a repeat or an alternation, which can take too long to match';
+      groups[groups.length - 1] ||= inner || repeated;
+    } else if (c === '*' || c === '+' || c === '{' || c === '|') {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+// Throws on an invalid or unsafe regular expression so routes can reject it
+// up front; the error message says what is wrong
+export function compilePattern(pattern: string, mode: RuleConditions['matchMode']) {
+  if (mode !== 'REGEX') return { test: (s: string) => s.toLowerCase().includes(pattern.toLowerCase()) };
+  const unsafe = unsafePattern(pattern);
+  if (unsafe) throw new Error(`descriptionPattern ${unsafe}`);
+  return new RegExp(pattern, 'i');
+}
+
+export function ruleMatches(rule: RuleConditions, row: Omit<Categorisable, 'category'>) {
+  if (rule.type && rule.type !== row.type) return false;
+  if (rule.minAmount !== null && row.amount < Number(rule.minAmount)) return false;
+  if (rule.maxAmount !== null && row.amount > Number(rule.maxAmount)) return false;
+  if (rule.descriptionPattern) {
+    try {
+      if (!compilePattern(rule.descriptionPattern, rule.matchMode).test(row.description ?? '')) return false;
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+export async function loadRules(userId: string) {
+  return prisma.categoryRule.findMany({
+    where: { userId, active: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+// Applies the first matching rule to each row. Rule tags are merged into the
+// row's own; the category is only replaced when `keepCategory` is false,
+// which is the case for importer guesses but not for a category a user chose.
+export function applyRules<T extends Categorisable>(
+  rules: RuleConditions[],
+  rows: T[],
+  options: { keepCategory?: (row: T) => boolean } = {}
+): Array<T & { tags: string[] }> {
+  return rows.map((row) => {
+    const rule = rules.find((r) => ruleMatches(r, row));
+    if (!rule) return { ...row, tags: row.tags ?? [] };
+    return {
+      ...row,
+      category: options.keepCategory?.(row) ? row.category : rule.category,
+      tags: formatTagList([...(row.tags ?? []), ...parseTags(rule.tags)]),
+    };
+  });
+}
+
+export async function categoriseRows<T extends Categorisable>(
+  userId: string,
+  rows: T[],
+  options: { keepCategory?: (row: T) => boolean } = {}
+) {
+  return applyRules(rows.length > 0 ? await loadRules(userId) : [], rows, options);
+}
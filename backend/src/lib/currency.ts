@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { parseCsv } from './statementImport';
+
+const prisma = new PrismaClient();
+
+// ISO 4217 code, e.g. "usd" → "USD"
+export const currencySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+  .transform((s) => s.toUpperCase());
+
+type RatePoint = { time: number; rate: number };
+
+export type Converter = {
+  base: string;
+  // Currencies met without a rate to convert them, for the response to report
+  missing: Set<string>;
+  // `amount` in `to` (the base currency by default) at the rate in force on
+  // `date`, or null when no rate links the two currencies
+  convert: (amount: number, from: string, date: Date, to?: string) => number | null;
+};
+
+// Rate in force at `time`: the latest one dated on or before it. Dates before
+// the first known rate use that first rate rather than failing to convert.
+function rateAt(points: RatePoint[], time: number) {
+  let found = points[0]!.rate;
+  for (const p of points) {
+    if (p.time > time) break;
+    found = p.rate;
+  }
+  return found;
+}
+
+// Loads the user's base currency and rate table once per request
+export async function loadConverter(userId: string): Promise<Converter> {
+  const [user, rates] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } }),
+    prisma.exchangeRate.findMany({ where: { userId }, orderBy: { date: 'asc' } }),
+  ]);
+  const base = user?.baseCurrency ?? 'USD';
+
+  // Each stored rate also gives the inverse pair
+  const pairs = new Map<string, RatePoint[]>();
+  const add = (from: string, to: string, time: number, rate: number) => {
+    const key = `${from}:${to}`;
+    if (!pairs.has(key)) pairs.set(key, []);
+    pairs.get(key)!.push({ time, rate });
+  };
+  for (const r of rates) {
+    const rate = Number(r.rate);
+    if (!(rate > 0)) continue;
+    add(r.fromCurrency, r.toCurrency, r.date.getTime(), rate);
+    add(r.toCurrency, r.fromCurrency, r.date.getTime(), 1 / rate);
+  }
+
+  // Direct or inverse rate, else a cross rate through the base currency
+  const rate = (from: string, to: string, time: number): number | null => {
+    if (from === to) return 1;
+    const points = pairs.get(`${from}:${to}`);
+    if (points) return rateAt(points, time);
+    if (from === base || to === base) return null;
+    const toBase = rate(from, base, time);
+    const fromBase = rate(base, to, time);
+    return toBase !== null && fromBase !== null ? toBase * fromBase : null;
+  };
+
+  const missing = new Set<string>();
+  return {
+    base,
+    missing,
+    convert(amount, from, date, to = base) {
+      const r = rate(from, to, date.getTime());
+      if (r === null) {
+        missing.add(from === base ? to : from);
+        return null;
+      }
+      return amount * r;
+    },
+  };
+}
+
+type Convertible = { amount: Prisma.Decimal | number; currency: string; date: Date };
+
+// Amount in the base currency; rows without a rate count as zero
+export function inBase(converter: Converter, tx: Convertible) {
+  return converter.convert(Number(tx.amount), tx.currency, tx.date) ?? 0;
+}
+
+// A total in the base currency alongside the original amounts per currency
+export type Money = { amount: number; original: Record<string, number> };
+
+export function emptyMoney(): Money {
+  return { amount: 0, original: {} };
+}
+
+export function addMoney(money: Money, converter: Converter, tx: Convertible) {
+  money.original[tx.currency] = (money.original[tx.currency] ?? 0) + Number(tx.amount);
+  money.amount += inBase(converter, tx);
+  return money;
+}
+
+export function roundMoney(money: Money): Money {
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  return {
+    amount: round2(money.amount),
+    original: Object.fromEntries(Object.entries(money.original).map(([c, n]) => [c, round2(n)])),
+  };
+}
+
+// Fields every converted aggregate adds to its response
+export function currencyReport(converter: Converter) {
+  return {
+    baseCurrency: converter.base,
+    ...(converter.missing.size > 0 && { missingRates: [...converter.missing].sort() }),
+  };
+}
+
+// Currency for a new transaction that did not name one: its account's, else
+// the user's base currency
+export async function defaultCurrency(userId: string, accountId?: string | null) {
+  if (accountId) {
+    const account = await prisma.account.findFirst({ where: { id: accountId, userId }, select: { currency: true } });
+    if (account) return account.currency;
+  }
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } });
+  return user?.baseCurrency ?? 'USD';
+}
+
+export type RateRow = { fromCurrency: string; toCurrency: string; rate: number; date: Date };
+
+// CSV with a header row naming date, from, to and rate columns (any order).
+// A missing or blank "to" means the base currency.
+export function parseRatesCsv(text: string, base: string) {
+  const [headers, ...body] = parseCsv(text);
+  const column = (name: string) => (headers ?? []).findIndex((h) => h.trim().toLowerCase() === name);
+  const columns = { date: column('date'), from: column('from'), to: column('to'), rate: column('rate') };
+  if (columns.date < 0 || columns.from < 0 || columns.rate < 0) {
+    return { rates: [], errors: ['Header row must include date, from and rate columns'] };
+  }
+
+  const rates: RateRow[] = [];
+  const errors: string[] = [];
+  body.forEach((cells, i) => {
+    const line = i + 2;
+    const from = currencySchema.safeParse(cells[columns.from] ?? '');
+    const to = currencySchema.safeParse((columns.to >= 0 && cells[columns.to]) || base);
+    const rate = Number(cells[columns.rate]);
+    const date = new Date(cells[columns.date] ?? '');
+    if (!from.success || !to.success) return errors.push(`Line ${line}: invalid currency code`);
+    if (from.data === to.data) return errors.push(`Line ${line}: from and to are the same currency`);
+    if (!(rate > 0)) return errors.push(`Line ${line}: rate must be a positive number`);
+    if (Number.isNaN(date.getTime())) return errors.push(`Line ${line}: invalid date`);
+    rates.push({ fromCurrency: from.data, toCurrency: to.data, rate, date });
+  });
+  return { rates, errors };
+}
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+import type { Debt } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Simulations stop here (50 years) when payments never catch up with interest
+export const MAX_MONTHS = 600;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// A debt's due date in the given month, clamped for shorter months
+// (due day 31 → Feb 28)
+export function dueDateIn(year: number, month: number, dueDay: number) {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dueDay, lastDay));
+}
+
+// The first due date on or after `from`'s day
+export function nextDueDate(dueDay: number, from: Date) {
+  const thisMonth = dueDateIn(from.getFullYear(), from.getMonth(), dueDay);
+  const today = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  return thisMonth >= today ? thisMonth : dueDateIn(from.getFullYear(), from.getMonth() + 1, dueDay);
+}
+
+// Splits a payment into the interest accrued (daily, at `apr` percent a year)
+// on `balance` since the previous payment and the principal it pays off
+export function splitPayment(balance: number, apr: number, amount: number, since: Date, date: Date) {
+  const days = Math.max(0, (date.getTime() - since.getTime()) / DAY_MS);
+  const interest = round2(Math.min(amount, (balance * apr) / 100 / 365 * days));
+  const principal = round2(Math.min(balance, amount - interest));
+  return { interest, principal };
+}
+
+export type ScheduleRow = { n: number; date: Date; payment: number; interest: number; principal: number; balance: number };
+
+// Month-by-month repayment of `balance` with a fixed payment, interest charged
+// monthly at apr/12. `paidOff` is false when the payment does not cover the
+// interest (or the debt outlasts MAX_MONTHS).
+export function amortisationSchedule(
+  debt: { balance: number; apr: number; payment: number; dueDay: number },
+  from: Date
+) {
+  const rows: ScheduleRow[] = [];
+  const first = nextDueDate(debt.dueDay, from);
+  let balance = debt.balance;
+  let totalInterest = 0;
+  for (let n = 1; balance > 0.005 && n <= MAX_MONTHS; n++) {
+    const interest = round2((balance * debt.apr) / 1200);
+    if (debt.payment <= interest) break;
+    const payment = round2(Math.min(debt.payment, balance + interest));
+    const principal = round2(payment - interest);
+    balance = round2(balance - principal);
+    totalInterest += interest;
+    rows.push({ n, date: dueDateIn(first.getFullYear(), first.getMonth() + n - 1, debt.dueDay), payment, interest, principal, balance });
+  }
+  return {
+    rows,
+    paidOff: balance <= 0.005,
+    payoffDate: balance <= 0.005 ? (rows[rows.length - 1]?.date ?? from) : null,
+    totalInterest: round2(totalInterest),
+    totalPaid: round2(rows.reduce((sum, r) => sum + r.payment, 0)),
+  };
+}
+
+export type PlanDebt = { id: string; name: string; balance: number; apr: number; minimumPayment: number };
+
+export type Strategy = 'snowball' | 'avalanche';
+
+// Snowball pays off the smallest balance first, avalanche the highest rate;
+// ties go the other strategy's way
+function byStrategy(strategy: Strategy) {
+  return (a: PlanDebt & { left: number }, b: PlanDebt & { left: number }) =>
+    strategy === 'snowball' ? a.left - b.left || b.apr - a.apr : b.apr - a.apr || a.left - b.left;
+}
+
+// Pays `budget` a month across all debts: every minimum first, then the rest
+// to the debt the strategy targets. A paid-off debt's minimum rolls into the
+// extra, so the monthly outlay stays at `budget` until everything is paid.
+export function simulatePayoff(debts: PlanDebt[], budget: number, strategy: Strategy, from: Date) {
+  const state = debts.map((d) => ({ ...d, left: d.balance }));
+  const payoff: Array<{ id: string; name: string; month: number; date: Date }> = [];
+  const timeline: Array<{ month: number; date: Date; total: number; balances: Record<string, number> }> = [];
+  const month = (n: number) => new Date(from.getFullYear(), from.getMonth() + n, 1);
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  timeline.push({ month: 0, date: month(0), total: round2(state.reduce((s, d) => s + d.left, 0)), balances: Object.fromEntries(state.map((d) => [d.id, round2(d.left)])) });
+  for (let n = 1; state.some((d) => d.left > 0.005) && n <= MAX_MONTHS; n++) {
+    const active = state.filter((d) => d.left > 0.005);
+    for (const d of active) {
+      const interest = (d.left * d.apr) / 1200;
+      d.left += interest;
+      totalInterest += interest;
+    }
+    let available = budget;
+    for (const d of active) {
+      const pay = Math.min(d.minimumPayment, d.left, available);
+      d.left -= pay;
+      available -= pay;
+    }
+    for (const d of [...active].sort(byStrategy(strategy))) {
+      const pay = Math.min(available, d.left);
+      d.left -= pay;
+      available -= pay;
+    }
+    totalPaid += budget - available;
+    for (const d of active) {
+      if (d.left <= 0.005) payoff.push({ id: d.id, name: d.name, month: n, date: month(n) });
+    }
+    timeline.push({ month: n, date: month(n), total: round2(state.reduce((s, d) => s + Math.max(0, d.left), 0)), balances: Object.fromEntries(state.map((d) => [d.id, round2(Math.max(0, d.left))])) });
+  }
+
+  const paidOff = state.every((d) => d.left <= 0.005);
+  return {
+    strategy,
+    paidOff,
+    months: paidOff ? timeline.length - 1 : null,
+    payoffDate: paidOff ? (timeline[timeline.length - 1]?.date ?? from) : null,
+    totalInterest: round2(totalInterest),
+    totalPaid: round2(totalPaid),
+    payoffOrder: payoff,
+    timeline,
+  };
+}
+
+// Current balance of each debt (principal less the principal part of every
+// payment) and its latest payment date, keyed by debt id
+export async function debtBalances(debts: Debt[]) {
+  const sums = await prisma.debtPayment.groupBy({
+    by: ['debtId'],
+    where: { debtId: { in: debts.map((d) => d.id) } },
+    _sum: { principal: true },
+    _max: { date: true },
+  });
+  const byDebt = new Map(sums.map((s) => [s.debtId, s]));
+  return new Map(
+    debts.map((d) => {
+      const paid = byDebt.get(d.id);
+      return [d.id, { balance: round2(Number(d.principal) - Number(paid?._sum.principal ?? 0)), lastPaymentDate: paid?._max.date ?? null }];
+    })
+  );
+}
@@ -0,0 +1,209 @@
+import { randomBytes } from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+import type { DigestFrequency } from '@prisma/client';
+import { budgetStatus, buildBudgetLedger, monthKey, monthStart } from './budget';
+import { currencyReport, loadConverter } from './currency';
+import { getMailTransport } from './mail';
+import type { MailMessage } from './mail';
+import { formatDate, formatMoney, formatMonth, loadPreferences } from './preferences';
+import type { Preferences } from './preferences';
+import { buildStats, expenseByCategory } from './stats';
+
+const prisma = new PrismaClient();
+
+export const DIGEST_SECTIONS = ['summary', 'budget', 'categories'] as const;
+export type DigestSection = (typeof DIGEST_SECTIONS)[number];
+
+const TOP_CATEGORIES = 5;
+
+export function parseSections(raw: string): DigestSection[] {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? DIGEST_SECTIONS.filter((s) => parsed.includes(s)) : [...DIGEST_SECTIONS];
+  } catch {
+    return [...DIGEST_SECTIONS];
+  }
+}
+
+// The user's digest settings, created (switched off) on first use
+export async function loadDigestPreference(userId: string) {
+  return prisma.digestPreference.upsert({
+    where: { userId },
+    create: { userId, unsubscribeToken: randomBytes(24).toString('base64url') },
+    update: {},
+  });
+}
+
+export function unsubscribeUrl(token: string) {
+  const base = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 4000}`;
+  return `${base.replace(/\/+$/, '')}/api/digest/unsubscribe/${token}`;
+}
+
+// The last complete period before `now`, in server time like the budget
+// months: [start, end)
+export function digestPeriod(frequency: Exclude<DigestFrequency, 'OFF'>, now: Date, prefs: Preferences) {
+  if (frequency === 'MONTHLY') {
+    const end = monthStart(now);
+    const start = new Date(end.getFullYear(), end.getMonth() - 1, 1);
+    return { start, end, label: formatMonth(start, prefs) };
+  }
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() - prefs.weekStartsOn + 7) % 7));
+  const start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 7);
+  const lastDay = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1);
+  return { start, end, label: `${formatDate(start, prefs)} – ${formatDate(lastDay, prefs)}` };
+}
+
+export type DigestData = Awaited<ReturnType<typeof loadDigestData>>;
+
+// The figures /api/transactions/stats and /api/budget/status give for the
+// period. A monthly digest reports that month's budget; a weekly one the
+// current month's so far.
+export async function loadDigestData(userId: string, frequency: Exclude<DigestFrequency, 'OFF'>, now: Date = new Date()) {
+  const [converter, prefs] = await Promise.all([loadConverter(userId), loadPreferences(userId)]);
+  const period = digestPeriod(frequency, now, prefs);
+  const where = { userId, date: { gte: period.start, lt: period.end } };
+
+  const [stats, categories, ledger] = await Promise.all([
+    buildStats(userId, where, {}, converter),
+    expenseByCategory(userId, where, {}, converter),
+    buildBudgetLedger(userId, now, converter, prefs),
+  ]);
+  const month = frequency === 'MONTHLY' ? ledger.months.find((m) => m.month === monthKey(period.start)) : ledger.months[ledger.months.length - 1];
+
+  return {
+    frequency,
+    period,
+    prefs,
+    stats,
+    topCategories: categories.slice(0, TOP_CATEGORIES).map((c) => ({ category: c.category, amount: Math.round(c.amount * 100) / 100 })),
+    budget: month && month.effectiveBudget > 0 ? budgetStatus(month) : null,
+    ...currencyReport(converter),
+  };
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// The email for a digest, as HTML and plain text with the same content
+export function renderDigest(data: DigestData, sections: DigestSection[], unsubscribe: string): Omit<MailMessage, 'to'> {
+  const money = (n: number) => formatMoney(n, data.prefs);
+  const title = `${data.frequency === 'WEEKLY' ? 'Your week' : 'Your month'}: ${data.period.label}`;
+  const text: string[] = [title, ''];
+  const html: string[] = [];
+  const heading = (label: string) => {
+    text.push(label.toUpperCase());
+    html.push(`<h2 style="font-size:16px;color:#1e293b;margin:24px 0 8px">${escapeHtml(label)}</h2>`);
+  };
+  const rows = (pairs: Array<[string, string]>) => {
+    for (const [label, value] of pairs) text.push(`  ${label}: ${value}`);
+    text.push('');
+    html.push(
+      `<table style="width:100%;border-collapse:collapse">${pairs
+        .map(([label, value]) => `<tr><td style="padding:4px 0;color:#475569">${escapeHtml(label)}</td><td style="padding:4px 0;text-align:right;font-weight:bold;color:#0f172a">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`
+    );
+  };
+
+  if (sections.includes('summary')) {
+    heading('Summary');
+    rows([
+      ['Income', money(data.stats.totalIncome)],
+      ['Expenses', money(data.stats.totalExpense)],
+      ['Net savings', money(data.stats.netSavings)],
+      ['Savings rate', `${data.stats.savingsRate}%`],
+      ['Average daily spending', money(data.stats.averageDailySpending)],
+      ['Biggest expense category', data.stats.biggestExpenseCategory],
+    ]);
+  }
+  if (sections.includes('budget')) {
+    heading(data.budget ? `Budget: ${data.budget.month}` : 'Budget');
+    if (data.budget) {
+      rows([
+        ['Budget', money(data.budget.effectiveBudget)],
+        ['Spent', `${money(data.budget.spent)} (${Math.round(data.budget.percentageUsed)}%)`],
+        [data.budget.isOverBudget ? 'Over budget by' : 'Remaining', money(Math.abs(data.budget.remaining))],
+      ]);
+    } else {
+      text.push('  No monthly budget set.', '');
+      html.push('<p style="color:#64748b">No monthly budget set.</p>');
+    }
+  }
+  if (sections.includes('categories')) {
+    heading('Top spending categories');
+    if (data.topCategories.length > 0) rows(data.topCategories.map((c) => [c.category, money(c.amount)]));
+    else {
+      text.push('  No expenses in this period.', '');
+      html.push('<p style="color:#64748b">No expenses in this period.</p>');
+    }
+  }
+  if (data.missingRates) {
+    const note = `Amounts in ${data.missingRates.join(', ')} are left out until you add an exchange rate.`;
+    text.push(note, '');
+    html.push(`<p style="color:#b45309">${escapeHtml(note)}</p>`);
+  }
+
+  text.push(`Unsubscribe: ${unsubscribe}`);
+  return {
+    subject: `FinSmart – ${title}`,
+    text: text.join('\n'),
+    html: `<!doctype html><html><body style="font-family:Arial,sans-serif;max-width:560px;margin:0 auto;padding:24px;color:#0f172a">
+<h1 style="font-size:22px;color:#1d4ed8;margin:0 0 8px">${escapeHtml(title)}</h1>
+${html.join('\n')}
+<p style="margin-top:32px;font-size:12px;color:#94a3b8"><a href="${escapeHtml(unsubscribe)}" style="color:#94a3b8">Unsubscribe</a> from these emails.</p>
+</body></html>`,
+    // One-click unsubscribe (RFC 8058): mail clients POST to the link
+    headers: { 'List-Unsubscribe': `<${unsubscribe}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+  };
+}
+
+// Builds and sends one digest. Returns false when the period had nothing to
+// report, in which case nothing is sent.
+export async function sendDigest(userId: string, frequency: Exclude<DigestFrequency, 'OFF'>, now: Date = new Date(), options: { force?: boolean } = {}) {
+  const [user, preference] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { email: true } }),
+    loadDigestPreference(userId),
+  ]);
+  if (!user) return false;
+  const data = await loadDigestData(userId, frequency, now);
+  if (!options.force && data.stats.transactionCount === 0 && !data.budget) return false;
+  const message = renderDigest(data, parseSections(preference.sections), unsubscribeUrl(preference.unsubscribeToken));
+  await getMailTransport().send({ ...message, to: user.email });
+  return true;
+}
+
+// Sends every digest whose period has closed since the last one went out
+export async function sendDueDigests(now: Date = new Date()) {
+  // Unverified addresses may not belong to the user, so they get no digests
+  const due = await prisma.digestPreference.findMany({ where: { frequency: { not: 'OFF' }, user: { emailVerifiedAt: { not: null } } } });
+  let sent = 0;
+  for (const preference of due) {
+    if (preference.frequency === 'OFF') continue;
+    const prefs = await loadPreferences(preference.userId);
+    const { end } = digestPeriod(preference.frequency, now, prefs);
+    if (preference.lastPeriodEnd && preference.lastPeriodEnd >= end) continue;
+    try {
+      if (await sendDigest(preference.userId, preference.frequency, now)) sent++;
+      await prisma.digestPreference.update({ where: { id: preference.id }, data: { lastPeriodEnd: end } });
+    } catch (error) {
+      // Left due, so the next run tries again
+      console.error(`Digest for user ${preference.userId} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Checks for due digests once at startup and then hourly
+export function startDigestScheduler() {
+  const run = () =>
+    sendDueDigests()
+      .then((sent) => {
+        if (sent > 0) console.log(`📬 Sent ${sent} digest email(s)`);
+      })
+      .catch((error) => console.error('Digest scheduler error:', error));
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client';
+import type { TransactionType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ImportCandidate = {
+  date: Date;
+  amount: number;
+  description?: string | null | undefined;
+  type: TransactionType;
+  externalId?: string | null | undefined;
+};
+
+export type DuplicateMatch = {
+  id: string;
+  date: Date;
+  amount: number;
+  category: string;
+  description: string | null;
+};
+
+export type DuplicateFlag<T> = {
+  transaction: T;
+  reason: 'external_id' | 'fingerprint';
+  matches: DuplicateMatch[];
+};
+
+// Lowercase, drop punctuation and long digit runs (card numbers, store and
+// reference numbers) so "STARBUCKS #10234" and "Starbucks" compare equal
+export function normaliseDescription(description?: string | null) {
+  return (description ?? '')
+    .toLowerCase()
+    .replace(/\d{3,}/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Date is compared separately with a one-day tolerance for timezone drift
+export function fingerprint(row: { type: TransactionType; amount: number; description?: string | null | undefined }) {
+  return `${row.type}|${row.amount.toFixed(2)}|${normaliseDescription(row.description)}`;
+}
+
+// Splits rows about to be imported into those that look new and those that
+// probably already exist: same bank id, or same type, amount and normalised
+// description within a day of an existing transaction.
+export async function partitionDuplicates<T extends ImportCandidate>(userId: string, rows: T[]) {
+  const fresh: T[] = [];
+  const duplicates: DuplicateFlag<T>[] = [];
+  if (rows.length === 0) return { fresh, duplicates };
+
+  const times = rows.map((r) => r.date.getTime());
+  const from = new Date(Math.min(...times) - DAY_MS);
+  const to = new Date(Math.max(...times) + DAY_MS);
+  const externalIds = rows.map((r) => r.externalId).filter((id): id is string => !!id);
+
+  const existing = await prisma.transaction.findMany({
+    where: {
+      userId,
+      OR: [
+        { date: { gte: from, lte: to } },
+        ...(externalIds.length > 0 ? [{ externalId: { in: externalIds } }] : []),
+      ],
+    },
+    select: { id: true, date: true, amount: true, category: true, description: true, type: true, externalId: true },
+  });
+
+  const toMatch = (t: (typeof existing)[number]): DuplicateMatch => ({
+    id: t.id,
+    date: t.date,
+    amount: Number(t.amount),
+    category: t.category,
+    description: t.description,
+  });
+
+  const byExternalId = new Map<string, (typeof existing)[number]>();
+  const byFingerprint = new Map<string, (typeof existing)[number][]>();
+  for (const t of existing) {
+    if (t.externalId) byExternalId.set(t.externalId, t);
+    const key = fingerprint({ type: t.type, amount: Number(t.amount), description: t.description });
+    byFingerprint.set(key, [...(byFingerprint.get(key) ?? []), t]);
+  }
+
+  // Identical rows within one file are often genuine (two coffees in a day),
+  // so only a repeated bank id counts as an in-file duplicate
+  const seenExternalIds = new Set<string>();
+  for (const row of rows) {
+    if (row.externalId) {
+      const match = byExternalId.get(row.externalId);
+      if (match || seenExternalIds.has(row.externalId)) {
+        duplicates.push({ transaction: row, reason: 'external_id', matches: match ? [toMatch(match)] : [] });
+        continue;
+      }
+      seenExternalIds.add(row.externalId);
+    }
+
+    const matches = (byFingerprint.get(fingerprint(row)) ?? []).filter(
+      (t) => Math.abs(t.date.getTime() - row.date.getTime()) <= DAY_MS
+    );
+    if (matches.length > 0) {
+      duplicates.push({ transaction: row, reason: 'fingerprint', matches: matches.map(toMatch) });
+      continue;
+    }
+    fresh.push(row);
+  }
+
+  return { fresh, duplicates };
+}
@@ -0,0 +1,221 @@
+import { PrismaClient } from '@prisma/client';
+import { accountBalances } from './accounts';
+import { inBase } from './currency';
+import type { Converter } from './currency';
+import { normaliseDescription } from './duplicates';
+import { detectPatterns, isActivePattern, nextPatternDate } from './patterns';
+import { nextOccurrence } from './recurring';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// History used to find recurring patterns and seasonality
+const HISTORY_DAYS = 365;
+// Recent history the day-to-day (non-recurring) flow is averaged over
+const BASELINE_DAYS = 90;
+// Bands cover the middle 80% of outcomes
+const BAND_Z = 1.2816;
+
+export const FORECAST_HORIZONS = [30, 90, 365] as const;
+
+export type ScheduledItem = {
+  date: Date;
+  description: string;
+  category: string;
+  // Signed: income positive, expenses negative, in the base currency
+  amount: number;
+  source: 'rule' | 'pattern';
+};
+
+export type FlowRow = { amount: number; type: 'INCOME' | 'EXPENSE'; date: Date };
+
+export type ForecastInput = {
+  startingBalance: number;
+  // Non-recurring history in the base currency, for the daily baseline
+  residual: FlowRow[];
+  scheduled: ScheduledItem[];
+  // Days of history available (caps the baseline window and gates seasonality)
+  historyDays: number;
+};
+
+const dayKey = (d: Date) => d.toISOString().slice(0, 10);
+const monthKey = (d: Date) => d.toISOString().slice(0, 7);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function startOfUtcDay(d: Date) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+// Expense level of each calendar month relative to the average month, from
+// the last year of residual history; 1 everywhere with less than ~11 months
+function seasonality(residual: FlowRow[], historyDays: number) {
+  const factors = new Array<number>(12).fill(1);
+  if (historyDays < 330) return factors;
+  const byMonth = new Array<number>(12).fill(0);
+  for (const row of residual) if (row.type === 'EXPENSE') byMonth[row.date.getUTCMonth()]! += row.amount;
+  const mean = byMonth.reduce((s, v) => s + v, 0) / 12;
+  if (mean <= 0) return factors;
+  return byMonth.map((v) => Math.min(2, Math.max(0.5, v / mean)));
+}
+
+// Projects the balance day by day: scheduled items on their dates plus the
+// average daily income and spending of the baseline window (expenses scaled
+// by seasonality). The band widens with the square root of the days ahead,
+// from the day-to-day variation of that baseline.
+export function projectCashFlow(input: ForecastInput, now: Date, days: number) {
+  const today = startOfUtcDay(now);
+  const windowDays = Math.max(1, Math.min(BASELINE_DAYS, input.historyDays));
+  const windowStart = new Date(today.getTime() - windowDays * DAY_MS);
+
+  const daily = new Map<string, number>();
+  let income = 0;
+  let expense = 0;
+  for (const row of input.residual) {
+    if (row.date < windowStart || row.date >= today) continue;
+    if (row.type === 'INCOME') income += row.amount;
+    else expense += row.amount;
+    daily.set(dayKey(row.date), (daily.get(dayKey(row.date)) ?? 0) + (row.type === 'INCOME' ? row.amount : -row.amount));
+  }
+  const dailyIncome = income / windowDays;
+  const dailyExpense = expense / windowDays;
+  const meanNet = dailyIncome - dailyExpense;
+  let variance = 0;
+  for (let i = 1; i <= windowDays; i++) {
+    const net = daily.get(dayKey(new Date(today.getTime() - i * DAY_MS))) ?? 0;
+    variance += (net - meanNet) ** 2;
+  }
+  const dailyStdDev = Math.sqrt(variance / windowDays);
+
+  // The baseline already reflects the recent months' season, so scale
+  // relative to their average factor
+  const factors = seasonality(input.residual, input.historyDays);
+  const windowMonths = new Set<number>();
+  for (let i = 1; i <= windowDays; i++) windowMonths.add(new Date(today.getTime() - i * DAY_MS).getUTCMonth());
+  const baselineFactor = [...windowMonths].reduce((s, m) => s + factors[m]!, 0) / windowMonths.size;
+
+  // Items due today or earlier that have not happened yet land on the first forecast day
+  const firstDay = new Date(today.getTime() + DAY_MS);
+  const scheduledByDay = new Map<string, number>();
+  for (const item of input.scheduled) {
+    const key = dayKey(item.date < firstDay ? firstDay : item.date);
+    scheduledByDay.set(key, (scheduledByDay.get(key) ?? 0) + item.amount);
+  }
+
+  const points: Array<{ date: string; balance: number; lower: number; upper: number }> = [];
+  const months = new Map<string, { month: string; income: number; expense: number; net: number; days: number }>();
+  let balance = input.startingBalance;
+  for (let d = 1; d <= days; d++) {
+    const date = new Date(today.getTime() + d * DAY_MS);
+    const factor = factors[date.getUTCMonth()]! / baselineFactor;
+    const scheduled = scheduledByDay.get(dayKey(date)) ?? 0;
+    const dayIncome = dailyIncome + Math.max(0, scheduled);
+    const dayExpense = dailyExpense * factor + Math.max(0, -scheduled);
+    balance += dayIncome - dayExpense;
+    const spread = BAND_Z * dailyStdDev * Math.sqrt(d);
+    points.push({ date: dayKey(date), balance: round2(balance), lower: round2(balance - spread), upper: round2(balance + spread) });
+
+    const key = monthKey(date);
+    const month = months.get(key) ?? { month: key, income: 0, expense: 0, net: 0, days: 0 };
+    month.income += dayIncome;
+    month.expense += dayExpense;
+    month.net += dayIncome - dayExpense;
+    month.days++;
+    months.set(key, month);
+  }
+
+  return {
+    startingBalance: round2(input.startingBalance),
+    endingBalance: round2(balance),
+    points,
+    // Projected flow per calendar month of the horizon (only the forecast
+    // days of a partial month), with the band for its net
+    months: [...months.values()].map((m) => {
+      const spread = BAND_Z * dailyStdDev * Math.sqrt(m.days);
+      return { month: m.month, days: m.days, income: round2(m.income), expense: round2(m.expense), net: round2(m.net), lower: round2(m.net - spread), upper: round2(m.net + spread) };
+    }),
+    assumptions: {
+      baselineDays: windowDays,
+      dailyIncome: round2(dailyIncome),
+      dailyExpense: round2(dailyExpense),
+      dailyStdDev: round2(dailyStdDev),
+      seasonal: factors.some((f) => f !== 1),
+    },
+  };
+}
+
+// Gathers a user's balances, recurring rules, detected patterns and history
+// and projects `days` ahead, all in the base currency
+export async function buildForecast(userId: string, days: number, converter: Converter, now: Date = new Date()) {
+  const today = startOfUtcDay(now);
+  const horizon = new Date(today.getTime() + days * DAY_MS);
+  const [accounts, balances, rules, history] = await Promise.all([
+    prisma.account.findMany({ where: { userId, archived: false }, select: { id: true, currency: true } }),
+    accountBalances(userId),
+    prisma.recurringRule.findMany({ where: { userId, active: true, nextRunAt: { not: null }, type: { not: 'TRANSFER' } } }),
+    prisma.transaction.findMany({
+      where: { userId, type: { not: 'TRANSFER' }, date: { gte: new Date(today.getTime() - HISTORY_DAYS * DAY_MS), lte: now } },
+      select: { id: true, type: true, amount: true, currency: true, date: true, description: true, category: true, recurringRuleId: true },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  // Without accounts there is no balance to start from; the forecast is then
+  // the change from today
+  const startingBalance = accounts.reduce(
+    (sum, a) => sum + (converter.convert(balances.get(a.id) ?? 0, a.currency, now) ?? 0),
+    0
+  );
+
+  const scheduled: ScheduledItem[] = [];
+  for (const rule of rules) {
+    const amount = converter.convert(Number(rule.amount), rule.currency, now) ?? 0;
+    for (let date: Date | null = rule.nextRunAt; date && date <= horizon; date = nextOccurrence(rule, date)) {
+      scheduled.push({
+        date,
+        description: rule.description ?? rule.category,
+        category: rule.category,
+        amount: rule.type === 'INCOME' ? amount : -amount,
+        source: 'rule',
+      });
+    }
+  }
+
+  // Rule-generated rows are already covered by the rules themselves
+  const rows = history
+    .filter((tx) => !tx.recurringRuleId)
+    .map((tx) => ({ id: tx.id, type: tx.type, amount: inBase(converter, tx), date: tx.date, description: tx.description, category: tx.category }));
+  // Patterns a rule now schedules (e.g. a subscription turned into a rule)
+  // would otherwise be counted twice
+  const ruled = new Set(rules.map((r) => `${r.type}|${normaliseDescription(r.description)}`));
+  const patterns = detectPatterns(rows).filter((p) => isActivePattern(p, today) && !ruled.has(p.key));
+  for (const pattern of patterns) {
+    // A pattern running late is still expected rather than skipped
+    for (let date = pattern.nextDate; date <= horizon; date = nextPatternDate(pattern.cadence, date)) {
+      scheduled.push({
+        date,
+        description: pattern.description,
+        category: pattern.category,
+        amount: pattern.type === 'INCOME' ? pattern.amount : -pattern.amount,
+        source: 'pattern',
+      });
+    }
+  }
+
+  const inPattern = new Set(patterns.flatMap((p) => p.transactionIds));
+  const residual = rows
+    .filter((r) => !inPattern.has(r.id) && (r.type === 'INCOME' || r.type === 'EXPENSE'))
+    .map((r) => ({ amount: r.amount, type: r.type as FlowRow['type'], date: r.date }));
+  const first = history[0]?.date;
+  const historyDays = first ? Math.ceil((today.getTime() - first.getTime()) / DAY_MS) : 0;
+
+  const projection = projectCashFlow({ startingBalance, residual, scheduled, historyDays }, now, days);
+  return {
+    days,
+    hasAccounts: accounts.length > 0,
+    ...projection,
+    scheduled: scheduled
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map((s) => ({ ...s, date: dayKey(s.date), amount: round2(s.amount) })),
+    patterns: patterns.map(({ transactionIds: _ids, ...p }) => p),
+  };
+}
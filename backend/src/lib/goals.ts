@@ -0,0 +1,119 @@
+import { PrismaClient } from '@prisma/client';
+import type { Goal } from '@prisma/client';
+import { accountBalances, signedAmount } from './accounts';
+import { descendantIds, loadCategoryTree } from './categories';
+import type { Converter } from './currency';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+// The saving pace is measured over this many days before now
+const PACE_WINDOW_DAYS = 90;
+
+export type GoalStatus = 'achieved' | 'on_track' | 'at_risk' | 'overdue' | 'open';
+
+export type GoalProgress = {
+  saved: number;
+  remaining: number;
+  percent: number;
+  // Whole months are not required: half a month left is 0.5
+  monthsLeft: number | null;
+  // What has to go in each month from now to hit the target on time
+  requiredMonthly: number | null;
+  // Average monthly net contribution over the last PACE_WINDOW_DAYS
+  monthlyPace: number;
+  // When the target is reached at the current pace, if ever
+  projectedDate: Date | null;
+  status: GoalStatus;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// `saved` is the progress so far and `recent` what came in during the pace
+// window, both in the goal's currency
+export function goalProgress(
+  goal: { targetAmount: number; targetDate: Date | null },
+  saved: number,
+  recent: number,
+  now: Date
+): GoalProgress {
+  const remaining = Math.max(0, goal.targetAmount - saved);
+  const monthlyPace = recent / (PACE_WINDOW_DAYS / DAYS_PER_MONTH);
+  const monthsLeft = goal.targetDate
+    ? Math.max(0, (goal.targetDate.getTime() - now.getTime()) / DAY_MS / DAYS_PER_MONTH)
+    : null;
+  // With less than a month to go, the whole remainder is due this month
+  const requiredMonthly = monthsLeft === null ? null : remaining === 0 ? 0 : remaining / Math.max(1, monthsLeft);
+  const projectedDate =
+    remaining === 0 ? now : monthlyPace > 0 ? new Date(now.getTime() + (remaining / monthlyPace) * DAYS_PER_MONTH * DAY_MS) : null;
+
+  let status: GoalStatus;
+  if (remaining === 0) status = 'achieved';
+  else if (!goal.targetDate) status = 'open';
+  else if (goal.targetDate < now) status = 'overdue';
+  else status = projectedDate && projectedDate <= goal.targetDate ? 'on_track' : 'at_risk';
+
+  return {
+    saved: round2(saved),
+    remaining: round2(remaining),
+    percent: goal.targetAmount > 0 ? Math.min(100, Math.round((saved / goal.targetAmount) * 100)) : 100,
+    monthsLeft: monthsLeft === null ? null : Math.round(monthsLeft * 10) / 10,
+    requiredMonthly: requiredMonthly === null ? null : round2(requiredMonthly),
+    monthlyPace: round2(monthlyPace),
+    projectedDate,
+    status,
+  };
+}
+
+// Progress of each goal, keyed by goal id. An account goal counts the
+// account's balance; a category goal counts what was filed under the
+// category or its sub-categories since the goal's startDate (expenses and
+// transfers add, income such as a withdrawal back subtracts).
+export async function loadGoalProgress(userId: string, goals: Goal[], converter: Converter, now: Date = new Date()) {
+  const paceStart = new Date(now.getTime() - PACE_WINDOW_DAYS * DAY_MS);
+  const accountIds = [...new Set(goals.flatMap((g) => (g.accountId ? [g.accountId] : [])))];
+  const categoryGoals = goals.filter((g) => !g.accountId && g.categoryId);
+
+  const [balances, accounts, accountTransactions, tree] = await Promise.all([
+    accountIds.length > 0 ? accountBalances(userId) : new Map<string, number>(),
+    prisma.account.findMany({ where: { id: { in: accountIds } }, select: { id: true, currency: true } }),
+    accountIds.length > 0
+      ? prisma.transaction.findMany({
+          where: { userId, date: { gte: paceStart, lte: now }, OR: [{ accountId: { in: accountIds } }, { transferAccountId: { in: accountIds } }] },
+          select: { type: true, amount: true, currency: true, date: true, accountId: true, transferAccountId: true },
+        })
+      : [],
+    categoryGoals.length > 0 ? loadCategoryTree(userId) : null,
+  ]);
+  const accountCurrency = new Map(accounts.map((a) => [a.id, a.currency]));
+
+  const progress = new Map<string, GoalProgress>();
+  for (const goal of goals) {
+    const target = { targetAmount: Number(goal.targetAmount), targetDate: goal.targetDate };
+    let saved = 0;
+    let recent = 0;
+
+    if (goal.accountId) {
+      const accountId = goal.accountId;
+      saved = converter.convert(balances.get(accountId) ?? 0, accountCurrency.get(accountId) ?? goal.currency, now, goal.currency) ?? 0;
+      for (const tx of accountTransactions) {
+        if (tx.accountId !== accountId && tx.transferAccountId !== accountId) continue;
+        recent += converter.convert(signedAmount(tx, accountId), tx.currency, tx.date, goal.currency) ?? 0;
+      }
+    } else if (goal.categoryId && tree) {
+      const rows = await prisma.transaction.findMany({
+        where: { userId, categoryId: { in: [...descendantIds(tree, goal.categoryId)] }, date: { gte: goal.startDate, lte: now } },
+        select: { type: true, amount: true, currency: true, date: true },
+      });
+      for (const tx of rows) {
+        const amount = converter.convert(-signedAmount(tx), tx.currency, tx.date, goal.currency) ?? 0;
+        saved += amount;
+        if (tx.date >= paceStart) recent += amount;
+      }
+    }
+
+    progress.set(goal.id, goalProgress(target, saved, recent, now));
+  }
+  return progress;
+}
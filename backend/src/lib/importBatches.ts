@@ -0,0 +1,108 @@
+import { createHash } from 'node:crypto';
+import { PrismaClient } from '@prisma/client';
+import type { TransactionType } from '@prisma/client';
+import { formatTags } from './categoryRules';
+import { linkCategories } from './categories';
+import { detectAnomalies } from './anomalies';
+import { defaultCurrency } from './currency';
+import { notifyAfterWrite } from './notifications';
+
+const prisma = new PrismaClient();
+
+export const IMPORT_SOURCES = ['receipt', 'statement', 'ai-receipt'] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export type ImportRow = {
+  date: Date;
+  amount: number;
+  // Defaults to the batch account's currency, else the user's base currency
+  currency?: string | undefined;
+  category: string;
+  description?: string | null | undefined;
+  type: TransactionType;
+  externalId?: string | null | undefined;
+  tags?: string[] | undefined;
+};
+
+// A new batch for this upload, or an existing one to append to (e.g. rows the
+// user kept after duplicate review)
+export type ImportTarget =
+  | {
+      source: ImportSource;
+      filename?: string | null | undefined;
+      fileHash?: string | null | undefined;
+      accountId?: string | null | undefined;
+    }
+  | { batchId: string };
+
+export function hashFile(buffer: Buffer) {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+// Most recent batch created from a byte-identical file, if any
+export async function findPreviousImport(userId: string, fileHash: string) {
+  return prisma.importBatch.findFirst({
+    where: { userId, fileHash },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, filename: true, createdAt: true },
+  });
+}
+
+// Creates the rows under one batch in a single database transaction. Returns
+// null for the batch when appending to a batch the user does not own.
+export async function importTransactions(userId: string, target: ImportTarget, rows: ImportRow[]) {
+  const accountId =
+    'batchId' in target
+      ? (await prisma.importBatch.findFirst({ where: { id: target.batchId, userId }, select: { accountId: true } }))?.accountId
+      : target.accountId;
+  const currency = await defaultCurrency(userId, accountId);
+  const result = await prisma.$transaction(async (db) => {
+    let batch;
+    if ('batchId' in target) {
+      const existing = await db.importBatch.findFirst({ where: { id: target.batchId, userId } });
+      if (!existing) return { batch: null, created: [] };
+      batch = await db.importBatch.update({
+        where: { id: existing.id },
+        data: { rowCount: { increment: rows.length } },
+      });
+    } else {
+      batch = await db.importBatch.create({
+        data: {
+          userId,
+          source: target.source,
+          filename: target.filename ?? null,
+          fileHash: target.fileHash ?? null,
+          accountId: target.accountId ?? null,
+          rowCount: rows.length,
+        },
+      });
+    }
+
+    const created = [];
+    for (const row of await linkCategories(userId, rows, db)) {
+      created.push(
+        await db.transaction.create({
+          data: {
+            userId,
+            type: row.type,
+            amount: row.amount,
+            currency: row.currency ?? currency,
+            category: row.category,
+            categoryId: row.categoryId,
+            description: row.description ?? null,
+            date: row.date,
+            externalId: row.externalId ?? null,
+            tags: formatTags(row.tags),
+            importBatchId: batch.id,
+            accountId: batch.accountId,
+          },
+        })
+      );
+    }
+    return { batch, created };
+  });
+  await detectAnomalies(userId, result.created).catch((error) => console.error('Anomaly detection error:', error));
+  await notifyAfterWrite(userId, result.created);
+  return result;
+}
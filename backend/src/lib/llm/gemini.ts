@@ -0,0 +1,47 @@
+import { LlmError, defineProvider, httpError, retryWithBackoff } from './provider';
+
+export type GeminiConfig = {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+};
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export function createGeminiProvider(config: GeminiConfig) {
+  const endpoint = `${config.baseUrl ?? DEFAULT_BASE_URL}/models/${config.model}:generateContent`;
+
+  return defineProvider('gemini', config.model, (prompt, options = {}) =>
+    retryWithBackoff(async () => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey,
+        },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            ...(options.temperature !== undefined && { temperature: options.temperature }),
+            ...(options.maxOutputTokens !== undefined && { maxOutputTokens: options.maxOutputTokens }),
+            ...(options.json && { responseMimeType: 'application/json' }),
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        console.error('❌ Gemini API error:', JSON.stringify(errorData, null, 2));
+        const message = errorData?.error?.message || 'Gemini API request failed';
+        // Gemini reports overload as status UNAVAILABLE, sometimes without a 503
+        if (errorData?.error?.status === 'UNAVAILABLE') throw new LlmError('overloaded', message, { status: response.status });
+        throw httpError(errorData?.error?.code || response.status, message);
+      }
+
+      const result = await response.json();
+      const text = result.candidates?.[0]?.content?.parts?.[0]?.text as string | undefined;
+      if (!text) throw new LlmError('empty_response', 'No response from AI');
+      return text;
+    }, 3, 2000)
+  );
+}
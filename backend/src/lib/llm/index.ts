@@ -0,0 +1,54 @@
+import { createGeminiProvider } from './gemini';
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+import { createMockProvider, loadFixtures } from './mock';
+import { LlmError } from './provider';
+import type { LlmProvider } from './provider';
+
+export { LlmError, parseJsonResponse } from './provider';
+export type { GenerateOptions, LlmProvider } from './provider';
+export { createGeminiProvider } from './gemini';
+export { createOpenAiCompatibleProvider } from './openaiCompatible';
+export { createMockProvider, loadFixtures } from './mock';
+export type { MockFixture, MockProvider } from './mock';
+
+let current: LlmProvider | null = null;
+
+// Chosen by LLM_PROVIDER:
+//   gemini (default)  GEMINI_API_KEY, GEMINI_MODEL
+//   openai            LLM_BASE_URL, LLM_MODEL, LLM_API_KEY (optional for local servers)
+//   mock              LLM_MOCK_FIXTURES (directory of fixture files)
+function providerFromEnv(): LlmProvider {
+  const kind = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  switch (kind) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) throw new LlmError('not_configured', 'GEMINI_API_KEY not configured in environment variables');
+      return createGeminiProvider({ apiKey, model: process.env.GEMINI_MODEL || 'gemini-2.0-flash-exp' });
+    }
+    case 'openai': {
+      const model = process.env.LLM_MODEL;
+      if (!model) throw new LlmError('not_configured', 'LLM_MODEL not configured in environment variables');
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+        model,
+        ...(process.env.LLM_API_KEY && { apiKey: process.env.LLM_API_KEY }),
+      });
+    }
+    case 'mock':
+      return createMockProvider(loadFixtures(process.env.LLM_MOCK_FIXTURES || 'fixtures/llm'));
+    default:
+      throw new LlmError('not_configured', `Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
+
+// The configured provider, created on first use. Throws LlmError
+// ('not_configured') when the selected backend is missing settings.
+export function getLlmProvider() {
+  current ??= providerFromEnv();
+  return current;
+}
+
+// Replaces the provider, e.g. with a mock in tests; null re-reads the environment
+export function setLlmProvider(provider: LlmProvider | null) {
+  current = provider;
+}
@@ -0,0 +1,40 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { LlmError, defineProvider } from './provider';
+import type { LlmProvider } from './provider';
+
+// A canned reply, returned for any prompt containing `match`. Object and array
+// responses are serialised to JSON.
+export type MockFixture = {
+  match: string;
+  response: unknown;
+};
+
+export type MockProvider = LlmProvider & {
+  // Every prompt received, in order, for assertions in tests
+  readonly calls: string[];
+};
+
+// Fixture files are read in name order; each holds one fixture or an array
+export function loadFixtures(dir: string): MockFixture[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .flatMap((file) => {
+      const content: MockFixture | MockFixture[] = JSON.parse(readFileSync(path.join(dir, file), 'utf8'));
+      return Array.isArray(content) ? content : [content];
+    });
+}
+
+// Deterministic, offline provider: the first fixture whose `match` occurs in
+// the prompt wins. Unmatched prompts fail so tests notice missing fixtures.
+export function createMockProvider(fixtures: MockFixture[]): MockProvider {
+  const calls: string[] = [];
+  const provider = defineProvider('mock', 'fixtures', async (prompt) => {
+    calls.push(prompt);
+    const fixture = fixtures.find((f) => prompt.includes(f.match));
+    if (!fixture) throw new LlmError('request_failed', 'No mock LLM fixture matches this prompt');
+    return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+  });
+  return { ...provider, calls };
+}
@@ -0,0 +1,49 @@
+import { LlmError, defineProvider, httpError, retryWithBackoff } from './provider';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+export type OpenAiCompatibleConfig = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig) {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return defineProvider('openai-compatible', config.model, (prompt, options = {}) =>
+    retryWithBackoff(async () => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+          ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens }),
+          ...(options.json && { response_format: { type: 'json_object' } }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('❌ LLM API error:', errorText);
+        let message = 'LLM API request failed';
+        try {
+          message = JSON.parse(errorText).error?.message || message;
+        } catch {
+          // Not JSON (e.g. a proxy error page); keep the generic message
+        }
+        throw httpError(response.status, message);
+      }
+
+      const result = await response.json();
+      const text = result.choices?.[0]?.message?.content as string | undefined;
+      if (!text) throw new LlmError('empty_response', 'No response from AI');
+      return text;
+    })
+  );
+}
@@ -0,0 +1,100 @@
+import type { ZodType } from 'zod';
+
+export type GenerateOptions = {
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask the backend for a JSON-only response where it supports that
+  json?: boolean;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Parses the reply as JSON (tolerating markdown fences) and validates it
+  // against the schema; throws an LlmError with code 'invalid_response' otherwise
+  generateJson<T>(prompt: string, schema: ZodType<T>, options?: GenerateOptions): Promise<T>;
+}
+
+export type LlmErrorCode = 'not_configured' | 'request_failed' | 'overloaded' | 'rate_limited' | 'empty_response' | 'invalid_response';
+
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  // Upstream HTTP status, when the backend returned one
+  readonly status: number | undefined;
+  // The model's raw reply for 'invalid_response', so callers can fall back to it
+  readonly raw: string | undefined;
+
+  constructor(code: LlmErrorCode, message: string, details: { status?: number; raw?: string } = {}) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.status = details.status;
+    this.raw = details.raw;
+  }
+
+  get retryable() {
+    return this.code === 'overloaded' || this.code === 'rate_limited';
+  }
+}
+
+// Maps a failed HTTP response from any backend onto an LlmError
+export function httpError(status: number, message: string) {
+  if (status === 503) return new LlmError('overloaded', message, { status });
+  if (status === 429) return new LlmError('rate_limited', message, { status });
+  return new LlmError('request_failed', message, { status });
+}
+
+// Models often wrap JSON in ```json fences despite being told not to
+export function stripCodeFences(text: string) {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```json')) jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  else if (jsonText.startsWith('```')) jsonText = jsonText.replace(/```\n?/g, '');
+  return jsonText.trim();
+}
+
+export function parseJsonResponse<T>(text: string, schema: ZodType<T>): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFences(text));
+  } catch {
+    throw new LlmError('invalid_response', 'AI returned invalid JSON', { raw: text });
+  }
+  const parse = schema.safeParse(value);
+  if (!parse.success) {
+    throw new LlmError('invalid_response', 'AI returned invalid format', { raw: text });
+  }
+  return parse.data;
+}
+
+// Retries overloaded / rate-limited requests with exponential backoff
+export async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 3, baseDelay = 1000): Promise<T> {
+  for (let i = 0; ; i++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const isLastAttempt = i >= maxRetries - 1;
+      if (isLastAttempt || !(error instanceof LlmError) || !error.retryable) throw error;
+      const delay = baseDelay * Math.pow(2, i);
+      console.log(`⏳ Retry attempt ${i + 1}/${maxRetries} after ${delay}ms...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Builds a provider from a text generator; JSON handling is shared by all backends
+export function defineProvider(
+  name: string,
+  model: string,
+  generateText: (prompt: string, options?: GenerateOptions) => Promise<string>
+): LlmProvider {
+  return {
+    name,
+    model,
+    generateText,
+    async generateJson(prompt, schema, options) {
+      const text = await generateText(prompt, { ...options, json: true });
+      return parseJsonResponse(text, schema);
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
+import path from 'node:path';
+import { buildMime } from './transport';
+import type { MailTransport } from './transport';
+
+export type FileDropConfig = {
+  dir: string;
+  from: string;
+};
+
+export type FileDropTransport = MailTransport & {
+  // Path of every file written, in order, for assertions in tests
+  readonly sent: string[];
+};
+
+// Writes each message to `dir` as an .eml file instead of sending it, for
+// local development and tests. Any mail client opens the files.
+export function createFileDropTransport(config: FileDropConfig): FileDropTransport {
+  const sent: string[] = [];
+  return {
+    name: 'file',
+    sent,
+    async send(message) {
+      await mkdir(config.dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const file = path.join(config.dir, `${stamp}-${randomBytes(4).toString('hex')}.eml`);
+      await writeFile(file, buildMime(message, config.from), 'utf8');
+      sent.push(file);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { createFileDropTransport } from './fileDrop';
+import { createSmtpTransport } from './smtp';
+import { MailError } from './transport';
+import type { MailTransport } from './transport';
+
+export { MailError, buildMime } from './transport';
+export type { MailMessage, MailTransport } from './transport';
+export { createFileDropTransport } from './fileDrop';
+export type { FileDropTransport } from './fileDrop';
+export { createSmtpTransport } from './smtp';
+
+let current: MailTransport | null = null;
+
+// Chosen by MAIL_TRANSPORT, sending as MAIL_FROM:
+//   file (default)  MAIL_OUTBOX (directory the .eml files go to)
+//   smtp            SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS (optional),
+//                   SMTP_ALLOW_INSECURE_AUTH (sign in without TLS, e.g. a local relay)
+function transportFromEnv(): MailTransport {
+  const kind = (process.env.MAIL_TRANSPORT || 'file').toLowerCase();
+  const from = process.env.MAIL_FROM || 'FinSmart <no-reply@localhost>';
+  switch (kind) {
+    case 'file':
+      return createFileDropTransport({ dir: process.env.MAIL_OUTBOX || 'outbox', from });
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) throw new MailError('not_configured', 'SMTP_HOST not configured in environment variables');
+      const secure = process.env.SMTP_SECURE === 'true';
+      return createSmtpTransport({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        from,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+        ...(process.env.SMTP_USER && { user: process.env.SMTP_USER }),
+        ...(process.env.SMTP_PASS && { pass: process.env.SMTP_PASS }),
+      });
+    }
+    default:
+      throw new MailError('not_configured', `Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
+
+// The configured transport, created on first use. Throws MailError
+// ('not_configured') when the selected transport is missing settings.
+export function getMailTransport() {
+  current ??= transportFromEnv();
+  return current;
+}
+
+// Replaces the transport, e.g. with a file drop in tests; null re-reads the environment
+export function setMailTransport(transport: MailTransport | null) {
+  current = transport;
+}
@@ -0,0 +1,153 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { MailError, addressOf, buildMime } from './transport';
+import type { MailTransport } from './transport';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465). Otherwise the
+  // connection is upgraded with STARTTLS when the server offers it.
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Send credentials over a connection that stayed unencrypted (no STARTTLS
+  // offered). Off by default: a man in the middle can hide the offer.
+  allowInsecureAuth?: boolean;
+  from: string;
+};
+
+const TIMEOUT_MS = 30_000;
+
+type Reply = { code: number; text: string };
+
+function waitFor(socket: net.Socket, event: 'connect' | 'secureConnect') {
+  return new Promise<void>((resolve, reject) => {
+    socket.once(event, () => {
+      socket.off('error', reject);
+      resolve();
+    });
+    socket.once('error', reject);
+  });
+}
+
+// Reads SMTP replies off a socket. A reply is one or more "250-..." lines
+// ending with a "250 ..." line.
+function replyReader(socket: net.Socket) {
+  let buffer = '';
+  const lines: string[] = [];
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    for (let end = buffer.indexOf('\r\n'); end >= 0; end = buffer.indexOf('\r\n')) {
+      lines.push(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+    }
+    wake?.();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    wake?.();
+  };
+  const onClose = () => {
+    failure ??= new MailError('send_failed', 'SMTP server closed the connection');
+    wake?.();
+  };
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  async function nextLine() {
+    while (lines.length === 0) {
+      if (failure) throw failure;
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = null;
+    }
+    return lines.shift()!;
+  }
+
+  return {
+    async reply(): Promise<Reply> {
+      const text: string[] = [];
+      for (;;) {
+        const line = await nextLine();
+        text.push(line.slice(4));
+        if (line[3] !== '-') return { code: Number(line.slice(0, 3)), text: text.join('\n') };
+      }
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+// A minimal SMTP client: EHLO, STARTTLS, AUTH PLAIN and one message per
+// connection, which is plenty for digests and account emails
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      let socket: net.Socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new MailError('send_failed', 'SMTP server timed out')));
+
+      try {
+        await waitFor(socket, config.secure ? 'secureConnect' : 'connect');
+        let reader = replyReader(socket);
+
+        const command = async (line: string, expected: number[], shown = line) => {
+          socket.write(`${line}\r\n`);
+          const reply = await reader.reply();
+          if (!expected.includes(reply.code)) {
+            throw new MailError('send_failed', `SMTP ${shown.split(' ')[0]} failed: ${reply.code} ${reply.text}`);
+          }
+          return reply;
+        };
+
+        const greeting = await reader.reply();
+        if (greeting.code !== 220) throw new MailError('send_failed', `SMTP server refused the connection: ${greeting.text}`);
+        const hello = await command(`EHLO ${os.hostname()}`, [250]);
+
+        let encrypted = config.secure;
+        if (!config.secure && /^STARTTLS\b/im.test(hello.text)) {
+          await command('STARTTLS', [220]);
+          reader.detach();
+          const plain = socket;
+          socket = tls.connect({ socket: plain, servername: config.host });
+          socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new MailError('send_failed', 'SMTP server timed out')));
+          await waitFor(socket, 'secureConnect');
+          reader = replyReader(socket);
+          await command(`EHLO ${os.hostname()}`, [250]);
+          encrypted = true;
+        }
+
+        if (config.user) {
+          if (!encrypted && !config.allowInsecureAuth) {
+            throw new MailError('send_failed', 'SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+        }
+
+        await command(`MAIL FROM:<${addressOf(config.from)}>`, [250]);
+        await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+        await command('DATA', [354]);
+        // A line that starts with a dot gets a second one; a lone dot ends the message
+        const body = buildMime(message, config.from).replace(/^\./gm, '..');
+        await command(`${body}\r\n.`, [250], 'DATA');
+        await command('QUIT', [221]).catch(() => undefined);
+      } catch (error) {
+        if (error instanceof MailError) throw error;
+        throw new MailError('send_failed', `SMTP error: ${(error as Error).message}`);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { randomBytes } from 'node:crypto';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Extra headers, e.g. List-Unsubscribe
+  headers?: Record<string, string>;
+};
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailErrorCode = 'not_configured' | 'send_failed';
+
+export class MailError extends Error {
+  readonly code: MailErrorCode;
+
+  constructor(code: MailErrorCode, message: string) {
+    super(message);
+    this.name = 'MailError';
+    this.code = code;
+  }
+}
+
+// Header values must stay ASCII; anything else goes as an RFC 2047 word
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+// Base64 in 76-character lines, so no body line is too long or starts with a dot
+function encodeBody(content: string) {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+function part(contentType: string, content: string) {
+  return `Content-Type: ${contentType}; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${encodeBody(content)}`;
+}
+
+// The message as RFC 5322 text with CRLF line endings: plain text alone, or
+// multipart/alternative with the HTML version last (the one clients prefer)
+export function buildMime(message: MailMessage, from: string, date: Date = new Date()) {
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${encodeHeader(value)}`),
+  ];
+  if (message.html === undefined) return `${headers.join('\r\n')}\r\n${part('text/plain', message.text)}`;
+
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    part('text/plain', message.text),
+    `--${boundary}`,
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// The bare address from "Name <address>" or a plain address
+export function addressOf(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
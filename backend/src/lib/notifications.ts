@@ -0,0 +1,175 @@
+import { EventEmitter } from 'node:events';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Notification, NotificationLevel, NotificationRuleKind, Transaction } from '@prisma/client';
+import { accountBalances } from './accounts';
+import { buildBudgetLedger, monthKey, monthStart } from './budget';
+import { descendantIds, loadCategoryTree } from './categories';
+import { inBase, loadConverter } from './currency';
+import { formatMoney, loadPreferences } from './preferences';
+
+const prisma = new PrismaClient();
+
+// Every user starts with the warnings the Transactions page used to show
+export const DEFAULT_RULES: Array<{ kind: NotificationRuleKind; threshold: number }> = [
+  { kind: 'BUDGET_PERCENT', threshold: 75 },
+  { kind: 'BUDGET_PERCENT', threshold: 90 },
+  { kind: 'BUDGET_PERCENT', threshold: 100 },
+];
+
+// Open event streams listen here, one event name per user. Single-process:
+// a second server instance would not see this one's notifications.
+const stream = new EventEmitter();
+stream.setMaxListeners(0);
+
+export function subscribeNotifications(userId: string, listener: (notification: Notification) => void) {
+  stream.on(userId, listener);
+  return () => {
+    stream.off(userId, listener);
+  };
+}
+
+// Seeds DEFAULT_RULES for a user without any rules. Deleting every rule
+// therefore brings the defaults back; turning rules off keeps them off.
+export async function ensureDefaultRules(userId: string) {
+  const count = await prisma.notificationRule.count({ where: { userId } });
+  if (count > 0) return;
+  await prisma.notificationRule.createMany({
+    data: DEFAULT_RULES.map((rule) => ({ userId, kind: rule.kind, threshold: rule.threshold })),
+  });
+}
+
+type Draft = {
+  ruleId: string;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  dedupeKey: string;
+  transactionId?: string;
+};
+
+// Checks the user's active rules against their data as it is now and stores
+// a notification for each threshold crossed that has not been reported yet.
+// `transactions` are the rows just written, for per-transaction rules.
+export async function evaluateRules(userId: string, transactions: Transaction[] = [], now: Date = new Date()) {
+  await ensureDefaultRules(userId);
+  const rules = await prisma.notificationRule.findMany({
+    where: { userId, active: true },
+    include: { category: { select: { name: true } }, account: { select: { name: true, currency: true } } },
+  });
+  if (rules.length === 0) return [];
+
+  const [converter, prefs] = await Promise.all([loadConverter(userId), loadPreferences(userId)]);
+  const money = (n: number, currency?: string) => formatMoney(n, prefs, currency);
+  const month = monthKey(now);
+  const drafts: Draft[] = [];
+
+  // Only the highest threshold crossed speaks, so one large expense does not
+  // report 75%, 90% and 100% at once
+  const budgetRules = rules.filter((r) => r.kind === 'BUDGET_PERCENT').sort((a, b) => Number(b.threshold) - Number(a.threshold));
+  if (budgetRules.length > 0) {
+    const ledger = await buildBudgetLedger(userId, now, converter, prefs);
+    const current = ledger.months[ledger.months.length - 1]!;
+    const used = current.effectiveBudget > 0 ? (current.spent / current.effectiveBudget) * 100 : 0;
+    const rule = current.effectiveBudget > 0 ? budgetRules.find((r) => used >= Number(r.threshold)) : undefined;
+    if (rule) {
+      const threshold = Number(rule.threshold);
+      drafts.push({
+        ruleId: rule.id,
+        level: threshold >= 100 ? 'CRITICAL' : threshold >= 90 ? 'WARNING' : 'INFO',
+        title: threshold >= 100 ? 'Over budget' : `${Math.round(threshold)}% of budget used`,
+        message:
+          current.closingBalance < 0
+            ? `You've exceeded your ${current.label} budget by ${money(-current.closingBalance)}`
+            : `${money(current.closingBalance)} left of your ${current.label} budget (${Math.round(100 - used)}% remaining)`,
+        dedupeKey: `${rule.id}:${month}`,
+      });
+    }
+  }
+
+  const capRules = rules.filter((r) => r.kind === 'CATEGORY_CAP' && r.categoryId);
+  if (capRules.length > 0) {
+    const tree = await loadCategoryTree(userId);
+    for (const rule of capRules) {
+      const rows = await prisma.transaction.findMany({
+        where: { userId, type: 'EXPENSE', categoryId: { in: [...descendantIds(tree, rule.categoryId!)] }, date: { gte: monthStart(now), lte: now } },
+        select: { amount: true, currency: true, date: true },
+      });
+      const spent = rows.reduce((sum, tx) => sum + inBase(converter, tx), 0);
+      const cap = Number(rule.threshold);
+      if (spent < cap) continue;
+      drafts.push({
+        ruleId: rule.id,
+        level: 'WARNING',
+        title: `${rule.category?.name ?? 'Category'} cap reached`,
+        message: `${money(spent)} spent on ${rule.category?.name ?? 'this category'} this month, over your ${money(cap)} cap`,
+        dedupeKey: `${rule.id}:${month}`,
+      });
+    }
+  }
+
+  for (const rule of rules.filter((r) => r.kind === 'LARGE_TRANSACTION')) {
+    const threshold = Number(rule.threshold);
+    for (const tx of transactions) {
+      if (tx.type === 'TRANSFER' || inBase(converter, tx) < threshold) continue;
+      drafts.push({
+        ruleId: rule.id,
+        level: 'INFO',
+        title: tx.type === 'INCOME' ? 'Large income' : 'Large expense',
+        message: `${money(Number(tx.amount), tx.currency)} ${tx.type === 'INCOME' ? 'from' : 'for'} ${tx.description || tx.category}`,
+        dedupeKey: `${rule.id}:${tx.id}`,
+        transactionId: tx.id,
+      });
+    }
+  }
+
+  const balanceRules = rules.filter((r) => r.kind === 'LOW_BALANCE');
+  if (balanceRules.length > 0) {
+    const [accounts, balances] = await Promise.all([
+      prisma.account.findMany({ where: { userId, archived: false }, select: { id: true, name: true, currency: true } }),
+      accountBalances(userId),
+    ]);
+    for (const rule of balanceRules) {
+      const threshold = Number(rule.threshold);
+      for (const account of accounts.filter((a) => !rule.accountId || a.id === rule.accountId)) {
+        const balance = balances.get(account.id) ?? 0;
+        // A rule on one account compares in its currency; a rule on all accounts in the base currency
+        const compared = rule.accountId ? balance : converter.convert(balance, account.currency, now);
+        if (compared === null || compared >= threshold) continue;
+        drafts.push({
+          ruleId: rule.id,
+          level: balance < 0 ? 'CRITICAL' : 'WARNING',
+          title: `Low balance: ${account.name}`,
+          message: `${account.name} is at ${money(balance, account.currency)}, below ${money(threshold, rule.accountId ? account.currency : undefined)}`,
+          dedupeKey: `${rule.id}:${account.id}:${month}`,
+        });
+      }
+    }
+  }
+
+  if (drafts.length === 0) return [];
+  const reported = await prisma.notification.findMany({
+    where: { userId, dedupeKey: { in: drafts.map((d) => d.dedupeKey) } },
+    select: { dedupeKey: true },
+  });
+  const seen = new Set(reported.map((n) => n.dedupeKey));
+  const created: Notification[] = [];
+  for (const draft of drafts) {
+    if (seen.has(draft.dedupeKey)) continue;
+    seen.add(draft.dedupeKey);
+    try {
+      const notification = await prisma.notification.create({ data: { userId, ...draft } });
+      created.push(notification);
+      stream.emit(userId, notification);
+    } catch (error) {
+      // A concurrent write reported it first
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+    }
+  }
+  return created;
+}
+
+// For write paths: the write has already succeeded, so a failing rule is
+// logged rather than turned into an error response
+export function notifyAfterWrite(userId: string, transactions: Transaction[] = []) {
+  return evaluateRules(userId, transactions).catch((error) => console.error('Notification rule error:', error));
+}
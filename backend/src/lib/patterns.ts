@@ -0,0 +1,112 @@
+import type { TransactionType } from '@prisma/client';
+import { normaliseDescription } from './duplicates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Cadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Typical gap between occurrences and how far a single gap may stray from it
+const CADENCES: Array<{ cadence: Cadence; days: number; tolerance: number; months?: number }> = [
+  { cadence: 'weekly', days: 7, tolerance: 2 },
+  { cadence: 'biweekly', days: 14, tolerance: 3 },
+  { cadence: 'monthly', days: 30.44, tolerance: 4, months: 1 },
+  { cadence: 'quarterly', days: 91.31, tolerance: 10, months: 3 },
+  { cadence: 'yearly', days: 365.25, tolerance: 20, months: 12 },
+];
+
+export type PatternRow = {
+  id: string;
+  type: TransactionType;
+  // Already in a common currency
+  amount: number;
+  date: Date;
+  description: string | null;
+  category: string;
+};
+
+export type RecurringPattern = {
+  key: string;
+  description: string;
+  type: TransactionType;
+  category: string;
+  cadence: Cadence;
+  intervalDays: number;
+  // Median of the latest three amounts
+  amount: number;
+  occurrences: number;
+  firstDate: Date;
+  lastDate: Date;
+  nextDate: Date;
+  transactionIds: string[];
+};
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+// Calendar cadences keep the day of month (clamped: Jan 31 → Feb 28)
+export function nextPatternDate(cadence: Cadence, from: Date) {
+  const spec = CADENCES.find((c) => c.cadence === cadence)!;
+  if (!spec.months) return new Date(from.getTime() + spec.days * DAY_MS);
+  const month = from.getUTCMonth() + spec.months;
+  const lastDay = new Date(Date.UTC(from.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(from.getUTCFullYear(), month, Math.min(from.getUTCDate(), lastDay)));
+}
+
+// Groups rows by type and normalised description and keeps the groups whose
+// gaps fit one cadence: at least `minOccurrences` rows, the median gap within
+// tolerance of the cadence and at most one gap outside it (a skipped or
+// doubled month). `split` can further divide a group, e.g. by amount; each
+// part's label is appended to its key.
+export function detectPatterns(
+  rows: PatternRow[],
+  options: { minOccurrences?: number; split?: (rows: PatternRow[]) => Array<{ label: string; rows: PatternRow[] }> } = {}
+): RecurringPattern[] {
+  const minOccurrences = options.minOccurrences ?? 3;
+  const groups = new Map<string, PatternRow[]>();
+  for (const row of rows) {
+    const description = normaliseDescription(row.description);
+    if (!description) continue;
+    const key = `${row.type}|${description}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const patterns: RecurringPattern[] = [];
+  for (const [key, group] of groups) {
+    const clusters = options.split ? options.split(group) : [{ label: '', rows: group }];
+    for (const { label, rows: cluster } of clusters) {
+      if (cluster.length < minOccurrences) continue;
+      const sorted = [...cluster].sort((a, b) => a.date.getTime() - b.date.getTime());
+      const gaps = sorted.slice(1).map((row, j) => (row.date.getTime() - sorted[j]!.date.getTime()) / DAY_MS);
+      const gap = median(gaps);
+      const spec = CADENCES.find((c) => Math.abs(gap - c.days) <= c.tolerance);
+      if (!spec) continue;
+      if (gaps.filter((g) => Math.abs(g - spec.days) > spec.tolerance).length > 1) continue;
+
+      const last = sorted[sorted.length - 1]!;
+      patterns.push({
+        key: label ? `${key}|${label}` : key,
+        description: last.description ?? '',
+        type: last.type,
+        category: last.category,
+        cadence: spec.cadence,
+        intervalDays: Math.round(gap * 10) / 10,
+        amount: Math.round(median(sorted.slice(-3).map((r) => r.amount)) * 100) / 100,
+        occurrences: sorted.length,
+        firstDate: sorted[0]!.date,
+        lastDate: last.date,
+        nextDate: nextPatternDate(spec.cadence, last.date),
+        transactionIds: sorted.map((r) => r.id),
+      });
+    }
+  }
+  return patterns;
+}
+
+// Still running: the next occurrence is not overdue by more than one gap
+export function isActivePattern(pattern: RecurringPattern, now: Date) {
+  return now.getTime() - pattern.nextDate.getTime() <= pattern.intervalDays * DAY_MS;
+}
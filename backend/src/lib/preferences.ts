@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { currencySchema } from './currency';
+
+const prisma = new PrismaClient();
+
+export const DATE_FORMATS = ['locale', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+
+export type Preferences = {
+  locale: string;
+  currency: string;
+  weekStartsOn: number;
+  dateFormat: (typeof DATE_FORMATS)[number];
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  locale: 'en-US',
+  currency: 'USD',
+  weekStartsOn: 0,
+  dateFormat: 'locale',
+};
+
+// Canonicalises the tag ("en-us" → "en-US"); Intl throws on malformed ones
+const localeSchema = z
+  .string()
+  .trim()
+  .min(2)
+  .transform((s, ctx) => {
+    try {
+      return Intl.getCanonicalLocales(s)[0]!;
+    } catch {
+      ctx.addIssue({ code: 'custom', message: 'Unknown locale' });
+      return z.NEVER;
+    }
+  });
+
+export const preferencesSchema = z.object({
+  locale: localeSchema.optional(),
+  currency: currencySchema.optional(),
+  weekStartsOn: z.number().int().min(0).max(6).optional(),
+  dateFormat: z.enum(DATE_FORMATS).optional(),
+});
+
+function isDateFormat(value: string): value is Preferences['dateFormat'] {
+  return (DATE_FORMATS as readonly string[]).includes(value);
+}
+
+// Stored preferences, or the defaults for users who never saved any
+export async function loadPreferences(userId: string): Promise<Preferences> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true, preferences: true },
+  });
+  const stored = user?.preferences;
+  return {
+    locale: stored?.locale ?? DEFAULT_PREFERENCES.locale,
+    currency: user?.baseCurrency ?? DEFAULT_PREFERENCES.currency,
+    weekStartsOn: stored?.weekStartsOn ?? DEFAULT_PREFERENCES.weekStartsOn,
+    dateFormat: stored && isDateFormat(stored.dateFormat) ? stored.dateFormat : DEFAULT_PREFERENCES.dateFormat,
+  };
+}
+
+export function formatMoney(amount: number, prefs: Preferences, currency = prefs.currency) {
+  return new Intl.NumberFormat(prefs.locale, { style: 'currency', currency }).format(amount);
+}
+
+export function formatDate(date: Date, prefs: Preferences) {
+  if (prefs.dateFormat === 'locale') return date.toLocaleDateString(prefs.locale);
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    DD: String(date.getDate()).padStart(2, '0'),
+  };
+  return prefs.dateFormat.replace(/YYYY|MM|DD/g, (token) => parts[token]!);
+}
+
+// "January 2025", in the user's language
+export function formatMonth(date: Date, prefs: Preferences) {
+  return date.toLocaleString(prefs.locale, { month: 'long', year: 'numeric' });
+}
@@ -0,0 +1,168 @@
+import { PrismaClient } from '@prisma/client';
+import type { RecurrenceFrequency, RecurringRule, Transaction } from '@prisma/client';
+import { categoriseRows, formatTags } from './categoryRules';
+import { linkCategories } from './categories';
+import { notifyAfterWrite } from './notifications';
+
+const prisma = new PrismaClient();
+
+type Schedule = Pick<RecurringRule, 'startDate' | 'frequency' | 'interval' | 'endDate'>;
+
+// Occurrence n of a schedule. Monthly and yearly occurrences keep the start
+// date's day of month, clamped for shorter months (Jan 31 → Feb 28 → Mar 31).
+export function occurrenceAt(start: Date, frequency: RecurrenceFrequency, interval: number, n: number) {
+  const step = n * interval;
+  const h = start.getHours();
+  const mi = start.getMinutes();
+  const s = start.getSeconds();
+  switch (frequency) {
+    case 'DAILY':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step, h, mi, s);
+    case 'WEEKLY':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7, h, mi, s);
+    case 'MONTHLY': {
+      const month = start.getMonth() + step;
+      const lastDay = new Date(start.getFullYear(), month + 1, 0).getDate();
+      return new Date(start.getFullYear(), month, Math.min(start.getDate(), lastDay), h, mi, s);
+    }
+    case 'YEARLY': {
+      const year = start.getFullYear() + step;
+      const lastDay = new Date(year, start.getMonth() + 1, 0).getDate();
+      return new Date(year, start.getMonth(), Math.min(start.getDate(), lastDay), h, mi, s);
+    }
+  }
+}
+
+// A step count whose occurrence falls on or before `after`: the whole steps
+// between the two less one, which covers DST shifts and clamped month ends
+function stepsBefore(start: Date, frequency: RecurrenceFrequency, interval: number, after: Date) {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let units: number;
+  switch (frequency) {
+    case 'DAILY':
+      units = (after.getTime() - start.getTime()) / DAY_MS;
+      break;
+    case 'WEEKLY':
+      units = (after.getTime() - start.getTime()) / (7 * DAY_MS);
+      break;
+    case 'MONTHLY':
+      units = (after.getFullYear() - start.getFullYear()) * 12 + after.getMonth() - start.getMonth();
+      break;
+    case 'YEARLY':
+      units = after.getFullYear() - start.getFullYear();
+      break;
+  }
+  return Math.max(0, Math.floor(units / interval) - 1);
+}
+
+// The search starts a step or two short, so this is only a backstop
+const MAX_STEPS = 1000;
+
+// First occurrence strictly after `after` (or the first one at all when
+// `after` is null), or null once the schedule has passed its end date.
+// Invalid dates give null rather than an endless search.
+export function nextOccurrence(schedule: Schedule, after: Date | null): Date | null {
+  if (Number.isNaN(schedule.startDate.getTime()) || (after && Number.isNaN(after.getTime()))) return null;
+  const first = after ? stepsBefore(schedule.startDate, schedule.frequency, schedule.interval, after) : 0;
+  for (let n = first; n < first + MAX_STEPS; n++) {
+    const d = occurrenceAt(schedule.startDate, schedule.frequency, schedule.interval, n);
+    if (schedule.endDate && d > schedule.endDate) return null;
+    if (!after || d > after) return d;
+  }
+  return null;
+}
+
+// Number of occurrences on or before `date`, ignoring the end date
+function occurrencesUpTo(schedule: Schedule, date: Date) {
+  let n = stepsBefore(schedule.startDate, schedule.frequency, schedule.interval, date);
+  while (occurrenceAt(schedule.startDate, schedule.frequency, schedule.interval, n) <= date) n++;
+  return n;
+}
+
+// Occurrences from `due` up to `now` (or the end date) not yet materialised
+function pendingOccurrences(schedule: Schedule, due: Date | null, now: Date) {
+  if (!due || due > now) return 0;
+  const until = schedule.endDate && schedule.endDate < now ? schedule.endDate : now;
+  return occurrencesUpTo(schedule, until) - occurrencesUpTo(schedule, due) + 1;
+}
+
+// Occurrences written per rule per run. A start date far in the past is
+// caught up over several scheduler runs instead of inside one request.
+const MAX_OCCURRENCES_PER_RUN = 500;
+
+// Creates a Transaction for every occurrence of the rule that is due by
+// `now`, up to MAX_OCCURRENCES_PER_RUN; `pending` counts the ones left for the
+// scheduler. Safe to run repeatedly: rows are unique per (rule, date).
+export async function materialiseRule(rule: RecurringRule, now: Date = new Date()) {
+  let due = rule.nextRunAt;
+  const created: Transaction[] = [];
+  let tags: string | null | undefined;
+  let category: { category: string; categoryId: string | null } | undefined;
+  for (let run = 0; due && due <= now && run < MAX_OCCURRENCES_PER_RUN; run++) {
+    const existing = await prisma.transaction.findUnique({
+      where: { recurringRuleId_date: { recurringRuleId: rule.id, date: due } },
+    });
+    if (!existing) {
+      // The rule's own category always wins; category rules only add tags
+      if (tags === undefined) {
+        const [row] = await categoriseRows(
+          rule.userId,
+          [{ description: rule.description, amount: Number(rule.amount), type: rule.type, category: rule.category }],
+          { keepCategory: () => true }
+        );
+        tags = formatTags(row?.tags);
+        [category] = await linkCategories(rule.userId, [{ category: rule.category, type: rule.type }]);
+      }
+      const tx = await prisma.transaction.create({
+        data: {
+          userId: rule.userId,
+          type: rule.type,
+          amount: rule.amount,
+          currency: rule.currency,
+          category: category!.category,
+          categoryId: category!.categoryId,
+          description: rule.description,
+          date: due,
+          recurringRuleId: rule.id,
+          accountId: rule.accountId,
+          transferAccountId: rule.transferAccountId,
+          tags,
+        },
+      });
+      created.push(tx);
+    }
+    due = nextOccurrence(rule, due);
+  }
+  await prisma.recurringRule.update({ where: { id: rule.id }, data: { nextRunAt: due } });
+  if (created.length > 0) await notifyAfterWrite(rule.userId, created);
+  return { created: created.length, pending: pendingOccurrences(rule, due, now) };
+}
+
+export async function materialiseDueRules(now: Date = new Date(), userId?: string) {
+  const rules = await prisma.recurringRule.findMany({
+    where: { active: true, nextRunAt: { lte: now }, ...(userId && { userId }) },
+  });
+  let created = 0;
+  let pending = 0;
+  for (const rule of rules) {
+    const result = await materialiseRule(rule, now);
+    created += result.created;
+    pending += result.pending;
+  }
+  return { created, pending };
+}
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Runs the materialiser once at startup and then hourly
+export function startRecurringScheduler() {
+  const run = () =>
+    materialiseDueRules()
+      .then(({ created, pending }) => {
+        if (created > 0) console.log(`🔁 Materialised ${created} recurring transaction(s)`);
+        if (pending > 0) console.log(`🔁 ${pending} recurring transaction(s) left for the next run`);
+      })
+      .catch((error) => console.error('Recurring materialiser error:', error));
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
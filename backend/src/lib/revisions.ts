@@ -0,0 +1,20 @@
+import type { Prisma, TransactionType } from '@prisma/client';
+
+// Snapshot of the editable fields, stored as JSON on each revision
+export function snapshot(tx: {
+  type: TransactionType;
+  amount: Prisma.Decimal;
+  currency: string;
+  category: string;
+  description: string | null;
+  date: Date;
+}) {
+  return JSON.stringify({
+    type: tx.type,
+    amount: tx.amount.toString(),
+    currency: tx.currency,
+    category: tx.category,
+    description: tx.description,
+    date: tx.date.toISOString(),
+  });
+}
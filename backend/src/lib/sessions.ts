@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Access tokens are checked by signature alone, so a revoked session keeps
+// working until its access token runs out; keep that window short
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_DAYS = 30;
+// Two tabs refreshing at once send the same token; the loser is turned away
+// without the session being treated as stolen
+const ROTATION_GRACE_MS = 30_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ClientInfo = { userAgent?: string | undefined; ip?: string | undefined };
+
+export type TokenPair = { token: string; refreshToken: string };
+
+export function jwtSecret() {
+  return process.env.JWT_SECRET || 'dev_secret_change_me';
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => randomBytes(32).toString('base64url');
+
+function signAccessToken(userId: string, sessionId: string) {
+  return jwt.sign({ sub: userId, sid: sessionId }, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+// The user and session an access token was issued for. Tokens from before
+// sessions existed carry no session and are refused.
+export function verifyAccessToken(token: string) {
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as { sub?: string; sid?: string };
+    return payload.sub && payload.sid ? { userId: payload.sub, sessionId: payload.sid } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Signs a user in on a new device
+export async function createSession(userId: string, client: ClientInfo): Promise<TokenPair> {
+  const refreshToken = newRefreshToken();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent?.slice(0, 500) ?? null,
+      ip: client.ip ?? null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_DAYS * DAY_MS),
+    },
+  });
+  return { token: signAccessToken(userId, session.id), refreshToken };
+}
+
+// Exchanges a refresh token for a new pair. The old token stops working. If
+// it is presented again after the grace period, someone else holds a copy,
+// so the whole session is revoked.
+export async function rotateSession(refreshToken: string, client: ClientInfo, now: Date = new Date()): Promise<TokenPair | null> {
+  const hash = hashToken(refreshToken);
+  const session = await prisma.session.findFirst({
+    where: { OR: [{ refreshTokenHash: hash }, { previousTokenHash: hash }] },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= now) return null;
+
+  if (session.previousTokenHash === hash) {
+    if (now.getTime() - session.lastUsedAt.getTime() > ROTATION_GRACE_MS) {
+      await prisma.session.update({ where: { id: session.id }, data: { revokedAt: now } });
+    }
+    return null;
+  }
+
+  const next = newRefreshToken();
+  // Conditional on the token still being current, so only one of two
+  // simultaneous refreshes wins
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(next),
+      previousTokenHash: hash,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_DAYS * DAY_MS),
+      ...(client.userAgent && { userAgent: client.userAgent.slice(0, 500) }),
+      ...(client.ip && { ip: client.ip }),
+    },
+  });
+  if (count === 0) return null;
+  return { token: signAccessToken(session.userId, session.id), refreshToken: next };
+}
+
+// Signs out the device holding the refresh token. Returns false for an
+// unknown token.
+export async function revokeByRefreshToken(refreshToken: string, now: Date = new Date()) {
+  const { count } = await prisma.session.updateMany({
+    where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: now },
+  });
+  return count > 0;
+}
+
+// Sessions that can still refresh, most recently used first
+export async function activeSessions(userId: string, now: Date = new Date()) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: now } },
+    select: { id: true, userAgent: true, ip: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
@@ -0,0 +1,291 @@
+import { z } from 'zod';
+import type { TransactionType } from '@prisma/client';
+
+export type StatementRow = {
+  date: Date;
+  description: string;
+  category: string;
+  amount: number;
+  type: TransactionType;
+  externalId?: string;
+};
+
+// What happened to one source line (or OFX transaction), shown while reviewing an import
+export type LineDiagnostic = {
+  line: number;
+  text: string;
+  status: 'parsed' | 'skipped' | 'error';
+  message?: string;
+};
+
+export type StatementParseResult = {
+  parsed: StatementRow[];
+  errors: string[];
+  diagnostics: LineDiagnostic[];
+  totalLines: number;
+};
+
+export type StatementFormat = 'pdf' | 'csv' | 'ofx';
+
+export function detectStatementFormat(file: { mimetype: string; originalname: string }): StatementFormat | null {
+  const name = file.originalname.toLowerCase();
+  if (file.mimetype === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.mimetype === 'text/csv' || name.endsWith('.csv')) return 'csv';
+  if (/\.(ofx|qfx)$/.test(name) || /ofx|qfx/.test(file.mimetype)) return 'ofx';
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+// Columns are referenced by header name. Either `amount` (signed, negative =
+// expense) or `debit`/`credit` must be mapped.
+export const csvMappingSchema = z
+  .object({
+    date: z.string().min(1),
+    description: z.string().min(1),
+    amount: z.string().min(1).optional(),
+    debit: z.string().min(1).optional(),
+    credit: z.string().min(1).optional(),
+    category: z.string().min(1).optional(),
+    type: z.string().min(1).optional(),
+    dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('YYYY-MM-DD'),
+  })
+  .refine((m) => m.amount || m.debit || m.credit, { message: 'Map an amount column or debit/credit columns' });
+
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+
+function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  for (const d of candidates) {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// RFC 4180-style parsing: quoted fields may contain delimiters, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(Boolean)) rows.push(row);
+  return rows;
+}
+
+// Best-effort guess of which header holds which field, used to pre-fill the mapping step
+export function suggestCsvMapping(headers: string[]): Partial<CsvMapping> {
+  const find = (...patterns: RegExp[]) => headers.find((h) => patterns.some((p) => p.test(h)));
+  const suggestion: Partial<CsvMapping> = {};
+  const date = find(/date/i, /posted/i);
+  const description = find(/desc/i, /narrat/i, /payee/i, /memo/i, /details/i, /name/i);
+  const amount = find(/^amount$/i, /amount/i, /value/i);
+  const debit = find(/debit/i, /withdraw/i, /paid out/i);
+  const credit = find(/credit/i, /deposit/i, /paid in/i);
+  const category = find(/categ/i);
+  if (date) suggestion.date = date;
+  if (description) suggestion.description = description;
+  if (debit && credit) {
+    suggestion.debit = debit;
+    suggestion.credit = credit;
+  } else if (amount) {
+    suggestion.amount = amount;
+  }
+  if (category) suggestion.category = category;
+  return suggestion;
+}
+
+function parseAmount(raw: string | undefined) {
+  if (!raw) return NaN;
+  let s = raw.trim();
+  // (12.50) is a common accounting notation for negatives
+  const negative = /^\(.*\)$/.test(s) || s.startsWith('-') || s.endsWith('-');
+  s = s.replace(/[^0-9.,]/g, '');
+  // 1.234,56 → 1234.56 ; 1,234.56 → 1234.56
+  if (/,\d{1,2}$/.test(s)) s = s.replace(/\./g, '').replace(',', '.');
+  else s = s.replace(/,/g, '');
+  const n = parseFloat(s);
+  return negative ? -n : n;
+}
+
+function parseCsvDate(raw: string | undefined, format: CsvMapping['dateFormat']) {
+  if (!raw) return new Date(NaN);
+  const parts = raw.trim().split(/[-/.\s]/).map((p) => parseInt(p, 10));
+  const [a, b, c] = parts;
+  if (a === undefined || b === undefined || c === undefined) return new Date(raw);
+  if (format === 'MM/DD/YYYY') return new Date(c < 100 ? 2000 + c : c, a - 1, b);
+  if (format === 'DD/MM/YYYY') return new Date(c < 100 ? 2000 + c : c, b - 1, a);
+  return new Date(a, b - 1, c);
+}
+
+export function parseCsvStatement(text: string, mapping: CsvMapping): StatementParseResult {
+  const rows = parseCsv(text);
+  const [headers, ...body] = rows;
+  const parsed: StatementRow[] = [];
+  const errors: string[] = [];
+  const diagnostics: LineDiagnostic[] = [];
+  if (!headers) return { parsed, errors: ['File is empty'], diagnostics, totalLines: 0 };
+
+  const col = (name: string | undefined) => (name ? headers.indexOf(name) : -1);
+  const missing = [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit, mapping.category, mapping.type]
+    .filter((name): name is string => !!name && col(name) === -1);
+  if (missing.length > 0) {
+    return { parsed, errors: [`Columns not found in file: ${missing.join(', ')}`], diagnostics, totalLines: body.length };
+  }
+
+  body.forEach((cells, i) => {
+    const line = i + 2; // 1-based, after the header row
+    const text = cells.join(', ');
+    const fail = (message: string) => {
+      errors.push(`Line ${line}: ${message}`);
+      diagnostics.push({ line, text, status: 'error', message });
+    };
+    const get = (name: string | undefined) => {
+      const idx = col(name);
+      return idx >= 0 ? cells[idx] : undefined;
+    };
+
+    const date = parseCsvDate(get(mapping.date), mapping.dateFormat);
+    if (isNaN(date.getTime())) {
+      fail('Invalid date format');
+      return;
+    }
+
+    let amount: number;
+    let type: TransactionType;
+    if (mapping.amount) {
+      amount = parseAmount(get(mapping.amount));
+      type = amount < 0 ? 'EXPENSE' : 'INCOME';
+    } else {
+      const debit = parseAmount(get(mapping.debit));
+      const credit = parseAmount(get(mapping.credit));
+      if (!isNaN(debit) && debit !== 0) {
+        amount = debit;
+        type = 'EXPENSE';
+      } else {
+        amount = credit;
+        type = 'INCOME';
+      }
+    }
+    if (isNaN(amount) || amount === 0) {
+      fail('Invalid amount');
+      return;
+    }
+
+    const explicitType = get(mapping.type)?.toUpperCase();
+    if (explicitType === 'INCOME' || explicitType === 'CREDIT' || explicitType === 'CR') type = 'INCOME';
+    else if (explicitType === 'EXPENSE' || explicitType === 'DEBIT' || explicitType === 'DR') type = 'EXPENSE';
+
+    parsed.push({
+      date,
+      description: get(mapping.description) || 'Unknown',
+      category: get(mapping.category) || 'Uncategorized',
+      amount: Math.abs(amount),
+      type,
+    });
+    diagnostics.push({ line, text, status: 'parsed' });
+  });
+
+  return { parsed, errors, diagnostics, totalLines: body.length };
+}
+
+// ---------------------------------------------------------------------------
+// OFX / QFX
+
+// OFX dates look like 20240115, 20240115120000 or 20240115120000.000[-5:EST]
+function parseOfxDate(raw: string) {
+  const m = raw.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!m) return new Date(NaN);
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] ?? 12), Number(m[5] ?? 0), Number(m[6] ?? 0));
+}
+
+// Values of simple elements inside a block. Handles both OFX 1.x SGML
+// (unclosed <TAG>value) and OFX 2.x XML (<TAG>value</TAG>).
+function ofxFields(block: string) {
+  const fields: Record<string, string> = {};
+  for (const m of block.matchAll(/<([A-Z0-9.]+)>([^<\r\n]*)/gi)) {
+    const value = m[2]!.trim();
+    if (value) fields[m[1]!.toUpperCase()] = value;
+  }
+  return fields;
+}
+
+export function parseOfxStatement(text: string): StatementParseResult {
+  const parsed: StatementRow[] = [];
+  const errors: string[] = [];
+  const diagnostics: LineDiagnostic[] = [];
+
+  // FITIDs are only unique within an account, so prefix them with it
+  const account = text.match(/<ACCTID>([^<\r\n]+)/i)?.[1]?.trim() ?? '';
+  const blocks = [...text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)].map((m) => m[1]!);
+
+  blocks.forEach((block, i) => {
+    const f = ofxFields(block);
+    const label = `Transaction ${i + 1}${f.FITID ? ` (${f.FITID})` : ''}`;
+    const text = [f.DTPOSTED, f.NAME || f.MEMO, f.TRNAMT].filter(Boolean).join(' ');
+    const fail = (message: string) => {
+      errors.push(`${label}: ${message}`);
+      diagnostics.push({ line: i + 1, text, status: 'error', message });
+    };
+
+    const date = parseOfxDate(f.DTPOSTED ?? '');
+    if (isNaN(date.getTime())) {
+      fail('Invalid date format');
+      return;
+    }
+    const amount = parseFloat(f.TRNAMT ?? '');
+    if (isNaN(amount) || amount === 0) {
+      fail('Invalid amount');
+      return;
+    }
+
+    const row: StatementRow = {
+      date,
+      description: f.NAME || f.MEMO || f.TRNTYPE || 'Unknown',
+      category: 'Uncategorized',
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'EXPENSE' : 'INCOME',
+    };
+    if (f.FITID) row.externalId = `ofx:${account}:${f.FITID}`;
+    parsed.push(row);
+    diagnostics.push({ line: i + 1, text, status: 'parsed' });
+  });
+
+  return { parsed, errors, diagnostics, totalLines: blocks.length };
+}
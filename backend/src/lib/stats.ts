@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { loadCategoryTree, rollupTotals } from './categories';
+import type { Rollup } from './categories';
+import { addMoney, emptyMoney, inBase, roundMoney } from './currency';
+import type { Converter } from './currency';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Expense totals per category, in the base currency, at the requested roll-up level
+export async function expenseByCategory(userId: string, where: Prisma.TransactionWhereInput, rollup: Rollup, converter: Converter) {
+  const [rows, tree] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { ...where, type: 'EXPENSE' },
+      select: { categoryId: true, category: true, amount: true, currency: true, date: true },
+    }),
+    loadCategoryTree(userId),
+  ]);
+  return rollupTotals(
+    tree,
+    rows.map((tx) => ({ categoryId: tx.categoryId, category: tx.category, amount: inBase(converter, tx) })),
+    rollup
+  );
+}
+
+// Income, spending and savings for the transactions matching `where`, in the
+// base currency. Average daily spending runs from the first to the last
+// transaction rather than over the whole range asked for.
+export async function buildStats(userId: string, where: Prisma.TransactionWhereInput, rollup: Rollup, converter: Converter) {
+  const [transactions, biggestCategory] = await Promise.all([
+    // Income and expenses in selected range, in date order for the date span
+    prisma.transaction.findMany({
+      where: { ...where, type: { not: 'TRANSFER' } },
+      select: { type: true, amount: true, currency: true, date: true },
+      orderBy: { date: 'asc' },
+    }),
+    expenseByCategory(userId, where, rollup, converter),
+  ]);
+
+  const totalIncome = emptyMoney();
+  const totalExpense = emptyMoney();
+  for (const tx of transactions) {
+    if (tx.type === 'INCOME') addMoney(totalIncome, converter, tx);
+    else if (tx.type === 'EXPENSE') addMoney(totalExpense, converter, tx);
+  }
+  const income = totalIncome.amount;
+  const expense = totalExpense.amount;
+  const savings = income - expense;
+  const savingsRate = income > 0 ? (savings / income) * 100 : 0;
+
+  let avgDailySpending = 0;
+  const first = transactions[0];
+  const last = transactions[transactions.length - 1];
+  if (first && last && expense > 0) {
+    const daysDiff = Math.ceil((last.date.getTime() - first.date.getTime()) / DAY_MS) + 1;
+    avgDailySpending = expense / Math.max(daysDiff, 1);
+  }
+
+  return {
+    transactionCount: transactions.length,
+    totalIncome: round2(income),
+    totalExpense: round2(expense),
+    netSavings: round2(savings),
+    savingsRate: round2(savingsRate),
+    biggestExpenseCategory: biggestCategory[0]?.category || 'N/A',
+    averageDailySpending: round2(avgDailySpending),
+    // Income and expense totals in the currencies they were entered in
+    byCurrency: { income: roundMoney(totalIncome).original, expense: roundMoney(totalExpense).original },
+  };
+}
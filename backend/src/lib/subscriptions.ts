@@ -0,0 +1,218 @@
+import { PrismaClient } from '@prisma/client';
+import type { RecurrenceFrequency, SubscriptionDecision, SubscriptionStatus } from '@prisma/client';
+import { inBase } from './currency';
+import type { Converter } from './currency';
+import { normaliseDescription } from './duplicates';
+import { detectPatterns, isActivePattern, nextPatternDate } from './patterns';
+import type { Cadence, PatternRow, RecurringPattern } from './patterns';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Long enough to see a yearly charge three times
+const HISTORY_DAYS = 3 * 366;
+// Neighbouring amounts further apart than this are separate subscriptions
+// billed under one name (iCloud and Apple Music both show as APPLE.COM/BILL),
+// unless one band follows the other in time
+const AMOUNT_SPREAD = 0.25;
+
+const PER_YEAR: Record<Cadence, number> = { weekly: 52, biweekly: 26, monthly: 12, quarterly: 4, yearly: 1 };
+
+// The recurring rule schedule equivalent to each cadence
+export const CADENCE_SCHEDULE: Record<Cadence, { frequency: RecurrenceFrequency; interval: number }> = {
+  weekly: { frequency: 'WEEKLY', interval: 1 },
+  biweekly: { frequency: 'WEEKLY', interval: 2 },
+  monthly: { frequency: 'MONTHLY', interval: 1 },
+  quarterly: { frequency: 'MONTHLY', interval: 3 },
+  yearly: { frequency: 'YEARLY', interval: 1 },
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Splits one merchant's charges into amount bands. A band that only starts
+// after another has stopped is the same subscription at a new price, however
+// large the rise, so it joins that band rather than standing alone.
+export function splitByAmount(rows: PatternRow[]) {
+  const bands: PatternRow[][] = [];
+  for (const row of [...rows].sort((a, b) => a.amount - b.amount)) {
+    const band = bands[bands.length - 1];
+    const previous = band?.[band.length - 1];
+    if (band && previous && row.amount <= previous.amount * (1 + AMOUNT_SPREAD)) band.push(row);
+    else bands.push([row]);
+  }
+
+  const first = (band: PatternRow[]) => Math.min(...band.map((r) => r.date.getTime()));
+  const last = (band: PatternRow[]) => Math.max(...band.map((r) => r.date.getTime()));
+  const chains: PatternRow[][] = [];
+  for (const band of bands.sort((a, b) => first(a) - first(b))) {
+    const before = chains.filter((chain) => last(chain) < first(band)).sort((a, b) => last(b) - last(a))[0];
+    if (before) before.push(...band);
+    else chains.push(band);
+  }
+  return chains.map((rows, i) => ({ label: String(i), rows }));
+}
+
+// Decisions are stored by key, so a key has to survive new charges, old ones
+// leaving the window and exchange-rate moves. It is the merchant and cadence
+// ("EXPENSE|netflix|monthly"), with "-2", "-3"… when the merchant bills
+// several subscriptions at that cadence. Those are told apart by amount: each
+// stored decision goes to the band whose latest charge is nearest the amount
+// it was made for, and the band takes its key.
+function assignKeys(patterns: RecurringPattern[], latestAmount: (p: RecurringPattern) => number, decisions: SubscriptionDecision[]) {
+  const keys = new Map<RecurringPattern, string>();
+  const taken = new Set(decisions.map((d) => d.key));
+  const claimed = new Set<string>();
+  const groups = new Map<string, RecurringPattern[]>();
+  for (const pattern of patterns) {
+    const base = `${pattern.type}|${normaliseDescription(pattern.description)}|${pattern.cadence}`;
+    groups.set(base, [...(groups.get(base) ?? []), pattern]);
+  }
+
+  for (const [base, bands] of groups) {
+    const candidates = decisions
+      .filter((d) => d.key === base || d.key.startsWith(`${base}-`))
+      .map((d) => ({ key: d.key, amount: d.amount !== null ? Number(d.amount) : null }));
+    const pairs = bands
+      .flatMap((band) =>
+        candidates.map((c) => ({
+          band,
+          key: c.key,
+          distance: c.amount && latestAmount(band) > 0 ? Math.abs(Math.log(latestAmount(band) / c.amount)) : 0,
+        }))
+      )
+      .sort((a, b) => a.distance - b.distance);
+    for (const pair of pairs) {
+      if (keys.has(pair.band) || claimed.has(pair.key)) continue;
+      keys.set(pair.band, pair.key);
+      claimed.add(pair.key);
+    }
+    for (const band of bands) {
+      if (keys.has(band)) continue;
+      let key = base;
+      for (let n = 2; taken.has(key) || claimed.has(key); n++) key = `${base}-${n}`;
+      keys.set(band, key);
+      claimed.add(key);
+    }
+  }
+  return keys;
+}
+
+type Charge = { id: string; amount: number; currency: string; date: Date; accountId: string | null };
+
+// The latest price change within the last year: the charge amount before it
+// and the date the new amount was first charged. Only compared within one
+// currency, so exchange-rate moves never read as price changes.
+export function latestPriceChange(charges: Charge[], now: Date) {
+  const latest = charges[charges.length - 1];
+  if (!latest) return null;
+  for (let i = charges.length - 2; i >= 0; i--) {
+    const charge = charges[i]!;
+    if (charge.currency !== latest.currency) return null;
+    if (round2(charge.amount) === round2(latest.amount)) continue;
+    const since = charges[i + 1]!.date;
+    if (now.getTime() - since.getTime() > 365 * DAY_MS) return null;
+    return { previousAmount: charge.amount, since };
+  }
+  return null;
+}
+
+export type Subscription = {
+  key: string;
+  description: string;
+  category: string;
+  cadence: Cadence;
+  // Latest charge, in its own currency
+  amount: number;
+  currency: string;
+  accountId: string | null;
+  // Latest charge over a year, in the base currency
+  annualCost: number;
+  previousAmount: number | null;
+  priceIncreased: boolean;
+  priceChangedAt: Date | null;
+  occurrences: number;
+  firstDate: Date;
+  lastDate: Date;
+  nextDate: Date;
+  active: boolean;
+  status: SubscriptionStatus | 'CANDIDATE';
+  recurringRuleId: string | null;
+};
+
+// Finds repeating expenses in the user's history: same normalised description,
+// a similar amount and a weekly to yearly rhythm. Charges already generated by
+// a recurring rule are left out; a rule with the same description marks the
+// subscription as tracked instead. Lapsed subscriptions are only kept once the
+// user has confirmed or ignored them.
+export async function loadSubscriptions(userId: string, converter: Converter, now: Date = new Date()) {
+  const [history, rules, decisions] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { userId, type: 'EXPENSE', recurringRuleId: null, date: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS), lte: now } },
+      select: { id: true, type: true, amount: true, currency: true, date: true, description: true, category: true, accountId: true },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.recurringRule.findMany({ where: { userId, type: 'EXPENSE' }, select: { id: true, description: true, active: true, nextRunAt: true } }),
+    prisma.subscriptionDecision.findMany({ where: { userId } }),
+  ]);
+
+  const charges = new Map<string, Charge>(
+    history.map((tx) => [tx.id, { id: tx.id, amount: Number(tx.amount), currency: tx.currency, date: tx.date, accountId: tx.accountId }])
+  );
+  const rows = history.map((tx) => ({ id: tx.id, type: tx.type, amount: inBase(converter, tx), date: tx.date, description: tx.description, category: tx.category }));
+  const rulesById = new Map(rules.map((r) => [r.id, r]));
+  const ruleByDescription = new Map(rules.filter((r) => r.active).map((r) => [normaliseDescription(r.description), r]));
+  const decisionByKey = new Map(decisions.map((d) => [d.key, d]));
+
+  // Two yearly charges are enough to go on; shorter cadences need a third
+  const patterns = detectPatterns(rows, { minOccurrences: 2, split: splitByAmount }).filter(
+    (p) => p.occurrences >= 3 || p.cadence === 'yearly'
+  );
+  const keys = assignKeys(patterns, (p) => charges.get(p.transactionIds[p.transactionIds.length - 1]!)!.amount, decisions);
+
+  const subscriptions: Subscription[] = [];
+  for (const pattern of patterns) {
+    const key = keys.get(pattern)!;
+    const decision = decisionByKey.get(key);
+    const rule =
+      (decision?.recurringRuleId ? rulesById.get(decision.recurringRuleId) : undefined) ??
+      ruleByDescription.get(normaliseDescription(pattern.description));
+    const active = rule ? rule.active && rule.nextRunAt !== null : isActivePattern(pattern, now);
+    if (!active && !decision) continue;
+
+    const billed = pattern.transactionIds.map((id) => charges.get(id)!);
+    const latest = billed[billed.length - 1]!;
+    const change = latestPriceChange(billed, now);
+    subscriptions.push({
+      key,
+      description: pattern.description,
+      category: pattern.category,
+      cadence: pattern.cadence,
+      amount: latest.amount,
+      currency: latest.currency,
+      accountId: latest.accountId,
+      annualCost: round2((converter.convert(latest.amount, latest.currency, now) ?? 0) * PER_YEAR[pattern.cadence]),
+      previousAmount: change?.previousAmount ?? null,
+      priceIncreased: !!change && latest.amount > change.previousAmount,
+      priceChangedAt: change?.since ?? null,
+      occurrences: pattern.occurrences,
+      firstDate: pattern.firstDate,
+      lastDate: pattern.lastDate,
+      // Once a rule tracks it, its charges come from the rule's schedule
+      nextDate: rule?.nextRunAt ?? pattern.nextDate,
+      active,
+      status: decision?.status ?? 'CANDIDATE',
+      recurringRuleId: rule?.id ?? null,
+    });
+  }
+  return subscriptions.sort((a, b) => b.annualCost - a.annualCost);
+}
+
+// First expected charge after today, where a rule tracking the subscription
+// starts. A charge due today or running late is left to arrive with the next
+// import instead of being generated twice.
+export function upcomingChargeDate(subscription: Pick<Subscription, 'cadence' | 'nextDate'>, now: Date) {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  let date = subscription.nextDate;
+  while (date <= today) date = nextPatternDate(subscription.cadence, date);
+  return date;
+}
@@ -1,23 +1,30 @@
 import type { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { verifyAccessToken } from '../lib/sessions';
 
 export interface AuthRequest extends Request {
   userId?: string;
+  // The signed-in device, for marking "this device" in the session list
+  sessionId?: string;
+}
+
+function authenticate(req: AuthRequest, res: Response, next: NextFunction, token: string) {
+  const claims = verifyAccessToken(token);
+  if (!claims) return res.status(401).json({ error: 'Unauthorized' });
+  req.userId = claims.userId;
+  req.sessionId = claims.sessionId;
+  next();
 }
 
 export function requireAuth(req: AuthRequest, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header?.startsWith('Bearer ')) return res.status(401).json({ error: 'Unauthorized' });
-  const token = header.slice('Bearer '.length);
-  try {
-    const secret = process.env.JWT_SECRET || 'dev_secret_change_me';
-    const payload = jwt.verify(token, secret) as { sub?: string };
-    if (!payload.sub) return res.status(401).json({ error: 'Unauthorized' });
-    req.userId = payload.sub;
-    next();
-  } catch {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
+  return authenticate(req, res, next, header.slice('Bearer '.length));
 }
 
-
+// For event streams: EventSource cannot set headers, so the token may come
+// as ?access_token= instead
+export function requireStreamAuth(req: AuthRequest, res: Response, next: NextFunction) {
+  const token = req.query.access_token;
+  if (typeof token !== 'string') return requireAuth(req, res, next);
+  return authenticate(req, res, next, token);
+}
@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma, AccountKind } from '@prisma/client';
+import type { Account } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { accountBalances, accountFilter, runningBalances } from '../lib/accounts';
+import { parseTags } from '../lib/categoryRules';
+import { currencySchema, defaultCurrency } from '../lib/currency';
+import { notifyAfterWrite } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const createSchema = z.object({
+  name: z.string().trim().min(1),
+  kind: z.nativeEnum(AccountKind),
+  // Defaults to the user's base currency
+  currency: currencySchema.optional(),
+  openingBalance: z.number().default(0),
+});
+
+// Written out rather than createSchema.partial(): partial() keeps the
+// defaults, which would reset the opening balance on every update
+const updateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  kind: z.nativeEnum(AccountKind).optional(),
+  currency: currencySchema.optional(),
+  openingBalance: z.number().optional(),
+  archived: z.boolean().optional(),
+});
+
+const ledgerQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+function serialize(account: Account, balance?: number) {
+  return {
+    ...account,
+    openingBalance: Number(account.openingBalance),
+    balance: Math.round((balance ?? Number(account.openingBalance)) * 100) / 100,
+  };
+}
+
+function isDuplicateName(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const includeArchived = req.query.includeArchived === 'true';
+  const [accounts, balances] = await Promise.all([
+    prisma.account.findMany({
+      where: { userId: req.userId!, ...(!includeArchived && { archived: false }) },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { transactions: true, transfersIn: true } } },
+    }),
+    accountBalances(req.userId!),
+  ]);
+  res.json({
+    items: accounts.map(({ _count, ...a }) => ({
+      ...serialize(a, balances.get(a.id)),
+      transactionCount: _count.transactions + _count.transfersIn,
+    })),
+  });
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { openingBalance, currency, ...data } = parse.data;
+  try {
+    const account = await prisma.account.create({
+      data: {
+        userId: req.userId!,
+        ...data,
+        currency: currency ?? (await defaultCurrency(req.userId!)),
+        openingBalance: new Prisma.Decimal(openingBalance),
+      },
+    });
+    await notifyAfterWrite(req.userId!);
+    res.json(serialize(account));
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'An account with this name already exists' });
+    throw error;
+  }
+});
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.account.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Account not found' });
+
+  try {
+    const account = await prisma.account.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.kind !== undefined && { kind: data.kind }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(data.openingBalance !== undefined && { openingBalance: new Prisma.Decimal(data.openingBalance) }),
+        ...(data.archived !== undefined && { archived: data.archived }),
+      },
+    });
+    await notifyAfterWrite(req.userId!);
+    const balances = await accountBalances(req.userId!);
+    res.json(serialize(account, balances.get(account.id)));
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'An account with this name already exists' });
+    throw error;
+  }
+});
+
+// Accounts with history are archived rather than deleted, so balances and
+// filters keep working for past transactions
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.account.findFirst({
+    where: { id: req.params.id!, userId: req.userId! },
+    include: { _count: { select: { transactions: true, transfersIn: true, goals: true, notificationRules: true } } },
+  });
+  if (!existing) return res.status(404).json({ error: 'Account not found' });
+  if (existing._count.transactions + existing._count.transfersIn > 0) {
+    return res.status(409).json({ error: 'Account has transactions; archive it instead' });
+  }
+  // A goal needs its account or category to measure progress
+  if (existing._count.goals > 0) {
+    return res.status(409).json({ error: 'Account has savings goals; relink them or archive the account instead' });
+  }
+  // Deleting would take its low-balance rules with it
+  if (existing._count.notificationRules > 0) {
+    return res.status(409).json({ error: 'Account has notification rules; delete them or archive the account instead' });
+  }
+  await prisma.account.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// Most recent transactions with the account balance after each one
+router.get('/:id/ledger', requireAuth, async (req: AuthRequest, res) => {
+  const parse = ledgerQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const account = await prisma.account.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!account) return res.status(404).json({ error: 'Account not found' });
+
+  const [balances, items] = await Promise.all([
+    runningBalances(account),
+    prisma.transaction.findMany({
+      where: accountFilter(account.id),
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      take: parse.data.limit,
+    }),
+  ]);
+  const balance = [...balances.values()].pop() ?? Number(account.openingBalance);
+  res.json({
+    account: serialize(account, balance),
+    items: items.map((tx) => ({ ...tx, tags: parseTags(tx.tags), balance: balances.get(tx.id) ?? null })),
+  });
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import type { Alert } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { parseReasons } from '../lib/anomalies';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const listQuery = z.object({
+  includeDismissed: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+type AlertWithTransaction = Alert & {
+  transaction: { id: string; description: string | null; amount: unknown; currency: string; category: string; date: Date };
+};
+
+function serialize(alert: AlertWithTransaction) {
+  return {
+    ...alert,
+    reasons: parseReasons(alert.reasons),
+    transaction: { ...alert.transaction, amount: Number(alert.transaction.amount) },
+  };
+}
+
+const withTransaction = {
+  transaction: { select: { id: true, description: true, amount: true, currency: true, category: true, date: true } },
+} as const;
+
+// Newest first, with the transaction each alert is about. `unread` counts
+// every undismissed unread alert, not just the page returned.
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = listQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { includeDismissed, limit } = parse.data;
+
+  const [alerts, unread] = await Promise.all([
+    prisma.alert.findMany({
+      where: { userId: req.userId!, ...(!includeDismissed && { dismissedAt: null }) },
+      include: withTransaction,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+    prisma.alert.count({ where: { userId: req.userId!, dismissedAt: null, readAt: null } }),
+  ]);
+  res.json({ items: alerts.map(serialize), unread });
+});
+
+router.post('/read-all', requireAuth, async (req: AuthRequest, res) => {
+  const { count } = await prisma.alert.updateMany({
+    where: { userId: req.userId!, readAt: null },
+    data: { readAt: new Date() },
+  });
+  res.json({ read: count });
+});
+
+router.post('/:id/read', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.alert.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Alert not found' });
+
+  const alert = await prisma.alert.update({
+    where: { id: existing.id },
+    data: { readAt: existing.readAt ?? new Date() },
+    include: withTransaction,
+  });
+  res.json(serialize(alert));
+});
+
+// Dismissing also marks the alert read
+router.post('/:id/dismiss', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.alert.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Alert not found' });
+
+  const now = new Date();
+  const alert = await prisma.alert.update({
+    where: { id: existing.id },
+    data: { readAt: existing.readAt ?? now, dismissedAt: existing.dismissedAt ?? now },
+    include: withTransaction,
+  });
+  res.json(serialize(alert));
+});
+
+export default router;
@@ -1,8 +1,12 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
+import type { Request } from 'express';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { activeSessions, createSession, revokeByRefreshToken, rotateSession } from '../lib/sessions';
+import { consumeAccountToken, sendPasswordResetEmail, sendVerificationEmail } from '../lib/accountTokens';
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -22,10 +26,24 @@ const loginSchema = z.object({
   password: z.string().min(6),
 });
 
-function signToken(userId: string) {
-  const secret = process.env.JWT_SECRET || 'dev_secret_change_me';
-  return jwt.sign({ sub: userId }, secret, { expiresIn: '7d' });
-}
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+const forgotSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+const resetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+const clientInfo = (req: Request) => ({ userAgent: req.get('user-agent'), ip: req.ip });
 
 router.post('/register', async (req, res) => {
   const parse = registerSchema.safeParse(req.body);
@@ -35,8 +53,11 @@ router.post('/register', async (req, res) => {
   if (existing) return res.status(409).json({ error: 'Email already registered' });
   const passwordHash = await bcrypt.hash(password, 10);
   const user = await prisma.user.create({ data: { email, passwordHash, name } });
-  const token = signToken(user.id);
-  res.json({ token, user: { id: user.id, email: user.email, name: user.name } });
+  const tokens = await createSession(user.id, clientInfo(req));
+  // The account works straight away; the address is confirmed whenever the
+  // link is opened, and a failed send can be retried from Settings
+  await sendVerificationEmail(user).catch((error) => console.error('Verification email error:', error));
+  res.json({ ...tokens, user: { id: user.id, email: user.email, name: user.name, emailVerified: false } });
 });
 
 router.post('/login', async (req, res) => {
@@ -47,8 +68,101 @@ router.post('/login', async (req, res) => {
   if (!user) return res.status(401).json({ error: 'Invalid credentials' });
   const ok = await bcrypt.compare(password, user.passwordHash);
   if (!ok) return res.status(401).json({ error: 'Invalid credentials' });
-  const token = signToken(user.id);
-  res.json({ token, user: { id: user.id, email: user.email, name: user.name } });
+  const tokens = await createSession(user.id, clientInfo(req));
+  res.json({ ...tokens, user: { id: user.id, email: user.email, name: user.name, emailVerified: user.emailVerifiedAt !== null } });
+});
+
+// New access token for a refresh token; the refresh token is replaced too
+router.post('/refresh', async (req, res) => {
+  const parse = refreshSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const tokens = await rotateSession(parse.data.refreshToken, clientInfo(req));
+  if (!tokens) return res.status(401).json({ error: 'Invalid refresh token' });
+  res.json(tokens);
+});
+
+// Ends the session the refresh token belongs to. Its access token still
+// works until it expires, within minutes.
+router.post('/logout', async (req, res) => {
+  const parse = refreshSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  await revokeByRefreshToken(parse.data.refreshToken);
+  res.json({ loggedOut: true });
+});
+
+// Devices signed in to the account
+router.get('/sessions', requireAuth, async (req: AuthRequest, res) => {
+  const sessions = await activeSessions(req.userId!);
+  res.json({ items: sessions.map((s) => ({ ...s, current: s.id === req.sessionId })) });
+});
+
+// Signs every other device out
+router.post('/sessions/revoke-others', requireAuth, async (req: AuthRequest, res) => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId: req.userId!, revokedAt: null, id: { not: req.sessionId! } },
+    data: { revokedAt: new Date() },
+  });
+  res.json({ revoked: count });
+});
+
+router.post('/sessions/:id/revoke', requireAuth, async (req: AuthRequest, res) => {
+  const session = await prisma.session.findFirst({ where: { id: req.params.id!, userId: req.userId!, revokedAt: null } });
+  if (!session) return res.status(404).json({ error: 'Session not found' });
+  await prisma.session.update({ where: { id: session.id }, data: { revokedAt: new Date() } });
+  res.json({ revoked: session.id });
+});
+
+// The link from the verification email; no sign-in needed, the token
+// identifies the user
+router.post('/verify', async (req, res) => {
+  const parse = tokenSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const userId = await consumeAccountToken(parse.data.token, 'VERIFY_EMAIL');
+  if (!userId) return res.status(400).json({ error: 'Invalid or expired link' });
+  await prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+  res.json({ verified: true });
+});
+
+// A fresh verification link; earlier ones stop working
+router.post('/verify/resend', requireAuth, async (req: AuthRequest, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.userId! } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  if (user.emailVerifiedAt) return res.status(400).json({ error: 'Email already verified' });
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    console.error('Verification email error:', error);
+    return res.status(500).json({ error: 'Could not send the email' });
+  }
+  res.json({ sent: true });
+});
+
+// Answers the same whether or not the address has an account, so the form
+// cannot be used to find out who is registered
+router.post('/forgot', async (req, res) => {
+  const parse = forgotSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const user = await prisma.user.findUnique({ where: { email: parse.data.email } });
+  if (user) await sendPasswordResetEmail(user).catch((error) => console.error('Password reset email error:', error));
+  res.json({ sent: true });
+});
+
+// Sets a new password from a reset link and signs out every device, since
+// whoever knew the old password may still be signed in. The link reached the
+// inbox, so it verifies the address too.
+router.post('/reset', async (req, res) => {
+  const parse = resetSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const userId = await consumeAccountToken(parse.data.token, 'RESET_PASSWORD');
+  if (!userId) return res.status(400).json({ error: 'Invalid or expired link' });
+  const passwordHash = await bcrypt.hash(parse.data.password, 10);
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+    prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: now } }),
+    prisma.session.updateMany({ where: { userId, revokedAt: null }, data: { revokedAt: now } }),
+  ]);
+  res.json({ reset: true });
 });
 
 export default router;
@@ -1,71 +1,276 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient, Prisma, BudgetPeriod } from '@prisma/client';
 import { requireAuth } from '../middleware/auth';
 import type { AuthRequest } from '../middleware/auth';
+import {
+  categoryKey,
+  descendantIds,
+  isRollupRequested,
+  loadCategoryTree,
+  rollupQuery,
+  rollupTotals,
+  toRollup,
+} from '../lib/categories';
+import { addMoney, currencyReport, emptyMoney, inBase, loadConverter, roundMoney } from '../lib/currency';
+import { loadPreferences } from '../lib/preferences';
+import { budgetStatus, buildBudgetLedger, monthStart } from '../lib/budget';
+import { notifyAfterWrite } from '../lib/notifications';
 
 const prisma = new PrismaClient();
 const router = Router();
 
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
 // Set monthly budget
 const setBudgetSchema = z.object({
   monthlyBudget: z.number().nonnegative(),
+  rollover: z.boolean().optional(),
 });
 
 router.post('/set', requireAuth, async (req: AuthRequest, res) => {
   const parse = setBudgetSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
   
-  const { monthlyBudget } = parse.data;
+  const { monthlyBudget, rollover } = parse.data;
+  
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: req.userId! },
+      data: {
+        monthlyBudget: new Prisma.Decimal(monthlyBudget),
+        ...(rollover !== undefined && { budgetRollover: rollover }),
+      },
+      select: { id: true, email: true, name: true, monthlyBudget: true, budgetRollover: true },
+    }),
+    // The new amount applies from the start of the current month
+    prisma.budgetChange.upsert({
+      where: { userId_effectiveFrom: { userId: req.userId!, effectiveFrom: monthStart(new Date()) } },
+      create: {
+        userId: req.userId!,
+        amount: new Prisma.Decimal(monthlyBudget),
+        effectiveFrom: monthStart(new Date()),
+      },
+      update: { amount: new Prisma.Decimal(monthlyBudget) },
+    }),
+  ]);
   
+  await notifyAfterWrite(req.userId!);
+  res.json({ monthlyBudget: Number(user.monthlyBudget), rollover: user.budgetRollover });
+});
+
+const rolloverSchema = z.object({
+  rollover: z.boolean(),
+});
+
+// Toggle rollover without touching the budget amount
+router.post('/rollover', requireAuth, async (req: AuthRequest, res) => {
+  const parse = rolloverSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
   const user = await prisma.user.update({
     where: { id: req.userId! },
-    data: { monthlyBudget: new Prisma.Decimal(monthlyBudget) },
-    select: { id: true, email: true, name: true, monthlyBudget: true },
+    data: { budgetRollover: parse.data.rollover },
+    select: { budgetRollover: true },
   });
-  
-  res.json({ monthlyBudget: Number(user.monthlyBudget) });
+  await notifyAfterWrite(req.userId!);
+  res.json({ rollover: user.budgetRollover });
 });
 
 // Get monthly budget and current month expenses
 router.get('/status', requireAuth, async (req: AuthRequest, res) => {
-  // Get user's budget
-  const user = await prisma.user.findUnique({
-    where: { id: req.userId! },
-    select: { monthlyBudget: true },
-  });
-  
-  const monthlyBudget = Number(user?.monthlyBudget || 0);
-  
-  // Calculate current month's expenses
+  const rollupParse = rollupQuery.safeParse(req.query);
+  if (!rollupParse.success) return res.status(400).json({ error: rollupParse.error.flatten() });
+  const rollup = toRollup(rollupParse.data);
+
   const now = new Date();
-  const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
-  const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+  const [converter, prefs] = await Promise.all([loadConverter(req.userId!), loadPreferences(req.userId!)]);
+  const ledger = await buildBudgetLedger(req.userId!, now, converter, prefs);
+  const current = ledger.months[ledger.months.length - 1]!;
+
+  // This month's spend per category, only when a roll-up level is asked for
+  let byCategory;
+  if (isRollupRequested(rollup)) {
+    const [rows, tree] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { userId: req.userId!, type: 'EXPENSE', date: { gte: monthStart(now), lte: now } },
+        select: { categoryId: true, category: true, amount: true, currency: true, date: true },
+      }),
+      loadCategoryTree(req.userId!),
+    ]);
+    byCategory = rollupTotals(
+      tree,
+      rows.map((tx) => ({ categoryId: tx.categoryId, category: tx.category, amount: inBase(converter, tx) })),
+      rollup
+    ).map((c) => ({ ...c, amount: round2(c.amount) }));
+  }
   
-  const currentMonthExpenses = await prisma.transaction.aggregate({
-    where: {
-      userId: req.userId!,
-      type: 'EXPENSE',
-      date: {
-        gte: firstDay,
-        lte: lastDay,
-      },
-    },
-    _sum: { amount: true },
+  res.json({
+    monthlyBudget: ledger.monthlyBudget,
+    rollover: ledger.rollover,
+    ...budgetStatus(current),
+    ...(byCategory && { byCategory }),
+    ...currencyReport(converter),
   });
-  
-  const spent = Number(currentMonthExpenses._sum?.amount || 0);
-  const remaining = monthlyBudget - spent;
-  const percentageUsed = monthlyBudget > 0 ? (spent / monthlyBudget) * 100 : 0;
-  
+});
+
+const historyQuery = z.object({
+  months: z.coerce.number().int().min(1).max(60).default(12),
+});
+
+// Past months' budget, spend, carried amount and closing balance
+router.get('/history', requireAuth, async (req: AuthRequest, res) => {
+  const parse = historyQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const [converter, prefs] = await Promise.all([loadConverter(req.userId!), loadPreferences(req.userId!)]);
+  const ledger = await buildBudgetLedger(req.userId!, new Date(), converter, prefs);
+  const past = ledger.months.slice(0, -1);
   res.json({
-    monthlyBudget,
-    spent: Math.round(spent * 100) / 100,
-    remaining: Math.round(remaining * 100) / 100,
-    percentageUsed: Math.round(percentageUsed * 100) / 100,
-    isOverBudget: remaining < 0,
-    month: now.toLocaleString('en-US', { month: 'long', year: 'numeric' }),
+    rollover: ledger.rollover,
+    items: past.slice(-parse.data.months),
+    current: ledger.months[ledger.months.length - 1],
+    ...currencyReport(converter),
+  });
+});
+
+// Per-category budgets
+const categoryBudgetSchema = z.object({
+  category: z.string().trim().min(1),
+  period: z.nativeEnum(BudgetPeriod).default('MONTHLY'),
+  limit: z.number().positive(),
+});
+
+// Not categoryBudgetSchema.partial(): the period default would overwrite on every update
+const updateCategoryBudgetSchema = z.object({
+  category: z.string().trim().min(1).optional(),
+  period: z.nativeEnum(BudgetPeriod).optional(),
+  limit: z.number().positive().optional(),
+});
+
+// Start/end of the period containing `now`; weeks start on the user's
+// preferred day (0 = Sunday)
+function periodWindow(period: BudgetPeriod, now: Date, weekStartsOn: number) {
+  if (period === 'WEEKLY') {
+    const offset = (now.getDay() - weekStartsOn + 7) % 7;
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6, 23, 59, 59);
+    return { start, end };
+  }
+  if (period === 'YEARLY') {
+    return { start: new Date(now.getFullYear(), 0, 1), end: new Date(now.getFullYear(), 11, 31, 23, 59, 59) };
+  }
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59),
+  };
+}
+
+router.get('/categories', requireAuth, async (req: AuthRequest, res) => {
+  const budgets = await prisma.categoryBudget.findMany({
+    where: { userId: req.userId! },
+    orderBy: { category: 'asc' },
+  });
+  res.json({ items: budgets.map((b) => ({ ...b, limit: Number(b.limit) })) });
+});
+
+router.get('/categories/status', requireAuth, async (req: AuthRequest, res) => {
+  const budgets = await prisma.categoryBudget.findMany({
+    where: { userId: req.userId! },
+    orderBy: { category: 'asc' },
+  });
+
+  // A budget on a parent category also counts spending in its sub-categories
+  const [tree, converter, prefs] = await Promise.all([
+    loadCategoryTree(req.userId!),
+    loadConverter(req.userId!),
+    loadPreferences(req.userId!),
+  ]);
+  const categoryFilter = (name: string) => {
+    const category = [...tree.values()].find((c) => c.key === categoryKey(name));
+    return category
+      ? { OR: [{ categoryId: { in: [...descendantIds(tree, category.id)] } }, { category: name }] }
+      : { category: name };
+  };
+
+  const now = new Date();
+  const items = await Promise.all(
+    budgets.map(async (b) => {
+      const { start, end } = periodWindow(b.period, now, prefs.weekStartsOn);
+      const rows = await prisma.transaction.findMany({
+        where: { userId: req.userId!, type: 'EXPENSE', ...categoryFilter(b.category), date: { gte: start, lte: end } },
+        select: { amount: true, currency: true, date: true },
+      });
+      const spending = roundMoney(rows.reduce((money, tx) => addMoney(money, converter, tx), emptyMoney()));
+      const limit = Number(b.limit);
+      const spent = spending.amount;
+      const remaining = limit - spent;
+      const percentageUsed = limit > 0 ? (spent / limit) * 100 : 0;
+      return {
+        id: b.id,
+        category: b.category,
+        period: b.period,
+        limit,
+        spent,
+        spentByCurrency: spending.original,
+        remaining: Math.round(remaining * 100) / 100,
+        percentageUsed: Math.round(percentageUsed * 100) / 100,
+        isOverBudget: remaining < 0,
+        periodStart: start.toISOString(),
+        periodEnd: end.toISOString(),
+      };
+    })
+  );
+
+  res.json({ items, ...currencyReport(converter) });
+});
+
+router.post('/categories', requireAuth, async (req: AuthRequest, res) => {
+  const parse = categoryBudgetSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { category, period, limit } = parse.data;
+
+  const existing = await prisma.categoryBudget.findUnique({
+    where: { userId_category_period: { userId: req.userId!, category, period } },
   });
+  if (existing) return res.status(409).json({ error: 'A budget for this category and period already exists' });
+
+  const budget = await prisma.categoryBudget.create({
+    data: { userId: req.userId!, category, period, limit: new Prisma.Decimal(limit) },
+  });
+  res.json({ ...budget, limit: Number(budget.limit) });
+});
+
+router.patch('/categories/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateCategoryBudgetSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.categoryBudget.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Category budget not found' });
+
+  try {
+    const budget = await prisma.categoryBudget.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.category !== undefined && { category: data.category }),
+        ...(data.period !== undefined && { period: data.period }),
+        ...(data.limit !== undefined && { limit: new Prisma.Decimal(data.limit) }),
+      },
+    });
+    res.json({ ...budget, limit: Number(budget.limit) });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A budget for this category and period already exists' });
+    }
+    throw error;
+  }
+});
+
+router.delete('/categories/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.categoryBudget.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Category budget not found' });
+  await prisma.categoryBudget.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
 });
 
 export default router;
\ No newline at end of file
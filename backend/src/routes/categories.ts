@@ -0,0 +1,244 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma, TransactionType } from '@prisma/client';
+import type { Category } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { categoryKey, parseAliases } from '../lib/categories';
+import { snapshot } from '../lib/revisions';
+import { notifyAfterWrite } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const createSchema = z.object({
+  name: z.string().trim().min(1),
+  type: z.nativeEnum(TransactionType).nullable().optional(),
+  color: z.string().trim().min(1).nullable().optional(),
+  icon: z.string().trim().min(1).nullable().optional(),
+  parentId: z.string().nullable().optional(),
+});
+
+const updateSchema = createSchema.partial().extend({
+  archived: z.boolean().optional(),
+});
+
+const mergeSchema = z.object({
+  targetId: z.string().min(1),
+});
+
+function serialize(category: Category & { _count?: { transactions: number } }) {
+  const { _count, aliases, ...rest } = category;
+  return {
+    ...rest,
+    aliases: parseAliases(aliases),
+    ...(_count && { transactionCount: _count.transactions }),
+  };
+}
+
+// Ids of the category and everything above it. A repeated id ends the walk,
+// so a cycle already in the data cannot hang it.
+async function lineage(category: Category) {
+  const seen = new Set<string>();
+  for (let node: Category | null = category; node && !seen.has(node.id); ) {
+    seen.add(node.id);
+    node = node.parentId ? await prisma.category.findUnique({ where: { id: node.parentId } }) : null;
+  }
+  return seen;
+}
+
+// Returns an error message when `parentId` cannot be the parent of `id`
+async function checkParent(userId: string, id: string | null, parentId: string) {
+  const parent = await prisma.category.findFirst({ where: { id: parentId, userId } });
+  if (!parent) return 'Parent category not found';
+  // Meeting the category itself above the new parent would form a cycle
+  if (id && (await lineage(parent)).has(id)) return 'A category cannot be nested under itself or one of its sub-categories';
+  return null;
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const includeArchived = req.query.includeArchived === 'true';
+  const categories = await prisma.category.findMany({
+    where: { userId: req.userId!, ...(!includeArchived && { archived: false }) },
+    orderBy: { name: 'asc' },
+    include: { _count: { select: { transactions: true } } },
+  });
+  res.json({ items: categories.map(serialize) });
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  if (data.parentId) {
+    const invalid = await checkParent(req.userId!, null, data.parentId);
+    if (invalid) return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const category = await prisma.category.create({
+      data: {
+        userId: req.userId!,
+        name: data.name,
+        key: categoryKey(data.name),
+        type: data.type ?? null,
+        color: data.color ?? null,
+        icon: data.icon ?? null,
+        parentId: data.parentId ?? null,
+      },
+    });
+    res.json(serialize(category));
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: 'A category with this name already exists' });
+    }
+    throw error;
+  }
+});
+
+// Renaming rewrites the name stored on linked transactions and on budgets,
+// recurring rules and categorisation rules that refer to the old name
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.category.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Category not found' });
+
+  if (data.parentId) {
+    const invalid = await checkParent(req.userId!, existing.id, data.parentId);
+    if (invalid) return res.status(400).json({ error: invalid });
+  }
+
+  const renamed = data.name !== undefined && data.name !== existing.name;
+  if (renamed) {
+    const clash = await prisma.category.findFirst({
+      where: { userId: req.userId!, key: categoryKey(data.name!), id: { not: existing.id } },
+    });
+    if (clash) return res.status(409).json({ error: `"${clash.name}" already exists; merge the categories instead` });
+  }
+
+  const category = await prisma.$transaction(async (db) => {
+    const updated = await db.category.update({
+      where: { id: existing.id },
+      data: {
+        ...(renamed && { name: data.name!, key: categoryKey(data.name!) }),
+        ...(data.type !== undefined && { type: data.type }),
+        ...(data.color !== undefined && { color: data.color }),
+        ...(data.icon !== undefined && { icon: data.icon }),
+        ...(data.parentId !== undefined && { parentId: data.parentId }),
+        ...(data.archived !== undefined && { archived: data.archived }),
+      },
+    });
+    if (renamed) {
+      const where = { userId: req.userId!, category: existing.name };
+      const linked = await db.transaction.findMany({ where: { categoryId: existing.id, userId: req.userId! } });
+      await db.transactionRevision.createMany({
+        data: linked.map((tx) => ({
+          transactionId: tx.id,
+          userId: req.userId!,
+          action: 'UPDATE' as const,
+          before: snapshot(tx),
+          after: snapshot({ ...tx, category: updated.name }),
+        })),
+      });
+      await db.transaction.updateMany({ where: { categoryId: existing.id }, data: { category: updated.name } });
+      await db.categoryBudget.updateMany({ where, data: { category: updated.name } });
+      await db.recurringRule.updateMany({ where, data: { category: updated.name } });
+      await db.categoryRule.updateMany({ where, data: { category: updated.name } });
+    }
+    return updated;
+  });
+  if (renamed || data.parentId !== undefined) await notifyAfterWrite(req.userId!);
+  res.json(serialize(category));
+});
+
+// Only unused categories can be deleted; archive or merge the rest
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.category.findFirst({
+    where: { id: req.params.id!, userId: req.userId! },
+    include: { _count: { select: { transactions: true, goals: true, notificationRules: true } } },
+  });
+  if (!existing) return res.status(404).json({ error: 'Category not found' });
+  if (existing._count.transactions > 0) {
+    return res.status(409).json({ error: 'Category has transactions; merge or archive it instead' });
+  }
+  if (existing._count.goals > 0) {
+    return res.status(409).json({ error: 'Category has savings goals; relink them or merge the category instead' });
+  }
+  if (existing._count.notificationRules > 0) {
+    return res.status(409).json({ error: 'Category has notification rules; delete them or merge the category instead' });
+  }
+  await prisma.category.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// Moves everything from this category into `targetId` and deletes it. The old
+// name becomes an alias of the target, so later imports using it land there too.
+router.post('/:id/merge', requireAuth, async (req: AuthRequest, res) => {
+  const parse = mergeSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const [source, target] = await Promise.all([
+    prisma.category.findFirst({ where: { id: req.params.id!, userId: req.userId! } }),
+    prisma.category.findFirst({ where: { id: parse.data.targetId, userId: req.userId! } }),
+  ]);
+  if (!source) return res.status(404).json({ error: 'Category not found' });
+  if (!target) return res.status(404).json({ error: 'Target category not found' });
+  if (source.id === target.id) return res.status(400).json({ error: 'Cannot merge a category into itself' });
+  // Sub-categories normally move under the target. When the target is itself
+  // below the source, that would nest its own ancestors under it, so they
+  // take the source's place instead.
+  const intoDescendant = (await lineage(target)).has(source.id);
+
+  const result = await prisma.$transaction(async (db) => {
+    const linked = await db.transaction.findMany({ where: { categoryId: source.id, userId: req.userId! } });
+    await db.transactionRevision.createMany({
+      data: linked.map((tx) => ({
+        transactionId: tx.id,
+        userId: req.userId!,
+        action: 'UPDATE' as const,
+        before: snapshot(tx),
+        after: snapshot({ ...tx, category: target.name }),
+      })),
+    });
+    await db.transaction.updateMany({
+      where: { categoryId: source.id },
+      data: { categoryId: target.id, category: target.name },
+    });
+
+    // A budget the target already has for the same period wins
+    const targetPeriods = new Set(
+      (await db.categoryBudget.findMany({ where: { userId: req.userId!, category: target.name } })).map((b) => b.period)
+    );
+    for (const budget of await db.categoryBudget.findMany({ where: { userId: req.userId!, category: source.name } })) {
+      if (targetPeriods.has(budget.period)) await db.categoryBudget.delete({ where: { id: budget.id } });
+      else await db.categoryBudget.update({ where: { id: budget.id }, data: { category: target.name } });
+    }
+    const where = { userId: req.userId!, category: source.name };
+    await db.recurringRule.updateMany({ where, data: { category: target.name } });
+    await db.categoryRule.updateMany({ where, data: { category: target.name } });
+    await db.goal.updateMany({ where: { categoryId: source.id }, data: { categoryId: target.id } });
+    // Deleting the source would otherwise take its spending caps with it
+    await db.notificationRule.updateMany({ where: { categoryId: source.id }, data: { categoryId: target.id } });
+
+    await db.category.updateMany({
+      where: { parentId: source.id },
+      data: { parentId: intoDescendant ? source.parentId : target.id },
+    });
+    const aliases = new Set([...parseAliases(target.aliases), source.key, ...parseAliases(source.aliases)]);
+    await db.category.delete({ where: { id: source.id } });
+    const merged = await db.category.update({
+      where: { id: target.id },
+      data: { aliases: [...aliases].join(',') },
+    });
+    return { merged, moved: linked.length };
+  });
+
+  await notifyAfterWrite(req.userId!);
+  res.json({ ...serialize(result.merged), moved: result.moved, deleted: source.id });
+});
+
+export default router;
@@ -1,8 +1,15 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
 import type { AuthRequest } from '../middleware/auth';
 import { requireAuth } from '../middleware/auth';
+import { LlmError, getLlmProvider } from '../lib/llm';
+import { categoryKey, parseAliases } from '../lib/categories';
+import { inBase, loadConverter } from '../lib/currency';
+import type { Converter } from '../lib/currency';
+import { formatDate, formatMoney, loadPreferences } from '../lib/preferences';
+import { loadGoalProgress } from '../lib/goals';
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -11,6 +18,16 @@ const querySchema = z.object({
   message: z.string().min(1),
 });
 
+const aiReplySchema = z.object({
+  reply: z.string(),
+  transactions: z.array(z.object({
+    date: z.string(),
+    category: z.string(),
+    description: z.string().nullish(),
+    amount: z.coerce.number(),
+  })).nullish(),
+});
+
 function toStartOfDay(d: Date) {
   return new Date(d.getFullYear(), d.getMonth(), d.getDate());
 }
@@ -104,7 +121,21 @@ const categoryAliases: Record<string, string> = {
   freelance: 'Freelance',
 };
 
-function detectIntent(message: string):
+// The built-in aliases plus the user's own category names and merged-away
+// names, all pointing at the user's canonical spelling. Longest first, so
+// "coffee shops" wins over "coffee".
+async function loadCategoryAliases(userId: string) {
+  const categories = await prisma.category.findMany({ where: { userId }, select: { name: true, key: true, aliases: true } });
+  const byKey = new Map(categories.map((c) => [c.key, c.name]));
+  const aliases: Record<string, string> = {};
+  for (const [alias, name] of Object.entries(categoryAliases)) aliases[alias] = byKey.get(categoryKey(name)) ?? name;
+  for (const c of categories) {
+    for (const alias of [c.key, ...parseAliases(c.aliases)]) aliases[alias] = c.name;
+  }
+  return Object.fromEntries(Object.entries(aliases).sort(([a], [b]) => b.length - a.length));
+}
+
+function detectIntent(message: string, aliases: Record<string, string> = categoryAliases):
   | { kind: 'count_category'; category: string }
   | { kind: 'sum_category'; category: string }
   | { kind: 'sum_total' }
@@ -115,15 +146,15 @@ function detectIntent(message: string):
 
   // how many times did i go for dining ... count of category
   if (/how\s+many\s+times/.test(m)) {
-    for (const key of Object.keys(categoryAliases)) {
-      if (m.includes(key)) return { kind: 'count_category', category: categoryAliases[key] };
+    for (const [key, category] of Object.entries(aliases)) {
+      if (m.includes(key)) return { kind: 'count_category', category };
     }
   }
 
   // how much did i spend on <category>
   if (/how\s+much\s+did\s+i\s+spend/.test(m)) {
-    for (const key of Object.keys(categoryAliases)) {
-      if (m.includes(key)) return { kind: 'sum_category', category: categoryAliases[key] };
+    for (const [key, category] of Object.entries(aliases)) {
+      if (m.includes(key)) return { kind: 'sum_category', category };
     }
     return { kind: 'sum_total' };
   }
@@ -139,47 +170,40 @@ function detectIntent(message: string):
   return null;
 }
 
-async function fetchUserContext(userId: string) {
+// Income and expense totals in the user's base currency
+async function sumByType(where: Prisma.TransactionWhereInput, converter: Converter) {
+  const rows = await prisma.transaction.findMany({
+    where: { ...where, type: { in: ['INCOME', 'EXPENSE'] } },
+    select: { type: true, amount: true, currency: true, date: true },
+  });
+  return rows.reduce(
+    (acc, tx) => {
+      if (tx.type === 'EXPENSE') acc.expense += inBase(converter, tx);
+      else acc.income += inBase(converter, tx);
+      return acc;
+    },
+    { income: 0, expense: 0 }
+  );
+}
+
+async function fetchUserContext(userId: string, converter: Converter) {
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
   const sevenDaysAgo = new Date(now);
   sevenDaysAgo.setDate(now.getDate() - 7);
 
-  const [recent, monthStats, totalStats] = await Promise.all([
+  const [recent, month, total] = await Promise.all([
     prisma.transaction.findMany({
       where: { userId },
       orderBy: { date: 'desc' },
       take: 200, // cap context
     }),
-    prisma.transaction.groupBy({
-      by: ['type'],
-      where: { userId, date: { gte: startOfMonth, lte: now } },
-      _sum: { amount: true },
-    }),
-    prisma.transaction.groupBy({
-      by: ['type'],
-      where: { userId },
-      _sum: { amount: true },
-    }),
+    sumByType({ userId, date: { gte: startOfMonth, lte: now } }, converter),
+    sumByType({ userId }, converter),
   ]);
 
   const lastWeek = recent.filter(t => t.date >= sevenDaysAgo);
 
-  const sumByType = (rows: Array<{ type: string; _sum: { amount: number | null } }>) => {
-    return rows.reduce(
-      (acc, r) => {
-        const v = r._sum.amount ?? 0;
-        if (r.type === 'EXPENSE') acc.expense += v;
-        else if (r.type === 'INCOME') acc.income += v;
-        return acc;
-      },
-      { income: 0, expense: 0 }
-    );
-  };
-
-  const month = sumByType(monthStats as any);
-  const total = sumByType(totalStats as any);
-
   const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
   const dayOfMonth = now.getDate();
   const avgExpensePerDayThisMonth = dayOfMonth > 0 ? month.expense / dayOfMonth : 0;
@@ -187,6 +211,7 @@ async function fetchUserContext(userId: string) {
 
   return {
     now: now.toISOString(),
+    baseCurrency: converter.base,
     lastWeek,
     recent,
     month: { ...month, start: startOfMonth.toISOString(), end: now.toISOString() },
@@ -207,7 +232,9 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
     const { message } = parse.data;
 
     const userId = req.userId!;
-    const context = await fetchUserContext(userId);
+    const [converter, prefs] = await Promise.all([loadConverter(userId), loadPreferences(userId)]);
+    const money = (amount: number) => formatMoney(amount, prefs);
+    const context = await fetchUserContext(userId, converter);
 
     // Try to infer a concrete date range and compute totals & items first
     const inferred = parseUserDateRange(message, new Date());
@@ -219,65 +246,42 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
           orderBy: { date: 'desc' },
           take: 50,
         }),
-        prisma.transaction.groupBy({
-          by: ['type'],
-          where: { userId, date: { gte: inferred.start, lte: inferred.end } },
-          _sum: { amount: true },
-        }),
+        sumByType({ userId, date: { gte: inferred.start, lte: inferred.end } }, converter),
       ]);
-      const sum = totals.reduce((acc, r) => {
-        const v = r._sum.amount ?? 0;
-        if (r.type === 'EXPENSE') acc.expense += v;
-        else if (r.type === 'INCOME') acc.income += v;
-        return acc;
-      }, { income: 0, expense: 0 });
       rangeData = {
         range: { start: inferred.start.toISOString(), end: inferred.end.toISOString(), kind: inferred.kind },
-        totals: sum,
-        transactions: items.map(t => ({ id: t.id, date: t.date.toISOString(), type: t.type, amount: t.amount, category: t.category, description: t.description })),
+        totals,
+        transactions: items.map(t => ({ id: t.id, date: t.date.toISOString(), type: t.type, amount: t.amount, currency: t.currency, category: t.category, description: t.description })),
       };
     }
 
-    const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-    if (!GEMINI_API_KEY) {
-      return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
-    }
-
-    const modelName = 'gemini-2.0-flash-exp';
-    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent`;
-
     const prompt = `You are a personal finance assistant. Answer ONLY using the provided JSON data.\n` +
 `Be concise and specific. If the user asks for time ranges like "last week" or "this month", use now from context.\n\n` +
 `Rules:\n` +
 `- If the user asks "how much did I spend last week", compute sum of EXPENSE in lastWeek.\n` +
 `- If asked "can I survive this month within my budget", use insights.avgExpensePerDayThisMonth and projectedExpenseThisMonth; if budget is not provided, explain using the projection and suggest a safe daily budget equal to remaining-days based adjustment.\n` +
 `- When listing transactions, return at most 10 items, most recent first, with date, category, description, amount.\n` +
+`- Totals are in CONTEXT.baseCurrency; each transaction carries its own currency.\n` +
+`- Write amounts and dates the way the ${prefs.locale} locale does, e.g. ${money(1234.5)}.\n` +
 `- If a concrete RANGE is provided below, DO NOT ask clarifying questions; answer directly using RANGE_TOTALS and RANGE_TRANSACTIONS.\n` +
 `- If the question is unclear AND no concrete RANGE is provided, ask one brief clarifying question.\n\n` +
 `Return a single JSON object with keys:\n` +
 `{ "reply": string, "transactions": Array<{date: string, category: string, description: string, amount: number}> | null }\n\n` +
 `NOW:\n${context.now}\n\n` +
 `CONTEXT:\n${JSON.stringify({
+      baseCurrency: context.baseCurrency,
       month: context.month,
       totals: context.totals,
       insights: context.insights,
       lastWeek: context.lastWeek
         .slice(0, 100)
-        .map(t => ({ id: t.id, date: t.date.toISOString(), type: t.type, amount: t.amount, category: t.category, description: t.description }))
+        .map(t => ({ id: t.id, date: t.date.toISOString(), type: t.type, amount: t.amount, currency: t.currency, category: t.category, description: t.description }))
     })}\n\n` +
 `${rangeData ? `RANGE:\n${JSON.stringify(rangeData.range)}\nRANGE_TOTALS:\n${JSON.stringify(rangeData.totals)}\nRANGE_TRANSACTIONS:\n${JSON.stringify(rangeData.transactions.slice(0, 20))}\n\n` : ''}` +
 `USER_MESSAGE:\n${message}`;
 
-    const payload = {
-      contents: [
-        {
-          parts: [{ text: prompt }]
-        }
-      ]
-    } as any;
-
     // If we can answer locally for common intents, do it now and return without AI
-    const intent = detectIntent(message);
+    const intent = detectIntent(message, await loadCategoryAliases(userId));
     if (intent) {
       const inferred = parseUserDateRange(message, new Date());
       const where: any = { userId };
@@ -291,17 +295,15 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
       }
 
       if (intent.kind === 'sum_category') {
-        const rows = await prisma.transaction.groupBy({ by: ['type'], where, _sum: { amount: true } });
-        const sum = rows.find(r => r.type === 'EXPENSE')?._sum.amount ?? 0;
+        const sum = (await sumByType(where, converter)).expense;
         const rangeLabel = inferred.kind ? inferred.kind.replace('_', ' ') : 'all time';
-        return res.json({ reply: `You spent ₹${sum.toFixed(2)} on ${intent.category} ${rangeLabel}.`, transactions: null });
+        return res.json({ reply: `You spent ${money(sum)} on ${intent.category} ${rangeLabel}.`, transactions: null });
       }
 
       if (intent.kind === 'sum_total') {
-        const rows = await prisma.transaction.groupBy({ by: ['type'], where, _sum: { amount: true } });
-        const sum = rows.find(r => r.type === 'EXPENSE')?._sum.amount ?? 0;
+        const sum = (await sumByType(where, converter)).expense;
         const rangeLabel = inferred.kind ? inferred.kind.replace('_', ' ') : 'all time';
-        return res.json({ reply: `You spent a total of ₹${sum.toFixed(2)} ${rangeLabel}.`, transactions: null });
+        return res.json({ reply: `You spent a total of ${money(sum)} ${rangeLabel}.`, transactions: null });
       }
 
       if (intent.kind === 'budget_survivability' || intent.kind === 'recommendations') {
@@ -309,16 +311,13 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
         const start = new Date(now.getFullYear(), now.getMonth(), 1);
         const end = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
 
-        const [user, agg] = await Promise.all([
+        const [user, totals] = await Promise.all([
           prisma.user.findUnique({ where: { id: userId }, select: { monthlyBudget: true } }),
-          prisma.transaction.aggregate({
-            where: { userId, type: 'EXPENSE', date: { gte: start, lte: end } },
-            _sum: { amount: true },
-          }),
+          sumByType({ userId, date: { gte: start, lte: end } }, converter),
         ]);
 
         const monthlyBudget = Number(user?.monthlyBudget ?? 0);
-        const spent = Number(agg._sum.amount ?? 0);
+        const spent = totals.expense;
         const remaining = Math.max(0, monthlyBudget - spent);
         const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
         const dayOfMonth = now.getDate();
@@ -329,18 +328,29 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
 
         if (intent.kind === 'budget_survivability') {
           const reply = monthlyBudget > 0
-            ? `This month you've spent ₹${spent.toFixed(2)} of your ₹${monthlyBudget.toFixed(2)} budget. ${canSurvive ? 'Yes' : 'No'}, you ${canSurvive ? 'are currently within' : 'are over'} budget. To stay within budget, target about ₹${neededPerDay.toFixed(2)} per day for the remaining ${daysLeft} day(s).`
-            : `You haven't set a monthly budget yet. So far this month you've spent ₹${spent.toFixed(2)}.`;
+            ? `This month you've spent ${money(spent)} of your ${money(monthlyBudget)} budget. ${canSurvive ? 'Yes' : 'No'}, you ${canSurvive ? 'are currently within' : 'are over'} budget. To stay within budget, target about ${money(neededPerDay)} per day for the remaining ${daysLeft} day(s).`
+            : `You haven't set a monthly budget yet. So far this month you've spent ${money(spent)}.`;
           return res.json({ reply, transactions: null });
         }
 
         if (intent.kind === 'recommendations') {
           const tips: string[] = [];
           if (monthlyBudget > 0) {
-            tips.push(`Target ≤ ₹${neededPerDay.toFixed(2)} per day for the remaining ${daysLeft} day(s).`);
+            tips.push(`Target ≤ ${money(neededPerDay)} per day for the remaining ${daysLeft} day(s).`);
           }
           if (avgPerDaySoFar > 0) {
-            tips.push(`Your average daily spend so far is ₹${avgPerDaySoFar.toFixed(2)}. Cut discretionary categories by 10–15% to meet target.`);
+            tips.push(`Your average daily spend so far is ${money(avgPerDaySoFar)}. Cut discretionary categories by 10–15% to meet target.`);
+          }
+          const goals = await prisma.goal.findMany({ where: { userId, archived: false, targetDate: { not: null } } });
+          const progress = await loadGoalProgress(userId, goals, converter, now);
+          for (const goal of goals) {
+            const p = progress.get(goal.id);
+            if (!p || (p.status !== 'at_risk' && p.status !== 'overdue') || p.requiredMonthly === null) continue;
+            tips.push(
+              p.status === 'overdue'
+                ? `Your "${goal.name}" goal passed its target date ${formatMoney(p.remaining, prefs, goal.currency)} short; consider a new date.`
+                : `Your "${goal.name}" goal is at risk: set aside ${formatMoney(p.requiredMonthly, prefs, goal.currency)} a month (currently ${formatMoney(p.monthlyPace, prefs, goal.currency)}) to reach it by ${formatDate(goal.targetDate!, prefs)}.`
+            );
           }
           tips.push('Review top categories and reduce the largest 1–2 by setting weekly caps.');
           tips.push('Delay non-urgent purchases to next month.');
@@ -351,51 +361,20 @@ router.post('/query', requireAuth, async (req: AuthRequest, res) => {
     }
 
     // Fall back to AI
-    let response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': GEMINI_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    });
-
-    // Simple retry once on 503 overload
-    if (!response.ok && response.status === 503) {
-      await new Promise(r => setTimeout(r, 600));
-      response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': GEMINI_API_KEY,
-        },
-        body: JSON.stringify(payload),
-      });
-    }
-
-    if (!response.ok) {
-      const err = await response.text();
-      console.error('Gemini chatbot error:', err);
-      return res.status(500).json({ error: 'AI request failed' });
-    }
-
-    const result = await response.json();
-    const aiText = result.candidates?.[0]?.content?.parts?.[0]?.text as string | undefined;
-    if (!aiText) return res.status(500).json({ error: 'Empty AI response' });
-
-    let jsonText = aiText.trim();
-    if (jsonText.startsWith('```json')) jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    else if (jsonText.startsWith('```')) jsonText = jsonText.replace(/```\n?/g, '');
-
-    let parsed: any;
     try {
-      parsed = JSON.parse(jsonText);
-    } catch {
-      parsed = { reply: aiText, transactions: null };
+      const parsed = await getLlmProvider().generateJson(prompt, aiReplySchema);
+      return res.json({ reply: parsed.reply, transactions: parsed.transactions ?? null });
+    } catch (error) {
+      if (!(error instanceof LlmError)) throw error;
+      // A plain-text answer is still an answer
+      if (error.code === 'invalid_response' && error.raw) {
+        return res.json({ reply: error.raw, transactions: null });
+      }
+      console.error('LLM chatbot error:', error);
+      if (error.code === 'not_configured') return res.status(500).json({ error: error.message });
+      if (error.code === 'empty_response') return res.status(500).json({ error: 'Empty AI response' });
+      return res.status(500).json({ error: 'AI request failed' });
     }
-
-    // Optional: If AI returns transaction ids or criteria, we could fetch; for now trust parsed.transactions if present
-    return res.json({ reply: parsed.reply ?? aiText, transactions: parsed.transactions ?? null });
   } catch (e) {
     console.error('Chatbot error:', e);
     return res.status(500).json({ error: 'Internal error' });
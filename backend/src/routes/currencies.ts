@@ -0,0 +1,131 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { ExchangeRate } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { currencySchema, loadConverter, parseRatesCsv } from '../lib/currency';
+import type { RateRow } from '../lib/currency';
+import { notifyAfterWrite } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 * 1024 * 1024 } });
+
+const baseSchema = z.object({
+  baseCurrency: currencySchema,
+  // Also move transactions, accounts and recurring rules still in the old base
+  // currency to the new one (for amounts that were never really in the old one)
+  relabel: z.boolean().default(false),
+});
+
+const rateSchema = z.object({
+  fromCurrency: currencySchema,
+  // Defaults to the base currency
+  toCurrency: currencySchema.optional(),
+  rate: z.number().positive(),
+  date: z.string().transform((s) => new Date(s)),
+});
+
+const ratesQuery = z.object({
+  currency: currencySchema.optional(),
+});
+
+function serialize(rate: ExchangeRate) {
+  return { ...rate, rate: Number(rate.rate) };
+}
+
+// Rates are keyed by pair and date, so re-entering one replaces it
+function upsertRate(userId: string, row: RateRow) {
+  const key = { userId, fromCurrency: row.fromCurrency, toCurrency: row.toCurrency, date: row.date };
+  return prisma.exchangeRate.upsert({
+    where: { userId_fromCurrency_toCurrency_date: key },
+    create: { ...key, rate: new Prisma.Decimal(row.rate) },
+    update: { rate: new Prisma.Decimal(row.rate) },
+  });
+}
+
+// Base currency, every currency in use and those that cannot be converted yet
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const [converter, txCurrencies, accountCurrencies] = await Promise.all([
+    loadConverter(req.userId!),
+    prisma.transaction.findMany({ where: { userId: req.userId! }, distinct: ['currency'], select: { currency: true } }),
+    prisma.account.findMany({ where: { userId: req.userId! }, distinct: ['currency'], select: { currency: true } }),
+  ]);
+  const currencies = [
+    ...new Set([converter.base, ...txCurrencies.map((t) => t.currency), ...accountCurrencies.map((a) => a.currency)]),
+  ].sort();
+  const now = new Date();
+  res.json({
+    baseCurrency: converter.base,
+    currencies,
+    missingRates: currencies.filter((c) => converter.convert(1, c, now) === null),
+  });
+});
+
+router.patch('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = baseSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { baseCurrency, relabel } = parse.data;
+
+  const relabelled = await prisma.$transaction(async (db) => {
+    const user = await db.user.findUniqueOrThrow({ where: { id: req.userId! }, select: { baseCurrency: true } });
+    await db.user.update({ where: { id: req.userId! }, data: { baseCurrency } });
+    if (!relabel || user.baseCurrency === baseCurrency) return 0;
+    const previous = { userId: req.userId!, currency: user.baseCurrency };
+    const { count } = await db.transaction.updateMany({ where: previous, data: { currency: baseCurrency } });
+    await db.account.updateMany({ where: previous, data: { currency: baseCurrency } });
+    await db.recurringRule.updateMany({ where: previous, data: { currency: baseCurrency } });
+    return count;
+  });
+  // Budgets and caps are compared in the base currency
+  await notifyAfterWrite(req.userId!);
+  res.json({ baseCurrency, relabelled });
+});
+
+router.get('/rates', requireAuth, async (req: AuthRequest, res) => {
+  const parse = ratesQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { currency } = parse.data;
+  const rates = await prisma.exchangeRate.findMany({
+    where: { userId: req.userId!, ...(currency && { OR: [{ fromCurrency: currency }, { toCurrency: currency }] }) },
+    orderBy: [{ date: 'desc' }, { fromCurrency: 'asc' }],
+  });
+  res.json({ items: rates.map(serialize) });
+});
+
+router.post('/rates', requireAuth, async (req: AuthRequest, res) => {
+  const parse = rateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { fromCurrency, rate, date } = parse.data;
+  if (Number.isNaN(date.getTime())) return res.status(400).json({ error: 'Invalid date' });
+
+  const toCurrency = parse.data.toCurrency ?? (await loadConverter(req.userId!)).base;
+  if (fromCurrency === toCurrency) return res.status(400).json({ error: 'A rate needs two different currencies' });
+  const saved = await upsertRate(req.userId!, { fromCurrency, toCurrency, rate, date });
+  await notifyAfterWrite(req.userId!);
+  res.json(serialize(saved));
+});
+
+router.delete('/rates/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.exchangeRate.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Exchange rate not found' });
+  await prisma.exchangeRate.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// CSV upload (field "file") or a `csv` string in a JSON body. Valid lines are
+// saved even when others fail; the failures are listed in `errors`.
+router.post('/rates/import', requireAuth, upload.single('file'), async (req: AuthRequest, res) => {
+  const text = req.file ? req.file.buffer.toString('utf8') : typeof req.body?.csv === 'string' ? req.body.csv : null;
+  if (!text) return res.status(400).json({ error: 'Upload a CSV file or send its text as `csv`' });
+
+  const { base } = await loadConverter(req.userId!);
+  const { rates, errors } = parseRatesCsv(text, base);
+  for (const row of rates) await upsertRate(req.userId!, row);
+  if (rates.length > 0) await notifyAfterWrite(req.userId!);
+  res.json({ imported: rates.length, errors });
+});
+
+export default router;
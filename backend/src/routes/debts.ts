@@ -0,0 +1,320 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Debt, DebtPayment } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { resolveAccountId } from '../lib/accounts';
+import { linkCategories } from '../lib/categories';
+import { currencyReport, currencySchema, defaultCurrency, loadConverter } from '../lib/currency';
+import { amortisationSchedule, debtBalances, simulatePayoff, splitPayment } from '../lib/debts';
+import { notifyAfterWrite } from '../lib/notifications';
+import { snapshot } from '../lib/revisions';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const dateSchema = z.string().transform((s) => new Date(s));
+
+const createSchema = z.object({
+  name: z.string().trim().min(1),
+  // Balance owed on startDate
+  principal: z.number().positive(),
+  apr: z.number().min(0).max(100),
+  minimumPayment: z.number().positive(),
+  dueDay: z.number().int().min(1).max(31),
+  // Defaults to the linked account's currency, else the base currency
+  currency: currencySchema.optional(),
+  accountId: z.string().min(1).optional(),
+  startDate: dateSchema.optional(),
+});
+
+// Written out rather than createSchema.partial() so the account link can be
+// cleared with null
+const updateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  principal: z.number().positive().optional(),
+  apr: z.number().min(0).max(100).optional(),
+  minimumPayment: z.number().positive().optional(),
+  dueDay: z.number().int().min(1).max(31).optional(),
+  currency: currencySchema.optional(),
+  accountId: z.string().min(1).nullable().optional(),
+  startDate: dateSchema.optional(),
+  archived: z.boolean().optional(),
+});
+
+const paymentSchema = z.object({
+  amount: z.number().positive(),
+  date: dateSchema.optional(),
+  // Where the money comes from; needed to record a transfer into a debt
+  // that has its own account
+  accountId: z.string().min(1).optional(),
+  description: z.string().optional(),
+});
+
+const scheduleQuery = z.object({
+  // Monthly payment to schedule with (default: the minimum payment)
+  payment: z.coerce.number().positive().optional(),
+});
+
+const planQuery = z.object({
+  // Paid on top of the minimum payments each month
+  extra: z.coerce.number().min(0).default(0),
+});
+
+function serialize(debt: Debt, state?: { balance: number; lastPaymentDate: Date | null }) {
+  return {
+    ...debt,
+    principal: Number(debt.principal),
+    apr: Number(debt.apr),
+    minimumPayment: Number(debt.minimumPayment),
+    balance: state?.balance ?? Number(debt.principal),
+    lastPaymentDate: state?.lastPaymentDate ?? null,
+  };
+}
+
+function serializePayment(payment: DebtPayment) {
+  return { ...payment, amount: Number(payment.amount), principal: Number(payment.principal), interest: Number(payment.interest) };
+}
+
+function isDuplicateName(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function isInvalidDate(date: Date | undefined) {
+  return date instanceof Date && Number.isNaN(date.getTime());
+}
+
+// Open debts with their current balance, payoff date at the minimum payment
+// and the interest that would cost
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const includeArchived = req.query.includeArchived === 'true';
+  const debts = await prisma.debt.findMany({
+    where: { userId: req.userId!, ...(!includeArchived && { archived: false }) },
+    orderBy: { name: 'asc' },
+  });
+  const balances = await debtBalances(debts);
+  const now = new Date();
+  res.json({
+    items: debts.map((d) => {
+      const debt = serialize(d, balances.get(d.id));
+      const { rows, ...schedule } = amortisationSchedule({ balance: debt.balance, apr: debt.apr, payment: debt.minimumPayment, dueDay: d.dueDay }, now);
+      return { ...debt, nextDueDate: rows[0]?.date ?? null, atMinimum: schedule };
+    }),
+  });
+});
+
+// Snowball vs avalanche with the same monthly outlay: every minimum payment
+// plus `extra`. Debts in other currencies are converted to the base currency.
+router.get('/plan', requireAuth, async (req: AuthRequest, res) => {
+  const parse = planQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { extra } = parse.data;
+
+  const [debts, converter] = await Promise.all([
+    prisma.debt.findMany({ where: { userId: req.userId!, archived: false }, orderBy: { name: 'asc' } }),
+    loadConverter(req.userId!),
+  ]);
+  const balances = await debtBalances(debts);
+  const now = new Date();
+  const toBase = (amount: number, currency: string) => converter.convert(amount, currency, now) ?? 0;
+  const open = debts
+    .map((d) => ({
+      id: d.id,
+      name: d.name,
+      balance: toBase(balances.get(d.id)?.balance ?? Number(d.principal), d.currency),
+      apr: Number(d.apr),
+      minimumPayment: toBase(Number(d.minimumPayment), d.currency),
+    }))
+    .filter((d) => d.balance > 0);
+  const minimumTotal = Math.round(open.reduce((sum, d) => sum + d.minimumPayment, 0) * 100) / 100;
+  const budget = minimumTotal + extra;
+
+  const snowball = simulatePayoff(open, budget, 'snowball', now);
+  const avalanche = simulatePayoff(open, budget, 'avalanche', now);
+  res.json({
+    ...currencyReport(converter),
+    debts: open,
+    minimumTotal,
+    monthlyBudget: budget,
+    snowball,
+    avalanche,
+    // Avalanche never costs more interest; snowball clears accounts sooner
+    interestSaved: Math.round((snowball.totalInterest - avalanche.totalInterest) * 100) / 100,
+  });
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { principal, apr, minimumPayment, currency, accountId, startDate, ...data } = parse.data;
+  if (isInvalidDate(startDate)) return res.status(400).json({ error: 'Invalid date' });
+  const account = await resolveAccountId(req.userId!, accountId);
+  if ('error' in account) return res.status(400).json({ error: account.error });
+  try {
+    const debt = await prisma.debt.create({
+      data: {
+        userId: req.userId!,
+        ...data,
+        principal: new Prisma.Decimal(principal),
+        apr: new Prisma.Decimal(apr),
+        minimumPayment: new Prisma.Decimal(minimumPayment),
+        currency: currency ?? (await defaultCurrency(req.userId!, account.accountId)),
+        accountId: account.accountId,
+        ...(startDate && { startDate }),
+      },
+    });
+    res.json(serialize(debt));
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'A debt with this name already exists' });
+    throw error;
+  }
+});
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+  if (isInvalidDate(data.startDate)) return res.status(400).json({ error: 'Invalid date' });
+
+  const existing = await prisma.debt.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Debt not found' });
+  const account = data.accountId !== undefined ? await resolveAccountId(req.userId!, data.accountId) : null;
+  if (account && 'error' in account) return res.status(400).json({ error: account.error });
+
+  try {
+    const debt = await prisma.debt.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.principal !== undefined && { principal: new Prisma.Decimal(data.principal) }),
+        ...(data.apr !== undefined && { apr: new Prisma.Decimal(data.apr) }),
+        ...(data.minimumPayment !== undefined && { minimumPayment: new Prisma.Decimal(data.minimumPayment) }),
+        ...(data.dueDay !== undefined && { dueDay: data.dueDay }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(account && { accountId: account.accountId }),
+        ...(data.startDate !== undefined && { startDate: data.startDate }),
+        ...(data.archived !== undefined && { archived: data.archived }),
+      },
+    });
+    const balances = await debtBalances([debt]);
+    res.json(serialize(debt, balances.get(debt.id)));
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'A debt with this name already exists' });
+    throw error;
+  }
+});
+
+// Payments are deleted with the debt; their transactions stay
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.debt.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Debt not found' });
+  await prisma.debt.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// Month-by-month amortisation of the current balance
+router.get('/:id/schedule', requireAuth, async (req: AuthRequest, res) => {
+  const parse = scheduleQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const debt = await prisma.debt.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!debt) return res.status(404).json({ error: 'Debt not found' });
+
+  const balance = (await debtBalances([debt])).get(debt.id)!.balance;
+  const payment = parse.data.payment ?? Number(debt.minimumPayment);
+  res.json({ balance, payment, ...amortisationSchedule({ balance, apr: Number(debt.apr), payment, dueDay: debt.dueDay }, new Date()) });
+});
+
+router.get('/:id/payments', requireAuth, async (req: AuthRequest, res) => {
+  const debt = await prisma.debt.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!debt) return res.status(404).json({ error: 'Debt not found' });
+  const payments = await prisma.debtPayment.findMany({ where: { debtId: debt.id }, orderBy: { date: 'desc' } });
+  res.json({ items: payments.map(serializePayment) });
+});
+
+// Records a payment: splits it into the interest accrued since the previous
+// payment (or the start date) and principal, and adds the matching
+// transaction — a transfer into the debt's account when it has one,
+// otherwise a "Debt Payment" expense
+router.post('/:id/payments', requireAuth, async (req: AuthRequest, res) => {
+  const parse = paymentSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { amount, description } = parse.data;
+  const date = parse.data.date ?? new Date();
+  if (isInvalidDate(date)) return res.status(400).json({ error: 'Invalid date' });
+
+  const debt = await prisma.debt.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!debt) return res.status(404).json({ error: 'Debt not found' });
+  const source = await resolveAccountId(req.userId!, parse.data.accountId);
+  if ('error' in source) return res.status(400).json({ error: source.error });
+  const type = debt.accountId ? 'TRANSFER' : 'EXPENSE';
+  if (type === 'TRANSFER' && !source.accountId) return res.status(400).json({ error: 'Choose the account the payment comes from' });
+  if (type === 'TRANSFER' && source.accountId === debt.accountId) return res.status(400).json({ error: 'Cannot transfer to the same account' });
+
+  const { balance, lastPaymentDate } = (await debtBalances([debt])).get(debt.id)!;
+  const split = splitPayment(balance, Number(debt.apr), amount, lastPaymentDate ?? debt.startDate, date);
+  const [row] = await linkCategories(req.userId!, [{ category: type === 'TRANSFER' ? 'Transfer' : 'Debt Payment', type }]);
+
+  const { tx, payment } = await prisma.$transaction(async (db) => {
+    const tx = await db.transaction.create({
+      data: {
+        userId: req.userId!,
+        type,
+        amount: new Prisma.Decimal(amount),
+        currency: debt.currency,
+        category: row!.category,
+        categoryId: row!.categoryId,
+        description: description || `Payment to ${debt.name}`,
+        date,
+        accountId: source.accountId,
+        transferAccountId: type === 'TRANSFER' ? debt.accountId : null,
+      },
+    });
+    const payment = await db.debtPayment.create({
+      data: {
+        debtId: debt.id,
+        amount: new Prisma.Decimal(amount),
+        principal: new Prisma.Decimal(split.principal),
+        interest: new Prisma.Decimal(split.interest),
+        date,
+        transactionId: tx.id,
+      },
+    });
+    return { tx, payment };
+  });
+  await notifyAfterWrite(req.userId!, [tx]);
+  res.json({ ...serializePayment(payment), balance: Math.round((balance - split.principal) * 100) / 100 });
+});
+
+// Removes a payment recorded by mistake together with the transaction it
+// added. Later payments keep the interest split they were recorded with.
+router.delete('/:id/payments/:paymentId', requireAuth, async (req: AuthRequest, res) => {
+  const payment = await prisma.debtPayment.findFirst({
+    where: { id: req.params.paymentId!, debt: { id: req.params.id!, userId: req.userId! } },
+    include: { debt: true, transaction: true },
+  });
+  if (!payment) return res.status(404).json({ error: 'Payment not found' });
+
+  await prisma.$transaction(async (db) => {
+    if (payment.transaction) {
+      await db.transactionRevision.create({
+        data: {
+          transactionId: payment.transaction.id,
+          userId: req.userId!,
+          action: 'DELETE',
+          before: snapshot(payment.transaction),
+          after: null,
+        },
+      });
+      // Cascades to the payment
+      await db.transaction.delete({ where: { id: payment.transaction.id } });
+    } else {
+      await db.debtPayment.delete({ where: { id: payment.id } });
+    }
+  });
+  await notifyAfterWrite(req.userId!);
+  const { balance } = (await debtBalances([payment.debt])).get(payment.debtId)!;
+  res.json({ deleted: payment.id, balance });
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, DigestFrequency } from '@prisma/client';
+import type { DigestPreference } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { DIGEST_SECTIONS, loadDigestData, loadDigestPreference, parseSections, renderDigest, sendDigest, unsubscribeUrl } from '../lib/digest';
+import { MailError } from '../lib/mail';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const updateSchema = z.object({
+  frequency: z.nativeEnum(DigestFrequency).optional(),
+  sections: z.array(z.enum(DIGEST_SECTIONS)).optional(),
+});
+
+const periodSchema = z.object({
+  frequency: z.enum(['WEEKLY', 'MONTHLY']).default('WEEKLY'),
+});
+
+function serialize(preference: DigestPreference) {
+  return {
+    frequency: preference.frequency,
+    sections: parseSections(preference.sections),
+    lastPeriodEnd: preference.lastPeriodEnd,
+  };
+}
+
+router.get('/preferences', requireAuth, async (req: AuthRequest, res) => {
+  res.json(serialize(await loadDigestPreference(req.userId!)));
+});
+
+router.patch('/preferences', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await loadDigestPreference(req.userId!);
+  const preference = await prisma.digestPreference.update({
+    where: { id: existing.id },
+    data: {
+      ...(data.frequency !== undefined && { frequency: data.frequency }),
+      ...(data.sections !== undefined && { sections: JSON.stringify(data.sections) }),
+    },
+  });
+  res.json(serialize(preference));
+});
+
+// The digest for the last full week or month, as it would be sent
+router.get('/preview', requireAuth, async (req: AuthRequest, res) => {
+  const parse = periodSchema.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const preference = await loadDigestPreference(req.userId!);
+  const data = await loadDigestData(req.userId!, parse.data.frequency);
+  const { subject, text, html } = renderDigest(data, parseSections(preference.sections), unsubscribeUrl(preference.unsubscribeToken));
+  res.json({ subject, text, html });
+});
+
+// Sends that digest now, even for a quiet period. Does not count as the
+// scheduled one.
+router.post('/send', requireAuth, async (req: AuthRequest, res) => {
+  const parse = periodSchema.safeParse(req.body ?? {});
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const user = await prisma.user.findUnique({ where: { id: req.userId! }, select: { emailVerifiedAt: true } });
+  if (!user?.emailVerifiedAt) return res.status(400).json({ error: 'Verify your email address first' });
+  try {
+    await sendDigest(req.userId!, parse.data.frequency, new Date(), { force: true });
+    res.json({ sent: true });
+  } catch (error) {
+    if (!(error instanceof MailError)) throw error;
+    console.error('Digest send error:', error);
+    return res.status(500).json({ error: error.code === 'not_configured' ? error.message : 'Could not send the email' });
+  }
+});
+
+// The link in every digest; no sign-in, the token identifies the user. GET is
+// the link being opened, POST a mail client's one-click unsubscribe.
+async function unsubscribe(token: string) {
+  const { count } = await prisma.digestPreference.updateMany({
+    where: { unsubscribeToken: token },
+    data: { frequency: 'OFF' },
+  });
+  return count > 0;
+}
+
+router.get('/unsubscribe/:token', async (req, res) => {
+  const done = await unsubscribe(req.params.token);
+  res
+    .status(done ? 200 : 404)
+    .type('html')
+    .send(
+      `<!doctype html><html><body style="font-family:Arial,sans-serif;max-width:480px;margin:64px auto;text-align:center;color:#0f172a">${
+        done
+          ? '<h1>Unsubscribed</h1><p>You will not get digest emails any more. You can turn them back on in Settings.</p>'
+          : '<h1>Link not recognised</h1><p>This unsubscribe link is not valid. You can turn digests off in Settings.</p>'
+      }</body></html>`
+    );
+});
+
+router.post('/unsubscribe/:token', async (req, res) => {
+  const done = await unsubscribe(req.params.token);
+  if (!done) return res.status(404).json({ error: 'Digest subscription not found' });
+  res.json({ unsubscribed: true });
+});
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { currencyReport, loadConverter } from '../lib/currency';
+import { FORECAST_HORIZONS, buildForecast } from '../lib/forecast';
+
+const router = Router();
+
+const forecastQuery = z.object({
+  days: z.coerce
+    .number()
+    .refine((d) => (FORECAST_HORIZONS as readonly number[]).includes(d), `days must be one of ${FORECAST_HORIZONS.join(', ')}`)
+    .default(90),
+});
+
+// Daily projected balance across all open accounts (in the base currency),
+// with an 80% band, monthly totals and the scheduled items behind it
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = forecastQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const converter = await loadConverter(req.userId!);
+  const forecast = await buildForecast(req.userId!, parse.data.days, converter);
+  res.json({ ...forecast, ...currencyReport(converter) });
+});
+
+export default router;
@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Goal } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { accountFilter, resolveAccountId } from '../lib/accounts';
+import { parseTags } from '../lib/categoryRules';
+import { descendantIds, linkCategories, loadCategoryTree } from '../lib/categories';
+import { currencyReport, currencySchema, defaultCurrency, loadConverter } from '../lib/currency';
+import { loadGoalProgress } from '../lib/goals';
+import { notifyAfterWrite } from '../lib/notifications';
+import type { GoalProgress } from '../lib/goals';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const dateSchema = z.string().transform((s) => new Date(s));
+
+// A goal is linked to a savings account (its balance is the progress) or to a
+// category (what is filed under it counts), not both
+const createSchema = z.object({
+  name: z.string().trim().min(1),
+  targetAmount: z.number().positive(),
+  // Defaults to the linked account's currency, else the base currency
+  currency: currencySchema.optional(),
+  targetDate: dateSchema.nullable().optional(),
+  accountId: z.string().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  // Category goals count transactions from this date (default: today)
+  startDate: dateSchema.optional(),
+});
+
+// Written out rather than createSchema.partial() so that the links can be
+// cleared (null) when switching from an account to a category or back
+const updateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  targetAmount: z.number().positive().optional(),
+  currency: currencySchema.optional(),
+  targetDate: dateSchema.nullable().optional(),
+  accountId: z.string().min(1).nullable().optional(),
+  category: z.string().trim().min(1).nullable().optional(),
+  startDate: dateSchema.optional(),
+  archived: z.boolean().optional(),
+});
+
+const contributionSchema = z.object({
+  amount: z.number().positive(),
+  date: dateSchema.optional(),
+  // Where the money comes from. Required for an account goal (the
+  // contribution is a transfer into the goal's account).
+  accountId: z.string().min(1).optional(),
+  description: z.string().optional(),
+});
+
+type GoalWithLinks = Goal & { account: { name: string } | null; category: { name: string } | null };
+
+const include = { account: { select: { name: true } }, category: { select: { name: true } } } as const;
+
+function serialize(goal: GoalWithLinks, progress?: GoalProgress) {
+  const { account, category, ...rest } = goal;
+  return {
+    ...rest,
+    targetAmount: Number(goal.targetAmount),
+    accountName: account?.name ?? null,
+    category: category?.name ?? null,
+    ...(progress && { progress }),
+  };
+}
+
+function isDuplicateName(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function isInvalidDate(date: Date | null | undefined) {
+  return date instanceof Date && Number.isNaN(date.getTime());
+}
+
+// Resolves the requested link to ids; an explicit null clears that side
+async function resolveLink(userId: string, input: { accountId?: string | null | undefined; category?: string | null | undefined }) {
+  const link: { accountId?: string | null; categoryId?: string | null } = {};
+  if (input.accountId !== undefined) {
+    const account = await resolveAccountId(userId, input.accountId);
+    if ('error' in account) return account;
+    link.accountId = account.accountId;
+  }
+  if (input.category !== undefined) {
+    if (input.category === null) link.categoryId = null;
+    else {
+      const [row] = await linkCategories(userId, [{ category: input.category, type: 'EXPENSE' as const }]);
+      link.categoryId = row!.categoryId;
+    }
+  }
+  return link;
+}
+
+async function withProgress(userId: string, goals: GoalWithLinks[]) {
+  const converter = await loadConverter(userId);
+  const progress = await loadGoalProgress(userId, goals, converter);
+  return { items: goals.map((g) => serialize(g, progress.get(g.id))), ...currencyReport(converter) };
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const includeArchived = req.query.includeArchived === 'true';
+  const goals = await prisma.goal.findMany({
+    where: { userId: req.userId!, ...(!includeArchived && { archived: false }) },
+    orderBy: [{ targetDate: 'asc' }, { name: 'asc' }],
+    include,
+  });
+  res.json(await withProgress(req.userId!, goals));
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { accountId, category, currency, targetAmount, ...data } = parse.data;
+  if (isInvalidDate(data.targetDate) || isInvalidDate(data.startDate)) return res.status(400).json({ error: 'Invalid date' });
+  if (!accountId === !category) return res.status(400).json({ error: 'Link the goal to either an account or a category' });
+
+  const link = await resolveLink(req.userId!, { accountId, category });
+  if ('error' in link) return res.status(400).json({ error: link.error });
+  try {
+    const goal = await prisma.goal.create({
+      data: {
+        userId: req.userId!,
+        name: data.name,
+        ...(data.targetDate !== undefined && { targetDate: data.targetDate }),
+        ...(data.startDate !== undefined && { startDate: data.startDate }),
+        ...link,
+        targetAmount: new Prisma.Decimal(targetAmount),
+        currency: currency ?? (await defaultCurrency(req.userId!, link.accountId)),
+      },
+      include,
+    });
+    const { items, ...report } = await withProgress(req.userId!, [goal]);
+    res.json({ ...items[0], ...report });
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'A goal with this name already exists' });
+    throw error;
+  }
+});
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { accountId, category, targetAmount, ...data } = parse.data;
+  if (isInvalidDate(data.targetDate) || isInvalidDate(data.startDate)) return res.status(400).json({ error: 'Invalid date' });
+
+  const existing = await prisma.goal.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Goal not found' });
+  // Linking one side drops the other, so a goal never has both
+  const link = await resolveLink(req.userId!, {
+    accountId: accountId !== undefined ? accountId : category ? null : undefined,
+    category: category !== undefined ? category : accountId ? null : undefined,
+  });
+  if ('error' in link) return res.status(400).json({ error: link.error });
+  const linked = { accountId: existing.accountId, categoryId: existing.categoryId, ...link };
+  if (!linked.accountId === !linked.categoryId) return res.status(400).json({ error: 'Link the goal to either an account or a category' });
+
+  try {
+    const goal = await prisma.goal.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(targetAmount !== undefined && { targetAmount: new Prisma.Decimal(targetAmount) }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(data.targetDate !== undefined && { targetDate: data.targetDate }),
+        ...(data.startDate !== undefined && { startDate: data.startDate }),
+        ...(data.archived !== undefined && { archived: data.archived }),
+        ...link,
+      },
+      include,
+    });
+    const { items, ...report } = await withProgress(req.userId!, [goal]);
+    res.json({ ...items[0], ...report });
+  } catch (error) {
+    if (isDuplicateName(error)) return res.status(409).json({ error: 'A goal with this name already exists' });
+    throw error;
+  }
+});
+
+// Contributions stay as ordinary transactions; deleting a goal leaves them
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.goal.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Goal not found' });
+  await prisma.goal.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// Transactions counting toward the goal, most recent first
+router.get('/:id/contributions', requireAuth, async (req: AuthRequest, res) => {
+  const goal = await prisma.goal.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!goal) return res.status(404).json({ error: 'Goal not found' });
+
+  let where: Prisma.TransactionWhereInput;
+  if (goal.accountId) where = accountFilter(goal.accountId);
+  else if (goal.categoryId) {
+    const tree = await loadCategoryTree(req.userId!);
+    where = { categoryId: { in: [...descendantIds(tree, goal.categoryId)] }, date: { gte: goal.startDate } };
+  } else return res.json({ items: [] });
+
+  const items = await prisma.transaction.findMany({
+    where: { userId: req.userId!, ...where },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    take: 50,
+  });
+  res.json({ items: items.map((tx) => ({ ...tx, tags: parseTags(tx.tags) })) });
+});
+
+// Records a contribution: a transfer from `accountId` into an account goal's
+// account, or an expense filed under a category goal's category
+router.post('/:id/contributions', requireAuth, async (req: AuthRequest, res) => {
+  const parse = contributionSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { amount, description } = parse.data;
+  const date = parse.data.date ?? new Date();
+  if (isInvalidDate(date)) return res.status(400).json({ error: 'Invalid date' });
+
+  const goal = await prisma.goal.findFirst({ where: { id: req.params.id!, userId: req.userId! }, include });
+  if (!goal) return res.status(404).json({ error: 'Goal not found' });
+  const source = await resolveAccountId(req.userId!, parse.data.accountId);
+  if ('error' in source) return res.status(400).json({ error: source.error });
+
+  let type: 'TRANSFER' | 'EXPENSE';
+  let category: string;
+  if (goal.accountId) {
+    if (!source.accountId) return res.status(400).json({ error: 'Choose the account the contribution comes from' });
+    if (source.accountId === goal.accountId) return res.status(400).json({ error: 'Cannot transfer to the same account' });
+    type = 'TRANSFER';
+    category = 'Transfer';
+  } else if (goal.category) {
+    type = 'EXPENSE';
+    category = goal.category.name;
+  } else return res.status(400).json({ error: 'The goal is not linked to an account or a category' });
+
+  const [row] = await linkCategories(req.userId!, [{ category, type }]);
+  const tx = await prisma.transaction.create({
+    data: {
+      userId: req.userId!,
+      type,
+      amount: new Prisma.Decimal(amount),
+      // The goal's currency, which for an account goal is normally the account's
+      currency: goal.currency,
+      category: row!.category,
+      categoryId: row!.categoryId,
+      description: description || `Contribution to ${goal.name}`,
+      date,
+      accountId: source.accountId,
+      transferAccountId: type === 'TRANSFER' ? goal.accountId : null,
+    },
+  });
+  await notifyAfterWrite(req.userId!, [tx]);
+  const { items, ...report } = await withProgress(req.userId!, [goal]);
+  res.json({ transaction: { ...tx, tags: parseTags(tx.tags) }, goal: items[0], ...report });
+});
+
+export default router;
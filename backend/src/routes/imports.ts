@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { snapshot } from '../lib/revisions';
+import { notifyAfterWrite } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Recent uploads, newest first. `remaining` counts rows still linked to the
+// batch; it drops below rowCount when imported rows are deleted individually.
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+  const batches = await prisma.importBatch.findMany({
+    where: { userId: req.userId! },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: { _count: { select: { transactions: true } } },
+  });
+  res.json({
+    items: batches.map(({ _count, ...batch }) => ({ ...batch, remaining: _count.transactions })),
+  });
+});
+
+// Rolls back an import: deletes every transaction still linked to the batch
+// (recording a revision for each) and then the batch itself
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.importBatch.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Import batch not found' });
+
+  const removed = await prisma.$transaction(async (db) => {
+    const linked = await db.transaction.findMany({ where: { importBatchId: existing.id, userId: req.userId! } });
+    for (const tx of linked) {
+      await db.transactionRevision.create({
+        data: { transactionId: tx.id, userId: req.userId!, action: 'DELETE', before: snapshot(tx) },
+      });
+    }
+    await db.transaction.deleteMany({ where: { id: { in: linked.map((tx) => tx.id) } } });
+    await db.importBatch.delete({ where: { id: existing.id } });
+    return linked.length;
+  });
+
+  await notifyAfterWrite(req.userId!);
+  res.json({ deleted: existing.id, removed });
+});
+
+export default router;
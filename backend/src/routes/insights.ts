@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { resolveAccountId } from '../lib/accounts';
+import { currencyReport, loadConverter } from '../lib/currency';
+import { CADENCE_SCHEDULE, loadSubscriptions, upcomingChargeDate } from '../lib/subscriptions';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const statusSchema = z.object({
+  // CANDIDATE clears an earlier confirm or ignore
+  status: z.enum(['CONFIRMED', 'IGNORED', 'CANDIDATE']),
+});
+
+const convertSchema = z.object({
+  // Defaults to the account of the latest charge
+  accountId: z.string().nullable().optional(),
+  category: z.string().min(1).optional(),
+});
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Detected subscriptions with the user's decisions, costliest first. Totals
+// leave ignored ones out.
+router.get('/subscriptions', requireAuth, async (req: AuthRequest, res) => {
+  const converter = await loadConverter(req.userId!);
+  const items = await loadSubscriptions(req.userId!, converter);
+  const annualTotal = items.filter((s) => s.status !== 'IGNORED' && s.active).reduce((sum, s) => sum + s.annualCost, 0);
+  res.json({
+    items,
+    annualTotal: round2(annualTotal),
+    monthlyTotal: round2(annualTotal / 12),
+    priceIncreases: items.filter((s) => s.priceIncreased && s.status !== 'IGNORED').length,
+    ...currencyReport(converter),
+  });
+});
+
+router.patch('/subscriptions/:key', requireAuth, async (req: AuthRequest, res) => {
+  const parse = statusSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { status } = parse.data;
+
+  const converter = await loadConverter(req.userId!);
+  const subscription = (await loadSubscriptions(req.userId!, converter)).find((s) => s.key === req.params.key);
+  if (!subscription) return res.status(404).json({ error: 'Subscription not found' });
+
+  if (status === 'CANDIDATE') {
+    await prisma.subscriptionDecision.deleteMany({ where: { userId: req.userId!, key: subscription.key } });
+  } else {
+    await prisma.subscriptionDecision.upsert({
+      where: { userId_key: { userId: req.userId!, key: subscription.key } },
+      create: { userId: req.userId!, key: subscription.key, status, amount: new Prisma.Decimal(subscription.amount) },
+      update: { status, amount: new Prisma.Decimal(subscription.amount) },
+    });
+  }
+  res.json({ ...subscription, status });
+});
+
+// Tracks a subscription as a recurring expense from its next charge on, and
+// confirms it
+router.post('/subscriptions/:key/convert', requireAuth, async (req: AuthRequest, res) => {
+  const parse = convertSchema.safeParse(req.body ?? {});
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+
+  const converter = await loadConverter(req.userId!);
+  const subscription = (await loadSubscriptions(req.userId!, converter)).find((s) => s.key === req.params.key);
+  if (!subscription) return res.status(404).json({ error: 'Subscription not found' });
+  if (subscription.recurringRuleId) return res.status(409).json({ error: 'Subscription is already tracked by a recurring rule' });
+
+  const account = await resolveAccountId(req.userId!, parse.data.accountId !== undefined ? parse.data.accountId : subscription.accountId);
+  if ('error' in account) return res.status(400).json({ error: account.error });
+
+  const startDate = upcomingChargeDate(subscription, new Date());
+  const rule = await prisma.$transaction(async (tx) => {
+    const created = await tx.recurringRule.create({
+      data: {
+        userId: req.userId!,
+        type: 'EXPENSE',
+        amount: new Prisma.Decimal(subscription.amount),
+        currency: subscription.currency,
+        category: parse.data.category ?? subscription.category,
+        description: subscription.description || null,
+        ...CADENCE_SCHEDULE[subscription.cadence],
+        startDate,
+        nextRunAt: startDate,
+        accountId: account.accountId,
+      },
+    });
+    await tx.subscriptionDecision.upsert({
+      where: { userId_key: { userId: req.userId!, key: subscription.key } },
+      create: { userId: req.userId!, key: subscription.key, status: 'CONFIRMED', amount: new Prisma.Decimal(subscription.amount), recurringRuleId: created.id },
+      update: { status: 'CONFIRMED', amount: new Prisma.Decimal(subscription.amount), recurringRuleId: created.id },
+    });
+    return created;
+  });
+
+  res.json({
+    rule: { ...rule, amount: Number(rule.amount) },
+    subscription: { ...subscription, status: 'CONFIRMED', recurringRuleId: rule.id, nextDate: startDate },
+  });
+});
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { loadPreferences, preferencesSchema } from '../lib/preferences';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.userId! } });
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  res.json({ id: user.id, email: user.email, name: user.name, emailVerified: user.emailVerifiedAt !== null });
+});
+
+router.get('/preferences', requireAuth, async (req: AuthRequest, res) => {
+  res.json(await loadPreferences(req.userId!));
+});
+
+// Partial update. `currency` is the base currency that aggregates are
+// converted into; changing it here does not relabel existing amounts.
+router.patch('/preferences', requireAuth, async (req: AuthRequest, res) => {
+  const parse = preferencesSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { currency, ...display } = parse.data;
+
+  const fields = {
+    ...(display.locale !== undefined && { locale: display.locale }),
+    ...(display.weekStartsOn !== undefined && { weekStartsOn: display.weekStartsOn }),
+    ...(display.dateFormat !== undefined && { dateFormat: display.dateFormat }),
+  };
+  await prisma.$transaction([
+    prisma.userPreference.upsert({
+      where: { userId: req.userId! },
+      create: { userId: req.userId!, ...fields },
+      update: fields,
+    }),
+    ...(currency !== undefined ? [prisma.user.update({ where: { id: req.userId! }, data: { baseCurrency: currency } })] : []),
+  ]);
+  res.json(await loadPreferences(req.userId!));
+});
+
+export default router;
@@ -0,0 +1,198 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma, NotificationRuleKind } from '@prisma/client';
+import type { NotificationRule } from '@prisma/client';
+import { requireAuth, requireStreamAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { resolveAccountId } from '../lib/accounts';
+import { ensureDefaultRules, notifyAfterWrite, subscribeNotifications } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25_000;
+
+const listQuery = z.object({
+  unread: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const ruleSchema = z.object({
+  kind: z.nativeEnum(NotificationRuleKind),
+  threshold: z.number().nonnegative(),
+  categoryId: z.string().nullable().optional(),
+  accountId: z.string().nullable().optional(),
+  active: z.boolean().default(true),
+});
+
+// Written out rather than ruleSchema.partial(), which would keep the default
+// for `active` and switch a rule back on with every edit
+const updateRuleSchema = z.object({
+  threshold: z.number().nonnegative().optional(),
+  categoryId: z.string().nullable().optional(),
+  accountId: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+type RuleWithTargets = NotificationRule & { category: { name: string } | null; account: { name: string; currency: string } | null };
+
+function serializeRule({ category, account, ...rule }: RuleWithTargets) {
+  return {
+    ...rule,
+    threshold: Number(rule.threshold),
+    categoryName: category?.name ?? null,
+    accountName: account?.name ?? null,
+    accountCurrency: account?.currency ?? null,
+  };
+}
+
+const withTargets = { category: { select: { name: true } }, account: { select: { name: true, currency: true } } } as const;
+
+// Checks what each kind needs: a percentage for budgets, a category for caps.
+// Returns the targets to store, with the other one cleared.
+async function resolveTargets(
+  userId: string,
+  kind: NotificationRuleKind,
+  input: { threshold: number; categoryId?: string | null | undefined; accountId?: string | null | undefined }
+): Promise<{ categoryId: string | null; accountId: string | null } | { error: string }> {
+  if (kind === 'BUDGET_PERCENT' && input.threshold > 1000) return { error: 'A budget threshold is a percentage' };
+  if (kind === 'CATEGORY_CAP') {
+    if (!input.categoryId) return { error: 'A category cap needs a category' };
+    const category = await prisma.category.findFirst({ where: { id: input.categoryId, userId }, select: { id: true } });
+    if (!category) return { error: 'Category not found' };
+    return { categoryId: category.id, accountId: null };
+  }
+  if (kind === 'LOW_BALANCE') {
+    const account = await resolveAccountId(userId, input.accountId);
+    if ('error' in account) return account;
+    return { categoryId: null, accountId: account.accountId };
+  }
+  return { categoryId: null, accountId: null };
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = listQuery.safeParse(req.query);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { unread, limit } = parse.data;
+
+  const [items, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { userId: req.userId!, ...(unread && { readAt: null }) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    }),
+    prisma.notification.count({ where: { userId: req.userId!, readAt: null } }),
+  ]);
+  res.json({ items, unread: unreadCount });
+});
+
+// Server-Sent Events: a `notification` event for each one stored from now on.
+// Clients catch up on anything missed with GET / after reconnecting.
+router.get('/stream', requireStreamAuth, (req: AuthRequest, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 10000\n\n');
+
+  const unsubscribe = subscribeNotifications(req.userId!, (notification) => {
+    res.write(`id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+router.post('/read-all', requireAuth, async (req: AuthRequest, res) => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId: req.userId!, readAt: null },
+    data: { readAt: new Date() },
+  });
+  res.json({ read: count });
+});
+
+router.post('/:id/read', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.notification.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Notification not found' });
+
+  const notification = await prisma.notification.update({
+    where: { id: existing.id },
+    data: { readAt: existing.readAt ?? new Date() },
+  });
+  res.json(notification);
+});
+
+// The user's rules; the default budget warnings are added on first use
+router.get('/rules', requireAuth, async (req: AuthRequest, res) => {
+  await ensureDefaultRules(req.userId!);
+  const rules = await prisma.notificationRule.findMany({
+    where: { userId: req.userId! },
+    include: withTargets,
+    orderBy: [{ kind: 'asc' }, { threshold: 'asc' }],
+  });
+  res.json({ items: rules.map(serializeRule) });
+});
+
+// New and changed rules are checked straight away, so a threshold that is
+// already crossed is reported now rather than on the next write
+router.post('/rules', requireAuth, async (req: AuthRequest, res) => {
+  const parse = ruleSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+  const targets = await resolveTargets(req.userId!, data.kind, data);
+  if ('error' in targets) return res.status(400).json({ error: targets.error });
+
+  const rule = await prisma.notificationRule.create({
+    data: {
+      userId: req.userId!,
+      kind: data.kind,
+      threshold: new Prisma.Decimal(data.threshold),
+      ...targets,
+      active: data.active,
+    },
+    include: withTargets,
+  });
+  await notifyAfterWrite(req.userId!);
+  res.json(serializeRule(rule));
+});
+
+router.patch('/rules/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateRuleSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.notificationRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Notification rule not found' });
+  const targets = await resolveTargets(req.userId!, existing.kind, {
+    threshold: data.threshold ?? Number(existing.threshold),
+    categoryId: data.categoryId !== undefined ? data.categoryId : existing.categoryId,
+    accountId: data.accountId !== undefined ? data.accountId : existing.accountId,
+  });
+  if ('error' in targets) return res.status(400).json({ error: targets.error });
+
+  const rule = await prisma.notificationRule.update({
+    where: { id: existing.id },
+    data: {
+      ...(data.threshold !== undefined && { threshold: new Prisma.Decimal(data.threshold) }),
+      ...targets,
+      ...(data.active !== undefined && { active: data.active }),
+    },
+    include: withTargets,
+  });
+  await notifyAfterWrite(req.userId!);
+  res.json(serializeRule(rule));
+});
+
+// Past notifications stay, detached from the rule
+router.delete('/rules/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.notificationRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Notification rule not found' });
+  await prisma.notificationRule.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+export default router;
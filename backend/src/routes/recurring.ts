@@ -0,0 +1,214 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma, TransactionType, RecurrenceFrequency } from '@prisma/client';
+import type { RecurringRule } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { materialiseDueRules, materialiseRule, nextOccurrence } from '../lib/recurring';
+import { snapshot } from '../lib/revisions';
+import { linkCategories } from '../lib/categories';
+import { resolveTransfer } from '../lib/accounts';
+import { currencySchema, defaultCurrency } from '../lib/currency';
+import { notifyAfterWrite } from '../lib/notifications';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const dateSchema = z
+  .string()
+  .transform((s) => new Date(s))
+  .refine((d) => !Number.isNaN(d.getTime()), 'Invalid date');
+
+const createSchema = z.object({
+  type: z.nativeEnum(TransactionType),
+  amount: z.number().positive(),
+  // Defaults to the account's currency, else the user's base currency
+  currency: currencySchema.optional(),
+  category: z.string().min(1),
+  description: z.string().optional(),
+  frequency: z.nativeEnum(RecurrenceFrequency),
+  interval: z.number().int().min(1).max(365).default(1),
+  startDate: dateSchema,
+  endDate: dateSchema.nullable().optional(),
+  accountId: z.string().nullable().optional(),
+  transferAccountId: z.string().nullable().optional(),
+});
+
+const updateSchema = z.object({
+  type: z.nativeEnum(TransactionType).optional(),
+  amount: z.number().positive().optional(),
+  currency: currencySchema.optional(),
+  category: z.string().min(1).optional(),
+  description: z.string().optional(),
+  frequency: z.nativeEnum(RecurrenceFrequency).optional(),
+  interval: z.number().int().min(1).max(365).optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.nullable().optional(),
+  active: z.boolean().optional(),
+  accountId: z.string().nullable().optional(),
+  transferAccountId: z.string().nullable().optional(),
+  // Also rewrite already generated transactions dated on/after this date
+  applyFrom: dateSchema.optional(),
+});
+
+function serialize(rule: RecurringRule) {
+  return { ...rule, amount: Number(rule.amount) };
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const rules = await prisma.recurringRule.findMany({
+    where: { userId: req.userId! },
+    orderBy: { createdAt: 'desc' },
+  });
+  res.json({ items: rules.map(serialize) });
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+  const endDate = data.endDate ?? null;
+  const accounts = await resolveTransfer(req.userId!, data);
+  if ('error' in accounts) return res.status(400).json({ error: accounts.error });
+
+  const rule = await prisma.recurringRule.create({
+    data: {
+      userId: req.userId!,
+      type: data.type,
+      amount: new Prisma.Decimal(data.amount),
+      currency: data.currency ?? (await defaultCurrency(req.userId!, accounts.accountId)),
+      category: data.category,
+      description: data.description || null,
+      frequency: data.frequency,
+      interval: data.interval,
+      startDate: data.startDate,
+      endDate,
+      nextRunAt: nextOccurrence({ ...data, endDate }, null),
+      accountId: accounts.accountId,
+      transferAccountId: accounts.transferAccountId,
+    },
+  });
+
+  // Backfill occurrences that are already due (e.g. a start date in the past).
+  // A long backlog is capped here and `pending` is left to the scheduler.
+  const { created: generated, pending } = await materialiseRule(rule);
+  const fresh = await prisma.recurringRule.findUniqueOrThrow({ where: { id: rule.id } });
+  res.json({ ...serialize(fresh), generated, pending });
+});
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { applyFrom, ...data } = parse.data;
+
+  const existing = await prisma.recurringRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Recurring rule not found' });
+  const type = data.type ?? existing.type;
+  const accounts = await resolveTransfer(req.userId!, {
+    type,
+    accountId: data.accountId !== undefined ? data.accountId : existing.accountId,
+    transferAccountId:
+      data.transferAccountId !== undefined ? data.transferAccountId : type === 'TRANSFER' ? existing.transferAccountId : null,
+  });
+  if ('error' in accounts) return res.status(400).json({ error: accounts.error });
+
+  const schedule = {
+    startDate: data.startDate ?? existing.startDate,
+    frequency: data.frequency ?? existing.frequency,
+    interval: data.interval ?? existing.interval,
+    endDate: data.endDate !== undefined ? data.endDate : existing.endDate,
+  };
+  const scheduleChanged =
+    schedule.startDate.getTime() !== existing.startDate.getTime() ||
+    schedule.frequency !== existing.frequency ||
+    schedule.interval !== existing.interval ||
+    schedule.endDate?.getTime() !== existing.endDate?.getTime();
+
+  // Resume the new schedule after the last row already generated. Occurrences
+  // that fell due while a rule was paused are skipped, not backfilled.
+  let nextRunAt = existing.nextRunAt;
+  const resuming = data.active === true && !existing.active;
+  if (scheduleChanged || resuming) {
+    const last = await prisma.transaction.findFirst({
+      where: { recurringRuleId: existing.id },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    });
+    let after = last?.date ?? null;
+    const now = new Date();
+    if (resuming && (!after || after < now)) after = now;
+    nextRunAt = nextOccurrence(schedule, after);
+  }
+
+  const rule = await prisma.$transaction(async (db) => {
+    const updated = await db.recurringRule.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.type !== undefined && { type: data.type }),
+        ...(data.amount !== undefined && { amount: new Prisma.Decimal(data.amount) }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(data.category !== undefined && { category: data.category }),
+        ...(data.description !== undefined && { description: data.description || null }),
+        ...(data.active !== undefined && { active: data.active }),
+        accountId: accounts.accountId,
+        transferAccountId: accounts.transferAccountId,
+        ...schedule,
+        nextRunAt,
+      },
+    });
+
+    if (applyFrom) {
+      const [category] = await linkCategories(req.userId!, [updated], db);
+      const linked = await db.transaction.findMany({
+        where: { recurringRuleId: existing.id, userId: req.userId!, date: { gte: applyFrom } },
+      });
+      for (const tx of linked) {
+        const after = await db.transaction.update({
+          where: { id: tx.id },
+          data: {
+            type: updated.type,
+            amount: updated.amount,
+            currency: updated.currency,
+            category: category!.category,
+            categoryId: category!.categoryId,
+            description: updated.description,
+            accountId: updated.accountId,
+            transferAccountId: updated.transferAccountId,
+          },
+        });
+        await db.transactionRevision.create({
+          data: {
+            transactionId: tx.id,
+            userId: req.userId!,
+            action: 'UPDATE',
+            before: snapshot(tx),
+            after: snapshot(after),
+          },
+        });
+      }
+    }
+
+    return updated;
+  });
+
+  if (applyFrom) await notifyAfterWrite(req.userId!);
+  const { created: generated, pending } = rule.active ? await materialiseRule(rule) : { created: 0, pending: 0 };
+  const fresh = await prisma.recurringRule.findUniqueOrThrow({ where: { id: rule.id } });
+  res.json({ ...serialize(fresh), generated, pending });
+});
+
+// Generated transactions are kept; their link to the rule is cleared
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.recurringRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Recurring rule not found' });
+  await prisma.recurringRule.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+// Materialise this user's due occurrences now instead of waiting for the timer
+router.post('/run', requireAuth, async (req: AuthRequest, res) => {
+  const { created: generated, pending } = await materialiseDueRules(new Date(), req.userId!);
+  res.json({ generated, pending });
+});
+
+export default router;
@@ -0,0 +1,184 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { PrismaClient, Prisma, RuleMatchMode, TransactionType } from '@prisma/client';
+import type { CategoryRule } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import type { AuthRequest } from '../middleware/auth';
+import { compilePattern, formatTags, parseTags, ruleMatches } from '../lib/categoryRules';
+import type { RuleConditions } from '../lib/categoryRules';
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const conditionsSchema = z.object({
+  descriptionPattern: z.string().trim().min(1).nullable().optional(),
+  matchMode: z.nativeEnum(RuleMatchMode).default('CONTAINS'),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  type: z.nativeEnum(TransactionType).nullable().optional(),
+  category: z.string().trim().min(1),
+  tags: z.array(z.string()).optional(),
+});
+
+const createSchema = conditionsSchema.extend({
+  name: z.string().trim().min(1),
+  priority: z.number().int().default(0),
+  active: z.boolean().default(true),
+});
+
+// Written out rather than createSchema.partial(): partial() keeps the
+// defaults, which would reset matchMode/priority/active on every update
+const updateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  priority: z.number().int().optional(),
+  descriptionPattern: z.string().trim().min(1).nullable().optional(),
+  matchMode: z.nativeEnum(RuleMatchMode).optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  type: z.nativeEnum(TransactionType).nullable().optional(),
+  category: z.string().trim().min(1).optional(),
+  tags: z.array(z.string()).optional(),
+  active: z.boolean().optional(),
+});
+
+type ConditionsInput = {
+  descriptionPattern?: string | null | undefined;
+  matchMode: RuleMatchMode;
+  minAmount?: number | null | undefined;
+  maxAmount?: number | null | undefined;
+  type?: TransactionType | null | undefined;
+  category: string;
+  tags?: string[] | undefined;
+};
+
+function toConditions(input: ConditionsInput): RuleConditions {
+  return {
+    descriptionPattern: input.descriptionPattern ?? null,
+    matchMode: input.matchMode,
+    minAmount: input.minAmount != null ? new Prisma.Decimal(input.minAmount) : null,
+    maxAmount: input.maxAmount != null ? new Prisma.Decimal(input.maxAmount) : null,
+    type: input.type ?? null,
+    category: input.category,
+    tags: formatTags(input.tags),
+  };
+}
+
+// Returns a message when the conditions can never work as intended
+function validateConditions(rule: RuleConditions) {
+  if (!rule.descriptionPattern && rule.minAmount === null && rule.maxAmount === null && !rule.type) {
+    return 'Add a description pattern, amount range or type to match on';
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null && rule.minAmount.gt(rule.maxAmount)) {
+    return 'minAmount must not be greater than maxAmount';
+  }
+  if (rule.descriptionPattern) {
+    try {
+      compilePattern(rule.descriptionPattern, rule.matchMode);
+    } catch (error) {
+      return error instanceof SyntaxError ? 'descriptionPattern is not a valid regular expression' : (error as Error).message;
+    }
+  }
+  return null;
+}
+
+function serialize(rule: CategoryRule) {
+  return {
+    ...rule,
+    minAmount: rule.minAmount !== null ? Number(rule.minAmount) : null,
+    maxAmount: rule.maxAmount !== null ? Number(rule.maxAmount) : null,
+    tags: parseTags(rule.tags),
+  };
+}
+
+router.get('/', requireAuth, async (req: AuthRequest, res) => {
+  const rules = await prisma.categoryRule.findMany({
+    where: { userId: req.userId! },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+  res.json({ items: rules.map(serialize) });
+});
+
+router.post('/', requireAuth, async (req: AuthRequest, res) => {
+  const parse = createSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { name, priority, active, ...input } = parse.data;
+  const conditions = toConditions(input);
+  const invalid = validateConditions(conditions);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const rule = await prisma.categoryRule.create({
+    data: { userId: req.userId!, name, priority, active, ...conditions },
+  });
+  res.json(serialize(rule));
+});
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.categoryRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Rule not found' });
+
+  const conditions: RuleConditions = {
+    descriptionPattern: data.descriptionPattern !== undefined ? data.descriptionPattern : existing.descriptionPattern,
+    matchMode: data.matchMode ?? existing.matchMode,
+    minAmount: data.minAmount !== undefined ? (data.minAmount !== null ? new Prisma.Decimal(data.minAmount) : null) : existing.minAmount,
+    maxAmount: data.maxAmount !== undefined ? (data.maxAmount !== null ? new Prisma.Decimal(data.maxAmount) : null) : existing.maxAmount,
+    type: data.type !== undefined ? data.type : existing.type,
+    category: data.category ?? existing.category,
+    tags: data.tags !== undefined ? formatTags(data.tags) : existing.tags,
+  };
+  const invalid = validateConditions(conditions);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const rule = await prisma.categoryRule.update({
+    where: { id: existing.id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.priority !== undefined && { priority: data.priority }),
+      ...(data.active !== undefined && { active: data.active }),
+      ...conditions,
+    },
+  });
+  res.json(serialize(rule));
+});
+
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.categoryRule.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Rule not found' });
+  await prisma.categoryRule.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
+const PREVIEW_LIMIT = 50;
+
+// Runs an (unsaved) rule against the user's existing transactions and reports
+// which ones it would match and how their category would change. Nothing is written.
+router.post('/preview', requireAuth, async (req: AuthRequest, res) => {
+  const parse = conditionsSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const conditions = toConditions(parse.data);
+  const invalid = validateConditions(conditions);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const history = await prisma.transaction.findMany({
+    where: { userId: req.userId!, ...(conditions.type && { type: conditions.type }) },
+    orderBy: { date: 'desc' },
+    select: { id: true, date: true, description: true, amount: true, type: true, category: true },
+  });
+
+  const matches = history
+    .map((t) => ({ ...t, amount: Number(t.amount) }))
+    .filter((t) => ruleMatches(conditions, t));
+  const wouldChange = matches.filter((t) => t.category !== conditions.category).length;
+
+  res.json({
+    scanned: history.length,
+    matched: matches.length,
+    wouldChange,
+    items: matches.slice(0, PREVIEW_LIMIT).map((t) => ({ ...t, newCategory: conditions.category })),
+  });
+});
+
+export default router;
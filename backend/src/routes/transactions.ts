@@ -3,6 +3,15 @@ import { z } from 'zod';
 import { PrismaClient, Prisma, TransactionType } from '@prisma/client';
 import { requireAuth } from '../middleware/auth';
 import type { AuthRequest } from '../middleware/auth';
+import { snapshot } from '../lib/revisions';
+import { categoriseRows, formatTags, parseTags } from '../lib/categoryRules';
+import { isRollupRequested, linkCategories, loadCategoryTree, rollupQuery, rollupTotals, toRollup } from '../lib/categories';
+import { accountFilter, resolveTransfer, runningBalances } from '../lib/accounts';
+import { addMoney, currencyReport, currencySchema, defaultCurrency, emptyMoney, inBase, loadConverter, roundMoney } from '../lib/currency';
+import type { Money } from '../lib/currency';
+import { detectAnomalies } from '../lib/anomalies';
+import { notifyAfterWrite } from '../lib/notifications';
+import { buildStats, expenseByCategory } from '../lib/stats';
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -10,26 +19,160 @@ const router = Router();
 const createSchema = z.object({
   type: z.nativeEnum(TransactionType),
   amount: z.number().positive(),
-  category: z.string().min(1),
-  description: z.string().optional(),
+  // Defaults to the account's currency, else the user's base currency
+  currency: currencySchema.optional(),
+  // Leave out (or send "Uncategorized") to let the user's rules pick one
+  category: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
   date: z.string().transform((s) => new Date(s)),
+  tags: z.array(z.string()).optional(),
+  accountId: z.string().nullable().optional(),
+  // TRANSFER only: the account the money arrives in (accountId is where it leaves)
+  transferAccountId: z.string().nullable().optional(),
 });
 
+function serialize<T extends { tags: string | null }>(tx: T) {
+  return { ...tx, tags: parseTags(tx.tags) };
+}
+
 router.post('/', requireAuth, async (req: AuthRequest, res) => {
   const parse = createSchema.safeParse(req.body);
   if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
   const data = parse.data;
+  const accounts = await resolveTransfer(req.userId!, data);
+  if ('error' in accounts) return res.status(400).json({ error: accounts.error });
+  // A category the user picked is kept; rules still add their tags.
+  // Transfers are filed under "Transfer" unless told otherwise.
+  const fallback = data.type === 'TRANSFER' ? 'Transfer' : 'Uncategorized';
+  const categorised = await categoriseRows(
+    req.userId!,
+    [{ ...data, category: data.category || fallback }],
+    { keepCategory: (r) => r.type === 'TRANSFER' || r.category !== 'Uncategorized' }
+  );
+  const [row] = await linkCategories(req.userId!, categorised);
   const tx = await prisma.transaction.create({
     data: {
       userId: req.userId!,
       type: data.type,
       amount: new Prisma.Decimal(data.amount),
-      category: data.category,
+      currency: data.currency ?? (await defaultCurrency(req.userId!, accounts.accountId)),
+      category: row!.category,
+      categoryId: row!.categoryId,
       description: data.description || null,
       date: data.date,
+      tags: formatTags(row!.tags),
+      accountId: accounts.accountId,
+      transferAccountId: accounts.transferAccountId,
     },
   });
-  res.json(tx);
+  await detectAnomalies(req.userId!, [tx]).catch((error) => console.error('Anomaly detection error:', error));
+  await notifyAfterWrite(req.userId!, [tx]);
+  res.json(serialize(tx));
+});
+
+const updateSchema = createSchema.partial();
+
+router.patch('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const parse = updateSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const data = parse.data;
+
+  const existing = await prisma.transaction.findFirst({
+    where: { id: req.params.id!, userId: req.userId! },
+  });
+  if (!existing) return res.status(404).json({ error: 'Transaction not found' });
+  // A debt payment's interest split was worked out from this row's amount and
+  // day, so those stay fixed; the edit form resends them unchanged
+  const payment = await prisma.debtPayment.findUnique({ where: { transactionId: existing.id } });
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  if (
+    payment &&
+    ((data.amount !== undefined && data.amount !== Number(existing.amount)) ||
+      (data.date !== undefined && day(data.date) !== day(existing.date)) ||
+      (data.type !== undefined && data.type !== existing.type) ||
+      (data.currency !== undefined && data.currency !== existing.currency))
+  ) {
+    return res.status(409).json({ error: 'This transaction records a debt payment; delete the payment and record it again' });
+  }
+  // Validate the accounts the row will end up with; leaving TRANSFER drops the destination
+  const type = data.type ?? existing.type;
+  const accounts = await resolveTransfer(req.userId!, {
+    type,
+    accountId: data.accountId !== undefined ? data.accountId : existing.accountId,
+    transferAccountId:
+      data.transferAccountId !== undefined ? data.transferAccountId : type === 'TRANSFER' ? existing.transferAccountId : null,
+  });
+  if ('error' in accounts) return res.status(400).json({ error: accounts.error });
+
+  const [linked] = data.category !== undefined
+    ? await linkCategories(req.userId!, [{ category: data.category, type: data.type ?? existing.type }])
+    : [];
+
+  const tx = await prisma.$transaction(async (db) => {
+    const updated = await db.transaction.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.type !== undefined && { type: data.type }),
+        ...(data.amount !== undefined && { amount: new Prisma.Decimal(data.amount) }),
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...(linked && { category: linked.category, categoryId: linked.categoryId }),
+        ...(data.description !== undefined && { description: data.description || null }),
+        ...(data.date !== undefined && { date: data.date }),
+        ...(data.tags !== undefined && { tags: formatTags(data.tags) }),
+        accountId: accounts.accountId,
+        transferAccountId: accounts.transferAccountId,
+      },
+    });
+    await db.transactionRevision.create({
+      data: {
+        transactionId: existing.id,
+        userId: req.userId!,
+        action: 'UPDATE',
+        before: snapshot(existing),
+        after: snapshot(updated),
+      },
+    });
+    return updated;
+  });
+  await notifyAfterWrite(req.userId!, [tx]);
+  res.json(serialize(tx));
+});
+
+router.delete('/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.transaction.findFirst({
+    where: { id: req.params.id!, userId: req.userId! },
+  });
+  if (!existing) return res.status(404).json({ error: 'Transaction not found' });
+
+  await prisma.$transaction([
+    prisma.transactionRevision.create({
+      data: {
+        transactionId: existing.id,
+        userId: req.userId!,
+        action: 'DELETE',
+        before: snapshot(existing),
+        after: null,
+      },
+    }),
+    prisma.transaction.delete({ where: { id: existing.id } }),
+  ]);
+  await notifyAfterWrite(req.userId!);
+  res.json({ deleted: existing.id });
+});
+
+// Change history for a single transaction (also available after deletion)
+router.get('/:id/revisions', requireAuth, async (req: AuthRequest, res) => {
+  const revisions = await prisma.transactionRevision.findMany({
+    where: { transactionId: req.params.id!, userId: req.userId! },
+    orderBy: { createdAt: 'desc' },
+  });
+  res.json({
+    items: revisions.map((r) => ({
+      ...r,
+      before: JSON.parse(r.before),
+      after: r.after ? JSON.parse(r.after) : null,
+    })),
+  });
 });
 
 const listQuery = z.object({
@@ -37,6 +180,8 @@ const listQuery = z.object({
   to: z.string().optional(),
   type: z.nativeEnum(TransactionType).optional(),
   category: z.string().optional(),
+  categoryId: z.string().optional(),
+  accountId: z.string().optional(),
   page: z.coerce.number().min(1).default(1),
   pageSize: z.coerce.number().min(1).max(100).default(20),
 });
@@ -44,146 +189,165 @@ const listQuery = z.object({
 router.get('/', requireAuth, async (req: AuthRequest, res) => {
   const parse = listQuery.safeParse(req.query);
   if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
-  const { from, to, type, category, page, pageSize } = parse.data;
+  const { from, to, type, category, categoryId, accountId, page, pageSize } = parse.data;
   const where: any = { userId: req.userId };
   if (from) where.date = { ...(where.date || {}), gte: new Date(from) };
   if (to) where.date = { ...(where.date || {}), lte: new Date(to) };
   if (type) where.type = type;
   if (category) where.category = category;
-  const [items, total] = await Promise.all([
+  if (categoryId) where.categoryId = categoryId;
+  if (accountId) Object.assign(where, accountFilter(accountId));
+  const [items, total, account] = await Promise.all([
     prisma.transaction.findMany({
       where,
-      orderBy: { date: 'desc' },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
       skip: (page - 1) * pageSize,
       take: pageSize,
     }),
     prisma.transaction.count({ where }),
+    accountId ? prisma.account.findFirst({ where: { id: accountId, userId: req.userId! } }) : null,
   ]);
-  res.json({ items, page, pageSize, total });
+  // Filtering by account adds the account's balance after each row (transfers
+  // in and out both move it)
+  const balances = account ? await runningBalances(account) : null;
+  res.json({
+    items: items.map((tx) => ({ ...serialize(tx), ...(balances && { balance: balances.get(tx.id) ?? null }) })),
+    page,
+    pageSize,
+    total,
+  });
 });
 
 router.get('/summary', requireAuth, async (req: AuthRequest, res) => {
-  const { from, to } = req.query as any;
+  const rollupParse = rollupQuery.safeParse(req.query);
+  if (!rollupParse.success) return res.status(400).json({ error: rollupParse.error.flatten() });
+  const { from, to, accountId } = req.query as any;
   const where: any = { userId: req.userId };
+  if (accountId) where.accountId = accountId;
   if (from) where.date = { ...(where.date || {}), gte: new Date(from) };
   if (to) where.date = { ...(where.date || {}), lte: new Date(to) };
-  
-  const byType = await prisma.transaction.groupBy({
-    by: ['type'],
-    where,
-    _sum: { amount: true },
+  const converter = await loadConverter(req.userId!);
+
+  // Transfers only move money between accounts, so they are neither income nor expense
+  const rows = await prisma.transaction.findMany({
+    where: { ...where, type: { in: ['INCOME', 'EXPENSE'] } },
+    select: { type: true, amount: true, currency: true, date: true },
+  });
+  const totals = new Map<string, Money>();
+  for (const tx of rows) {
+    if (!totals.has(tx.type)) totals.set(tx.type, emptyMoney());
+    addMoney(totals.get(tx.type)!, converter, tx);
+  }
+  // `_sum.amount` is in the base currency; `byCurrency` holds the amounts as entered
+  const byType = [...totals].map(([type, money]) => {
+    const { amount, original } = roundMoney(money);
+    return { type, _sum: { amount }, byCurrency: original };
   });
   
   // Only get expense categories for spending pie chart
-  const byExpenseCategory = await prisma.transaction.groupBy({
-    by: ['category'],
-    where: { ...where, type: 'EXPENSE' },
-    _sum: { amount: true },
-  });
+  const byExpenseCategory = await expenseByCategory(req.userId!, where, toRollup(rollupParse.data), converter);
   
-  res.json({ byType, byCategory: byExpenseCategory });
+  res.json({
+    byType,
+    byCategory: byExpenseCategory.map(({ amount, ...c }) => ({ ...c, _sum: { amount } })),
+    ...currencyReport(converter),
+  });
 });
 
 // Monthly trends endpoint
 router.get('/trends', requireAuth, async (req: AuthRequest, res) => {
-  const { from, to } = req.query as any;
+  const rollupParse = rollupQuery.safeParse(req.query);
+  if (!rollupParse.success) return res.status(400).json({ error: rollupParse.error.flatten() });
+  const rollup = toRollup(rollupParse.data);
+  const { from, to, accountId } = req.query as any;
   const where: any = { userId: req.userId };
+  if (accountId) where.accountId = accountId;
   if (from) where.date = { ...(where.date || {}), gte: new Date(from) };
   if (to) where.date = { ...(where.date || {}), lte: new Date(to) };
   
   // Get transactions grouped by month
-  const transactions = await prisma.transaction.findMany({
-    where,
-    select: {
-      amount: true,
-      type: true,
-      date: true,
-    },
-    orderBy: { date: 'asc' },
-  });
+  const [transactions, converter] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { ...where, type: { not: 'TRANSFER' } },
+      select: {
+        amount: true,
+        currency: true,
+        type: true,
+        date: true,
+        category: true,
+        categoryId: true,
+      },
+      orderBy: { date: 'asc' },
+    }),
+    loadConverter(req.userId!),
+  ]);
   
-  // Group by month
-  const monthlyTrends: { [key: string]: { month: string; income: number; expense: number } } = {};
+  // Group by month; income and expense are in the base currency, byCurrency
+  // keeps the amounts as entered
+  type MonthTotals = { income: Money; expense: Money };
+  const monthlyTrends: { [key: string]: MonthTotals } = {};
   
   transactions.forEach(tx => {
     const month = tx.date.toISOString().substring(0, 7); // YYYY-MM format
     if (!monthlyTrends[month]) {
-      monthlyTrends[month] = { month, income: 0, expense: 0 };
+      monthlyTrends[month] = { income: emptyMoney(), expense: emptyMoney() };
     }
     
     if (tx.type === 'INCOME') {
-      monthlyTrends[month].income += Number(tx.amount);
-    } else {
-      monthlyTrends[month].expense += Number(tx.amount);
+      addMoney(monthlyTrends[month].income, converter, tx);
+    } else if (tx.type === 'EXPENSE') {
+      addMoney(monthlyTrends[month].expense, converter, tx);
     }
   });
   
-  const trendsArray = Object.values(monthlyTrends).sort((a, b) => a.month.localeCompare(b.month));
+  let trendsArray: Array<{
+    month: string;
+    income: number;
+    expense: number;
+    byCurrency: { income: Record<string, number>; expense: Record<string, number> };
+    byCategory?: Record<string, number>;
+  }> = Object.entries(monthlyTrends)
+    .map(([month, totals]) => {
+      const income = roundMoney(totals.income);
+      const expense = roundMoney(totals.expense);
+      return {
+        month,
+        income: income.amount,
+        expense: expense.amount,
+        byCurrency: { income: income.original, expense: expense.original },
+      };
+    })
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  // Per-month expense split, only when a roll-up level is asked for
+  if (isRollupRequested(rollup)) {
+    const tree = await loadCategoryTree(req.userId!);
+    trendsArray = trendsArray.map((trend) => {
+      const rows = transactions
+        .filter((tx) => tx.type === 'EXPENSE' && tx.date.toISOString().startsWith(trend.month))
+        .map((tx) => ({ categoryId: tx.categoryId, category: tx.category, amount: inBase(converter, tx) }));
+      const byCategory = Object.fromEntries(rollupTotals(tree, rows, rollup).map((c) => [c.category, c.amount]));
+      return { ...trend, byCategory };
+    });
+  }
   
-  res.json({ monthlyTrends: trendsArray });
+  res.json({ monthlyTrends: trendsArray, ...currencyReport(converter) });
 });
 
 // Summary statistics endpoint - NOW RESPECTS DATE RANGE FILTERS
 router.get('/stats', requireAuth, async (req: AuthRequest, res) => {
-  const { from, to } = req.query as any;
+  const rollupParse = rollupQuery.safeParse(req.query);
+  if (!rollupParse.success) return res.status(400).json({ error: rollupParse.error.flatten() });
+  const { from, to, accountId } = req.query as any;
   const where: any = { userId: req.userId };
+  if (accountId) where.accountId = accountId;
   
   // Use the date range from query params, or default to all time
   if (from) where.date = { ...(where.date || {}), gte: new Date(from) };
   if (to) where.date = { ...(where.date || {}), lte: new Date(to) };
-  
-  const [totalIncome, totalExpense, biggestCategory, transactions] = await Promise.all([
-    // Total income in selected range
-    prisma.transaction.aggregate({
-      where: { ...where, type: 'INCOME' },
-      _sum: { amount: true },
-    }),
-    
-    // Total expenses in selected range
-    prisma.transaction.aggregate({
-      where: { ...where, type: 'EXPENSE' },
-      _sum: { amount: true },
-    }),
-    
-    // Biggest expense category in selected range
-    prisma.transaction.groupBy({
-      by: ['category'],
-      where: { ...where, type: 'EXPENSE' },
-      _sum: { amount: true },
-      orderBy: { _sum: { amount: 'desc' } },
-      take: 1,
-    }),
-    
-    // Get all transactions in range to calculate date span
-    prisma.transaction.findMany({
-      where,
-      select: { date: true },
-      orderBy: { date: 'asc' },
-    }),
-  ]);
-  
-  const income = Number(totalIncome._sum?.amount || 0);
-  const expense = Number(totalExpense._sum?.amount || 0);
-  const savings = income - expense;
-  const savingsRate = income > 0 ? ((savings / income) * 100) : 0;
-  
-  // Calculate average daily spending based on actual date range
-  let avgDailySpending = 0;
-  if (transactions.length > 0 && expense > 0) {
-    const firstDate = transactions[0].date;
-    const lastDate = transactions[transactions.length - 1].date;
-    const daysDiff = Math.ceil((lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    avgDailySpending = expense / Math.max(daysDiff, 1);
-  }
-  
-  res.json({
-    totalIncome: Math.round(income * 100) / 100,
-    totalExpense: Math.round(expense * 100) / 100,
-    netSavings: Math.round(savings * 100) / 100,
-    savingsRate: Math.round(savingsRate * 100) / 100,
-    biggestExpenseCategory: biggestCategory[0]?.category || 'N/A',
-    averageDailySpending: Math.round(avgDailySpending * 100) / 100,
-  });
+  const converter = await loadConverter(req.userId!);
+  const stats = await buildStats(req.userId!, where, toRollup(rollupParse.data), converter);
+  res.json({ ...stats, ...currencyReport(converter) });
 });
 
 export default router;
\ No newline at end of file
@@ -4,6 +4,21 @@ import { z } from 'zod';
 import { requireAuth } from '../middleware/auth';
 import type { AuthRequest } from '../middleware/auth';
 import { PrismaClient, TransactionType } from '@prisma/client';
+import {
+  csvMappingSchema,
+  detectStatementFormat,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  suggestCsvMapping,
+} from '../lib/statementImport';
+import type { CsvMapping, LineDiagnostic, StatementParseResult } from '../lib/statementImport';
+import { partitionDuplicates } from '../lib/duplicates';
+import { IMPORT_SOURCES, findPreviousImport, hashFile, importTransactions } from '../lib/importBatches';
+import type { ImportRow } from '../lib/importBatches';
+import { LlmError, getLlmProvider } from '../lib/llm';
+import { categoriseRows } from '../lib/categoryRules';
+import { resolveAccountId } from '../lib/accounts';
 
 // For OCR and PDF parsing we will use tesseract.js and pdf-parse
 import * as Tesseract from 'tesseract.js';
@@ -19,6 +34,7 @@ const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10
 function extractTransactionsFromText(text: string) {
   const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
   const results: Array<{ amount: number; category: string; description?: string; date: Date; type: TransactionType }>= [];
+  const diagnostics: LineDiagnostic[] = [];
   const now = new Date();
   
   // Look for various amount patterns
@@ -29,7 +45,7 @@ function extractTransactionsFromText(text: string) {
     /amount[:\s]*(?:\$)?([0-9]+(?:\.[0-9]{2})?)/i,  // Amount: $12.34
   ];
   
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
     let amount = 0;
     let matched = false;
     
@@ -45,7 +61,10 @@ function extractTransactionsFromText(text: string) {
       }
     }
     
-    if (!matched) continue;
+    if (!matched) {
+      diagnostics.push({ line: index + 1, text: line, status: 'skipped', message: 'No amount found' });
+      continue;
+    }
     
     // Determine category based on keywords
     let category = 'Uncategorized';
@@ -72,14 +91,53 @@ function extractTransactionsFromText(text: string) {
       date: now, 
       type: 'EXPENSE' 
     });
+    diagnostics.push({ line: index + 1, text: line, status: 'parsed' });
   }
   
-  return results;
+  return { items: results, diagnostics };
+}
+
+// `dryRun` (form field or query string) parses without saving anything
+function isDryRun(req: AuthRequest) {
+  return req.body?.dryRun === 'true' || req.query.dryRun === 'true';
+}
+
+// YYYY-MM-DD in local time, the format the review table edits
+function toDateInput(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Dry-run response: parsed rows for the review table plus what happened to
+// every source line. Rows are saved later through POST /commit.
+async function previewResponse(
+  userId: string,
+  file: Express.Multer.File,
+  rows: ImportRow[],
+  diagnostics: LineDiagnostic[]
+) {
+  const fileHash = hashFile(file.buffer);
+  return {
+    dryRun: true,
+    transactions: rows.map((r) => ({
+      date: toDateInput(r.date),
+      description: r.description ?? '',
+      category: r.category,
+      amount: r.amount,
+      type: r.type,
+      tags: r.tags ?? [],
+      ...(r.externalId && { externalId: r.externalId }),
+    })),
+    diagnostics,
+    file: { name: file.originalname, hash: fileHash },
+    previousImport: await findPreviousImport(userId, fileHash),
+  };
 }
 
 router.post('/receipt', requireAuth, upload.single('file'), async (req: AuthRequest, res) => {
   try {
     if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+    const account = await resolveAccountId(req.userId!, req.body?.accountId);
+    if ('error' in account) return res.status(400).json({ error: account.error });
     
     const mime = req.file.mimetype;
     let text = '';
@@ -112,27 +170,29 @@ router.post('/receipt', requireAuth, upload.single('file'), async (req: AuthRequ
       return res.status(400).json({ error: 'No text could be extracted from the file' });
     }
     
-    const items = extractTransactionsFromText(text);
+    const extracted = extractTransactionsFromText(text);
+    const { diagnostics } = extracted;
+    // The user's rules take precedence over the keyword guesses
+    const items = await categoriseRows(req.userId!, extracted.items);
+    if (isDryRun(req)) {
+      return res.json(await previewResponse(req.userId!, req.file, items, diagnostics));
+    }
     if (items.length === 0) {
       return res.json({ imported: 0, items: [], extractedText: text });
     }
     
-    const created = await prisma.$transaction(
-      items.map((i) =>
-        prisma.transaction.create({
-          data: {
-            userId: req.userId!,
-            type: i.type,
-            amount: i.amount,
-            category: i.category,
-            description: i.description,
-            date: i.date,
-          },
-        })
-      )
+    // Probable duplicates are returned for review instead of being inserted
+    const { fresh, duplicates } = await partitionDuplicates(req.userId!, items);
+    
+    const fileHash = hashFile(req.file.buffer);
+    const previousImport = await findPreviousImport(req.userId!, fileHash);
+    const { batch, created } = await importTransactions(
+      req.userId!,
+      { source: 'receipt', filename: req.file.originalname, fileHash, accountId: account.accountId },
+      fresh
     );
     
-    res.json({ imported: created.length, items: created });
+    res.json({ imported: created.length, items: created, duplicates, batchId: batch?.id ?? null, previousImport });
   } catch (error) {
     console.error('Receipt upload error:', error);
     res.status(500).json({ error: 'Internal server error during receipt processing' });
@@ -190,11 +250,131 @@ function parseStatementLine(line: string): { date: string; description: string;
   };
 }
 
+// CSV column mapping: sent inline as a JSON `mapping` field, or by `profileId`
+async function resolveCsvMapping(userId: string, body: Record<string, unknown>): Promise<{ mapping: CsvMapping } | { error: unknown }> {
+  let raw: unknown;
+  if (typeof body.profileId === 'string' && body.profileId) {
+    const profile = await prisma.importProfile.findFirst({ where: { id: body.profileId, userId } });
+    if (!profile) return { error: 'Import profile not found' };
+    raw = JSON.parse(profile.mapping);
+  } else if (typeof body.mapping === 'string') {
+    try {
+      raw = JSON.parse(body.mapping);
+    } catch {
+      return { error: 'mapping must be valid JSON' };
+    }
+  } else {
+    return { error: 'CSV import needs a column mapping or a saved profile' };
+  }
+  const parse = csvMappingSchema.safeParse(raw);
+  if (!parse.success) return { error: parse.error.flatten() };
+  return { mapping: parse.data };
+}
+
+// Returns the header row, a few sample rows and a suggested mapping so the
+// user can map columns before importing a CSV
+router.post('/statement/preview', requireAuth, upload.single('file'), async (req: AuthRequest, res) => {
+  if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+  if (detectStatementFormat(req.file) !== 'csv') {
+    return res.status(400).json({ error: 'Column mapping preview is only available for CSV files' });
+  }
+  const [headers = [], ...rows] = parseCsv(req.file.buffer.toString('utf8'));
+  res.json({ headers, rows: rows.slice(0, 5), totalRows: rows.length, suggestedMapping: suggestCsvMapping(headers) });
+});
+
+router.get('/profiles', requireAuth, async (req: AuthRequest, res) => {
+  const profiles = await prisma.importProfile.findMany({
+    where: { userId: req.userId! },
+    orderBy: { name: 'asc' },
+  });
+  res.json({ items: profiles.map((p) => ({ ...p, mapping: JSON.parse(p.mapping) })) });
+});
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1),
+  mapping: csvMappingSchema,
+});
+
+// Create or replace a named CSV mapping profile
+router.post('/profiles', requireAuth, async (req: AuthRequest, res) => {
+  const parse = profileSchema.safeParse(req.body);
+  if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
+  const { name, mapping } = parse.data;
+  const profile = await prisma.importProfile.upsert({
+    where: { userId_name: { userId: req.userId!, name } },
+    create: { userId: req.userId!, name, mapping: JSON.stringify(mapping) },
+    update: { mapping: JSON.stringify(mapping) },
+  });
+  res.json({ ...profile, mapping });
+});
+
+router.delete('/profiles/:id', requireAuth, async (req: AuthRequest, res) => {
+  const existing = await prisma.importProfile.findFirst({ where: { id: req.params.id!, userId: req.userId! } });
+  if (!existing) return res.status(404).json({ error: 'Import profile not found' });
+  await prisma.importProfile.delete({ where: { id: existing.id } });
+  res.json({ deleted: existing.id });
+});
+
 router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRequest, res) => {
   try {
     if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
-    if (req.file.mimetype !== 'application/pdf') {
-      return res.status(400).json({ error: 'Only PDF files are supported for statement import' });
+    const account = await resolveAccountId(req.userId!, req.body?.accountId);
+    if ('error' in account) return res.status(400).json({ error: account.error });
+    const format = detectStatementFormat(req.file);
+    if (format === 'csv' || format === 'ofx') {
+      const text = req.file.buffer.toString('utf8');
+      let result: StatementParseResult;
+      if (format === 'csv') {
+        const resolved = await resolveCsvMapping(req.userId!, req.body ?? {});
+        if ('error' in resolved) return res.status(400).json({ error: resolved.error });
+        result = parseCsvStatement(text, resolved.mapping);
+        const saveAs = typeof req.body?.saveProfileAs === 'string' ? req.body.saveProfileAs.trim() : '';
+        if (saveAs) {
+          await prisma.importProfile.upsert({
+            where: { userId_name: { userId: req.userId!, name: saveAs } },
+            create: { userId: req.userId!, name: saveAs, mapping: JSON.stringify(resolved.mapping) },
+            update: { mapping: JSON.stringify(resolved.mapping) },
+          });
+        }
+      } else {
+        result = parseOfxStatement(text);
+      }
+
+      const { errors, diagnostics, totalLines } = result;
+      const parsed = await categoriseRows(req.userId!, result.parsed);
+      if (isDryRun(req)) {
+        return res.json(await previewResponse(req.userId!, req.file, parsed, diagnostics));
+      }
+      if (parsed.length === 0) {
+        return res.status(400).json({
+          error: `No valid transactions found in ${format.toUpperCase()} file`,
+          errors: errors.slice(0, 10),
+          totalLines,
+        });
+      }
+
+      // Probable duplicates (incl. previously imported FITIDs) are returned for review
+      const { fresh, duplicates } = await partitionDuplicates(req.userId!, parsed);
+
+      const fileHash = hashFile(req.file.buffer);
+      const previousImport = await findPreviousImport(req.userId!, fileHash);
+      const { batch, created } = await importTransactions(
+        req.userId!,
+        { source: 'statement', filename: req.file.originalname, fileHash, accountId: account.accountId },
+        fresh
+      );
+
+      return res.json({
+        imported: created.length,
+        skipped: totalLines - parsed.length,
+        errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+        duplicates,
+        batchId: batch?.id ?? null,
+        previousImport,
+      });
+    }
+    if (format !== 'pdf') {
+      return res.status(400).json({ error: 'Only PDF, CSV and OFX/QFX files are supported for statement import' });
     }
     
     let data;
@@ -217,9 +397,10 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
     
     const parsed: Array<{ date: Date; description: string; category: string; amount: number; type: TransactionType }> = [];
     const errors: string[] = [];
+    const diagnostics: LineDiagnostic[] = [];
     
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+      const line = lines[i]!;
       
       // Debug: Log first 10 lines to see the actual format
       if (i < 10) {
@@ -227,6 +408,10 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
       }
       
       const result = parseStatementLine(line);
+      const fail = (message: string) => {
+        errors.push(`Line ${i + 1}: ${message}`);
+        diagnostics.push({ line: i + 1, text: line, status: 'error', message });
+      };
       
       if (result) {
         try {
@@ -234,12 +419,12 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
           const parsedAmount = parseFloat(result.amount);
           
           if (isNaN(parsedDate.getTime())) {
-            errors.push(`Line ${i + 1}: Invalid date format`);
+            fail('Invalid date format');
             continue;
           }
           
           if (isNaN(parsedAmount)) {
-            errors.push(`Line ${i + 1}: Invalid amount`);
+            fail('Invalid amount');
             continue;
           }
           
@@ -250,9 +435,12 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
             amount: parsedAmount,
             type: result.type as TransactionType
           });
+          diagnostics.push({ line: i + 1, text: line, status: 'parsed' });
         } catch (error) {
-          errors.push(`Line ${i + 1}: Parse error - ${error}`);
+          fail(`Parse error - ${error}`);
         }
+      } else {
+        diagnostics.push({ line: i + 1, text: line, status: 'skipped', message: 'Not in "date description category amount type" layout' });
       }
     }
     
@@ -261,6 +449,11 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
       console.log('⚠️ Errors:', errors);
     }
     
+    const categorised = await categoriseRows(req.userId!, parsed);
+    if (isDryRun(req)) {
+      return res.json(await previewResponse(req.userId!, req.file, categorised, diagnostics));
+    }
+    
     if (parsed.length === 0) {
       return res.status(400).json({ 
         error: 'No valid transactions found in PDF',
@@ -271,25 +464,23 @@ router.post('/statement', requireAuth, upload.single('file'), async (req: AuthRe
       });
     }
     
-    const created = await prisma.$transaction(
-      parsed.map((transaction) =>
-        prisma.transaction.create({
-          data: {
-            userId: req.userId!,
-            type: transaction.type,
-            amount: transaction.amount,
-            category: transaction.category,
-            description: transaction.description,
-            date: transaction.date,
-          },
-        })
-      )
+    const { fresh, duplicates } = await partitionDuplicates(req.userId!, categorised);
+    
+    const fileHash = hashFile(req.file.buffer);
+    const previousImport = await findPreviousImport(req.userId!, fileHash);
+    const { batch, created } = await importTransactions(
+      req.userId!,
+      { source: 'statement', filename: req.file.originalname, fileHash, accountId: account.accountId },
+      fresh
     );
     
     res.json({ 
       imported: created.length,
       skipped: lines.length - parsed.length,
-      errors: errors.length > 0 ? errors.slice(0, 10) : undefined
+      errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+      duplicates,
+      batchId: batch?.id ?? null,
+      previousImport
     });
   } catch (error) {
     console.error('Statement upload error:', error);
@@ -314,33 +505,20 @@ function cleanTextForAI(text: string, maxLength: number = 4000): string {
   return cleaned;
 }
 
-// Retry logic for API calls
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> {
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const isLastAttempt = i === maxRetries - 1;
-      const isRetryableError = error?.status === 503 || error?.status === 429 || error?.code === 'UNAVAILABLE';
-      
-      if (isLastAttempt || !isRetryableError) {
-        throw error;
-      }
-      
-      const delay = baseDelay * Math.pow(2, i); // Exponential backoff
-      console.log(`⏳ Retry attempt ${i + 1}/${maxRetries} after ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw new Error('Max retries exceeded');
-}
+// Rows as returned by the model; missing or malformed fields get defaults.
+// Wrapped in an object because JSON modes (OpenAI's json_object) only
+// produce objects at the top level.
+const aiReceiptSchema = z.object({
+  transactions: z.array(z.object({
+    date: z.string().nullish(),
+    description: z.coerce.string().nullish(),
+    category: z.string().nullish(),
+    amount: z.coerce.number().catch(0),
+    type: z.enum(['INCOME', 'EXPENSE']).catch('EXPENSE')
+  }))
+});
 
-// AI Receipt Analyzer - Extract text and analyze with Gemini
+// AI Receipt Analyzer - Extract text and analyze with the configured LLM provider
 router.post('/ai-receipt', requireAuth, upload.single('file'), async (req: AuthRequest, res) => {
   try {
     if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
@@ -384,13 +562,15 @@ router.post('/ai-receipt', requireAuth, upload.single('file'), async (req: AuthR
     const cleanedText = cleanTextForAI(text, 3500); // Leave room for prompt
     console.log('🧹 Cleaned text for AI:', cleanedText.length, 'characters');
     
-    // Call Gemini API to analyze the receipt with retry logic
-    const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-    if (!GEMINI_API_KEY) {
-      return res.status(500).json({ error: 'GEMINI_API_KEY not configured in environment variables' });
+    let provider;
+    try {
+      provider = getLlmProvider();
+    } catch (error) {
+      if (error instanceof LlmError) return res.status(500).json({ error: error.message });
+      throw error;
     }
     
-    const prompt = `You are a receipt parser. Extract transaction fields and return ONLY a JSON array, no other text.
+    const prompt = `You are a receipt parser. Extract transaction fields and return ONLY a JSON object with a "transactions" array, no other text.
 
 Each transaction must have these exact fields:
 - date: ISO date string (YYYY-MM-DD format). If no date found, use today's date: ${new Date().toISOString().split('T')[0]}
@@ -399,8 +579,8 @@ Each transaction must have these exact fields:
 - amount: Number (just the number, no currency symbols)
 - type: Either "INCOME" or "EXPENSE" (most receipts are EXPENSE)
 
-Return ONLY valid JSON array format like this:
-[{"date":"2025-01-15","description":"Coffee Shop","category":"Dining","amount":12.50,"type":"EXPENSE"}]
+Return ONLY valid JSON in this format:
+{"transactions":[{"date":"2025-01-15","description":"Coffee Shop","category":"Dining","amount":12.50,"type":"EXPENSE"}]}
 
 Receipt text:
 """
@@ -408,102 +588,49 @@ ${cleanedText}
 """`;
 
     try {
-      // Use gemini-2.0-flash-exp (original model)
-      const modelName = 'gemini-2.0-flash-exp';
-      const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent`;
+      console.log('🤖 Calling LLM provider:', provider.name, provider.model);
       
-      console.log('🤖 Calling Gemini API with model:', modelName);
-      
-      const result = await retryWithBackoff(async () => {
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-goog-api-key': GEMINI_API_KEY,
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: prompt
-              }]
-            }],
-            generationConfig: {
-              temperature: 0.1,
-              maxOutputTokens: 2048
-            }
-          })
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error('❌ Gemini API error:', JSON.stringify(errorData, null, 2));
-          
-          const error: any = new Error(errorData.error?.message || 'Gemini API request failed');
-          error.status = errorData.error?.code || response.status;
-          error.code = errorData.error?.status;
-          throw error;
-        }
-        
-        return response.json();
-      }, 3, 2000); // 3 retries with 2 second base delay
-      
-      console.log('✅ Gemini API response received');
-      
-      const aiText = result.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (!aiText) {
-        return res.status(500).json({ error: 'No response from AI' });
-      }
-      
-      console.log('🧩 Gemini raw output:', aiText.substring(0, 200) + '...');
-      
-      // Extract JSON from the response (Gemini sometimes wraps it in markdown)
-      let jsonText = aiText.trim();
-      if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      } else if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```\n?/g, '');
-      }
-      
-      const transactions = JSON.parse(jsonText);
-      
-      if (!Array.isArray(transactions)) {
-        return res.status(500).json({ error: 'AI returned invalid format' });
-      }
+      const { transactions } = await provider.generateJson(prompt, aiReceiptSchema, { temperature: 0.1, maxOutputTokens: 2048 });
       
       console.log('✅ Successfully parsed:', transactions.length, 'transactions');
       
-      // Validate and format transactions
-      const validatedTransactions = transactions.map((t: any) => ({
+      // Fill in anything the model left out; the user's rules override the model's category
+      const validatedTransactions = await categoriseRows(req.userId!, transactions.map((t) => ({
         date: t.date || new Date().toISOString().split('T')[0],
-        description: String(t.description || 'Unknown'),
-        category: String(t.category || 'Uncategorized'),
-        amount: parseFloat(t.amount) || 0,
-        type: (t.type === 'INCOME' || t.type === 'EXPENSE') ? t.type : 'EXPENSE'
-      }));
+        description: t.description || 'Unknown',
+        category: t.category || 'Uncategorized',
+        amount: t.amount,
+        type: t.type
+      })));
       
-      // Return extracted transactions for user review
+      // Return extracted transactions for user review. The file details are
+      // echoed back on confirm so the import batch records where rows came from.
+      const fileHash = hashFile(req.file.buffer);
       res.json({ 
         extractedText: text.substring(0, 500) + (text.length > 500 ? '...' : ''),
-        transactions: validatedTransactions
+        transactions: validatedTransactions,
+        file: { name: req.file.originalname, hash: fileHash },
+        previousImport: await findPreviousImport(req.userId!, fileHash)
       });
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('❌ AI analysis error:', error);
+      if (!(error instanceof LlmError)) throw error;
       
       // Provide helpful error messages
-      if (error.code === 'UNAVAILABLE' || error.status === 503) {
+      if (error.code === 'overloaded') {
         return res.status(503).json({ 
           error: 'AI service is temporarily overloaded. Please try again in a few moments.',
           retryable: true
         });
-      } else if (error.status === 429) {
+      } else if (error.code === 'rate_limited') {
         return res.status(429).json({ 
           error: 'Rate limit exceeded. Please wait a moment before trying again.',
           retryable: true
         });
       } else {
         return res.status(500).json({ 
-          error: 'Failed to analyze receipt with AI: ' + (error.message || 'Unknown error'),
+          error: 'Failed to analyze receipt with AI: ' + error.message,
           details: 'Please try uploading a clearer image or PDF'
         });
       }
@@ -515,42 +642,52 @@ ${cleanedText}
   }
 });
 
-// Confirm AI-analyzed transactions
-const confirmSchema = z.object({
+// Saves reviewed rows from any importer (dry-run receipt/statement or AI analysis)
+const commitSchema = z.object({
+  source: z.enum(IMPORT_SOURCES).default('ai-receipt'),
   transactions: z.array(z.object({
     date: z.string().transform((s) => new Date(s)),
     description: z.string(),
     category: z.string(),
     amount: z.number().positive(),
-    type: z.enum(['INCOME', 'EXPENSE'])
-  }))
+    type: z.enum(['INCOME', 'EXPENSE']),
+    externalId: z.string().optional(),
+    tags: z.array(z.string()).optional()
+  })),
+  // Set when the user chose to keep rows previously flagged as duplicates
+  allowDuplicates: z.boolean().optional(),
+  // Append to the batch of the upload these rows came from instead of starting a new one
+  importBatchId: z.string().optional(),
+  filename: z.string().optional(),
+  fileHash: z.string().optional(),
+  // Ignored when appending to a batch, whose rows share the batch's account
+  accountId: z.string().optional()
 });
 
-router.post('/ai-receipt/confirm', requireAuth, async (req: AuthRequest, res) => {
+// /ai-receipt/confirm predates /commit and is kept for existing clients
+router.post(['/commit', '/ai-receipt/confirm'], requireAuth, async (req: AuthRequest, res) => {
   try {
-    const parse = confirmSchema.safeParse(req.body);
+    const parse = commitSchema.safeParse(req.body);
     if (!parse.success) return res.status(400).json({ error: parse.error.flatten() });
     
-    const { transactions } = parse.data;
-    
-    const created = await prisma.$transaction(
-      transactions.map((t) =>
-        prisma.transaction.create({
-          data: {
-            userId: req.userId!,
-            type: t.type as TransactionType,
-            amount: t.amount,
-            category: t.category,
-            description: t.description,
-            date: t.date,
-          },
-        })
-      )
+    const { source, transactions, allowDuplicates, importBatchId, filename, fileHash } = parse.data;
+    const account = await resolveAccountId(req.userId!, parse.data.accountId);
+    if ('error' in account) return res.status(400).json({ error: account.error });
+    
+    const { fresh, duplicates } = allowDuplicates
+      ? { fresh: transactions, duplicates: [] }
+      : await partitionDuplicates(req.userId!, transactions);
+    
+    const { batch, created } = await importTransactions(
+      req.userId!,
+      importBatchId ? { batchId: importBatchId } : { source, filename, fileHash, accountId: account.accountId },
+      fresh
     );
+    if (!batch) return res.status(404).json({ error: 'Import batch not found' });
     
-    res.json({ imported: created.length, items: created });
+    res.json({ imported: created.length, items: created, duplicates, batchId: batch.id });
   } catch (error) {
-    console.error('AI confirm error:', error);
+    console.error('Import commit error:', error);
     res.status(500).json({ error: 'Failed to save transactions' });
   }
 });
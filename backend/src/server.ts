@@ -9,6 +9,22 @@ import transactionRoutes from './routes/transactions';
 import uploadRoutes from './routes/uploads';
 import chatbotRoutes from './routes/chatbot';
 import budgetRoutes from './routes/budget'; // NEW LINE
+import recurringRoutes from './routes/recurring';
+import importRoutes from './routes/imports';
+import ruleRoutes from './routes/rules';
+import categoryRoutes from './routes/categories';
+import accountRoutes from './routes/accounts';
+import currencyRoutes from './routes/currencies';
+import meRoutes from './routes/me';
+import goalRoutes from './routes/goals';
+import debtRoutes from './routes/debts';
+import forecastRoutes from './routes/forecast';
+import insightRoutes from './routes/insights';
+import alertRoutes from './routes/alerts';
+import notificationRoutes from './routes/notifications';
+import digestRoutes from './routes/digest';
+import { startRecurringScheduler } from './lib/recurring';
+import { startDigestScheduler } from './lib/digest';
 
 dotenv.config();
 
@@ -27,9 +43,25 @@ app.use('/api/transactions', transactionRoutes);
 app.use('/api/uploads', uploadRoutes);
 app.use('/api/chatbot', chatbotRoutes);
 app.use('/api/budget', budgetRoutes); // NEW LINE
+app.use('/api/recurring', recurringRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/accounts', accountRoutes);
+app.use('/api/currencies', currencyRoutes);
+app.use('/api/me', meRoutes);
+app.use('/api/goals', goalRoutes);
+app.use('/api/debts', debtRoutes);
+app.use('/api/forecast', forecastRoutes);
+app.use('/api/insights', insightRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/digest', digestRoutes);
 
 const port = process.env.PORT ? Number(process.env.PORT) : 4000;
 app.listen(port, () => {
   
   console.log(`API server listening on http://localhost:${port}`);
+  startRecurringScheduler();
+  startDigestScheduler();
 });
\ No newline at end of file
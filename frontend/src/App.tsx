@@ -1,5 +1,7 @@
 import { Outlet, Link, useNavigate } from 'react-router-dom';
 import { getToken, logout } from './lib/api';
+import AlertBell from './components/AlertBell';
+import NotificationBell from './components/NotificationBell';
 
 
 export default function App() {
@@ -24,12 +26,35 @@ export default function App() {
                 <Link to="/transactions" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
                   Transactions
                 </Link>
+                <Link to="/accounts" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Accounts
+                </Link>
+                <Link to="/debts" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Debts
+                </Link>
+                <Link to="/subscriptions" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Subscriptions
+                </Link>
+                <Link to="/currencies" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Currencies
+                </Link>
                 <Link to="/upload" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
                   Import
                 </Link>
+                <Link to="/categories" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Categories
+                </Link>
+                <Link to="/rules" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Rules
+                </Link>
                 <Link to="/chatbot" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
                   Chatbot
                 </Link>
+                <NotificationBell />
+                <AlertBell />
+                <Link to="/settings" className="px-5 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all font-medium">
+                  Settings
+                </Link>
                 <button 
                   className="ml-3 px-5 py-2.5 rounded-lg border border-slate-300 text-slate-700 hover:bg-slate-50 hover:border-slate-400 transition-all font-medium"
                   onClick={() => logout()}
@@ -0,0 +1,25 @@
+import { useAccounts } from '../hooks/use-accounts'
+
+// Dropdown of the user's open accounts; the blank option means "no account"
+// (or "all accounts" when used as a filter)
+export default function AccountSelect({ value, onChange, blankLabel, className }: {
+  value: string
+  onChange: (accountId: string) => void
+  blankLabel: string
+  className?: string
+}) {
+  const { data: accounts = [] } = useAccounts({ includeArchived: true })
+  // Archived accounts stay selectable only if already chosen
+  const options = accounts.filter((a) => !a.archived || a.id === value)
+
+  return (
+    <select className={className} value={value} onChange={(e) => onChange(e.target.value)}>
+      <option value="">{blankLabel}</option>
+      {options.map((a) => (
+        <option key={a.id} value={a.id}>
+          {a.name}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,118 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useAlerts } from '../hooks/use-alerts'
+import { useFormat } from '../hooks/use-preferences'
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  return error.message || fallback
+}
+
+// Header bell with the unread count; opens a list of unusual transactions
+export default function AlertBell() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [open, setOpen] = useState(false)
+  const { data } = useAlerts()
+  const alerts = data?.items ?? []
+  const unread = data?.unread ?? 0
+
+  const onError = (error: ApiError) => toast.error(errorMessage(error, 'Could not update alert'))
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/api/alerts/${id}/read`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['alerts'] }),
+    onError,
+  })
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/alerts/read-all')
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['alerts'] }),
+    onError,
+  })
+
+  const dismiss = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/api/alerts/${id}/dismiss`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['alerts'] }),
+    onError,
+  })
+
+  return (
+    <div className="relative">
+      <button
+        className="relative px-3 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all"
+        aria-label={unread > 0 ? `${unread} unread alerts` : 'Alerts'}
+        onClick={() => setOpen(!open)}
+      >
+        <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+          <path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+          <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+        </svg>
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white rounded-2xl shadow-xl border border-slate-200 z-50">
+          <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+            <span className="font-bold text-slate-800">Alerts</span>
+            {unread > 0 && (
+              <button className="text-xs font-bold text-blue-700 hover:underline disabled:opacity-50" disabled={markAllRead.isPending} onClick={() => markAllRead.mutate()}>
+                Mark all read
+              </button>
+            )}
+          </div>
+          {alerts.length === 0 ? (
+            <div className="px-5 py-6 text-sm text-slate-500 font-medium">Nothing unusual lately.</div>
+          ) : (
+            <ul>
+              {alerts.map((alert) => (
+                <li
+                  key={alert.id}
+                  className={`px-5 py-3 border-b border-slate-100 text-sm ${alert.readAt ? '' : 'bg-blue-50/60'}`}
+                  onClick={() => {
+                    if (!alert.readAt && !markRead.isPending) markRead.mutate(alert.id)
+                  }}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <div className="font-bold text-slate-800">{alert.title}</div>
+                      <div className="text-xs text-slate-500">
+                        {alert.transaction.description || alert.transaction.category} · {fmt.money(alert.transaction.amount, alert.transaction.currency)} · {fmt.date(alert.transaction.date)}
+                      </div>
+                    </div>
+                    <button
+                      className="text-xs font-bold text-slate-500 hover:text-red-600 disabled:opacity-50"
+                      disabled={dismiss.isPending}
+                      onClick={() => dismiss.mutate(alert.id)}
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                  <ul className="mt-1 list-disc list-inside text-slate-600">
+                    {alert.reasons.map((reason) => (
+                      <li key={reason.kind}>{reason.message}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
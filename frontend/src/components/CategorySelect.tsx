@@ -0,0 +1,41 @@
+import { useCategories } from '../hooks/use-categories'
+
+const NEW_CATEGORY = '__new__'
+
+// Dropdown of the user's categories. "New category…" asks for a name, which the
+// server creates on save; a current value that is not a known category (an
+// importer's guess, say) stays selectable so it is never silently replaced.
+export default function CategorySelect({ value, onChange, type, blankLabel, className }: {
+  value: string
+  onChange: (category: string) => void
+  type?: 'INCOME' | 'EXPENSE' | 'TRANSFER'
+  blankLabel?: string
+  className?: string
+}) {
+  const { data: categories = [] } = useCategories()
+  const options = categories.filter((c) => !type || !c.type || c.type === type)
+  const known = !value || options.some((c) => c.name === value)
+  const parentNames = new Map(categories.map((c) => [c.id, c.name]))
+
+  return (
+    <select
+      className={className}
+      value={value}
+      onChange={(e) => {
+        if (e.target.value !== NEW_CATEGORY) return onChange(e.target.value)
+        const name = window.prompt('New category name')?.trim()
+        if (name) onChange(name)
+      }}
+    >
+      {blankLabel !== undefined && <option value="">{blankLabel}</option>}
+      {!known && <option value={value}>{value}</option>}
+      {options.map((c) => (
+        <option key={c.id} value={c.name}>
+          {c.icon ? `${c.icon} ` : ''}
+          {c.parentId && parentNames.has(c.parentId) ? `${parentNames.get(c.parentId)} › ${c.name}` : c.name}
+        </option>
+      ))}
+      <option value={NEW_CATEGORY}>New category…</option>
+    </select>
+  )
+}
@@ -0,0 +1,179 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+
+type Frequency = 'OFF' | 'WEEKLY' | 'MONTHLY'
+type Section = 'summary' | 'budget' | 'categories'
+
+type DigestPreferences = {
+  frequency: Frequency
+  sections: Section[]
+  lastPeriodEnd: string | null
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const SECTION_LABELS: Record<Section, string> = {
+  summary: 'Income, spending and savings',
+  budget: 'Budget status',
+  categories: 'Top spending categories',
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+// Email digest settings for the Settings page. Changes save straight away.
+export default function DigestSettings() {
+  const qc = useQueryClient()
+  const [preview, setPreview] = useState<{ subject: string; html: string } | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['digest-preferences'],
+    queryFn: async () => {
+      const res = await api.get('/api/digest/preferences')
+      return res.data as DigestPreferences
+    },
+  })
+
+  const { data: me } = useQuery({
+    queryKey: ['me'],
+    queryFn: async () => {
+      const res = await api.get('/api/me')
+      return res.data as { email: string; emailVerified: boolean }
+    },
+  })
+
+  const resend = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/auth/verify/resend')
+    },
+    onSuccess: () => toast.success(`Confirmation link sent to ${me?.email}`),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not send the email')),
+  })
+
+  const save = useMutation({
+    mutationFn: async (patch: Partial<Pick<DigestPreferences, 'frequency' | 'sections'>>) => {
+      const res = await api.patch('/api/digest/preferences', patch)
+      return res.data as DigestPreferences
+    },
+    onSuccess: (prefs) => {
+      qc.setQueryData(['digest-preferences'], prefs)
+      setPreview(null)
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not save digest settings')),
+  })
+
+  // Previews and test sends cover the last full period; "Off" previews a week
+  const frequency = data?.frequency === 'MONTHLY' ? 'MONTHLY' : 'WEEKLY'
+
+  const loadPreview = useMutation({
+    mutationFn: async () => {
+      const res = await api.get(`/api/digest/preview?frequency=${frequency}`)
+      return res.data as { subject: string; html: string }
+    },
+    onSuccess: setPreview,
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not build preview')),
+  })
+
+  const send = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/digest/send', { frequency })
+    },
+    onSuccess: () => toast.success('Digest sent to your email address'),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not send digest')),
+  })
+
+  const toggleSection = (section: Section) => {
+    if (!data) return
+    const sections = data.sections.includes(section) ? data.sections.filter((s) => s !== section) : [...data.sections, section]
+    save.mutate({ sections })
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <span className="w-1.5 h-8 bg-gradient-to-b from-indigo-600 to-indigo-800 rounded-full"></span>
+        Email Digest
+      </h2>
+      {me && !me.emailVerified && (
+        <div className="mb-6 p-4 rounded-xl bg-amber-50 border border-amber-200 flex items-center gap-4 text-sm">
+          <p className="flex-1 text-amber-900 font-medium">
+            Digests are only sent once you confirm <span className="font-bold">{me.email}</span> with the link we emailed you.
+          </p>
+          <button
+            className="px-4 py-2 rounded-lg font-bold text-amber-900 hover:bg-amber-100 transition-all disabled:opacity-50"
+            disabled={resend.isPending}
+            onClick={() => resend.mutate()}
+          >
+            {resend.isPending ? 'Sending...' : 'Resend link'}
+          </button>
+        </div>
+      )}
+      {isLoading || !data ? (
+        <div className="text-slate-500 font-medium">Loading...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Send a summary</label>
+              <select
+                className={`${inputClass} font-medium`}
+                value={data.frequency}
+                disabled={save.isPending}
+                onChange={(e) => save.mutate({ frequency: e.target.value as Frequency })}
+              >
+                <option value="OFF">Never</option>
+                <option value="WEEKLY">Every week</option>
+                <option value="MONTHLY">Every month</option>
+              </select>
+            </div>
+            <div className="lg:col-span-3">
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Include</label>
+              <div className="flex flex-wrap gap-5 py-3">
+                {(Object.keys(SECTION_LABELS) as Section[]).map((section) => (
+                  <label key={section} className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <input type="checkbox" checked={data.sections.includes(section)} disabled={save.isPending} onChange={() => toggleSection(section)} />
+                    {SECTION_LABELS[section]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <p className="mt-5 text-sm text-slate-500">
+            Weekly digests cover the last full week, starting on your first day of the week; monthly ones the last calendar month. Quiet periods are skipped.
+          </p>
+          <div className="mt-6 flex gap-3">
+            <button
+              className="px-6 py-3 rounded-xl border-2 border-blue-200 text-blue-700 hover:bg-blue-50 transition-all font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={loadPreview.isPending}
+              onClick={() => loadPreview.mutate()}
+            >
+              {loadPreview.isPending ? 'Loading...' : 'Preview'}
+            </button>
+            <button
+              className="px-6 py-3 rounded-xl border-2 border-slate-200 text-slate-700 hover:bg-slate-50 transition-all font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={send.isPending}
+              onClick={() => send.mutate()}
+            >
+              {send.isPending ? 'Sending...' : 'Send me one now'}
+            </button>
+          </div>
+          {preview && (
+            <div className="mt-6 border-2 border-slate-200 rounded-xl overflow-hidden">
+              <div className="px-4 py-2 bg-slate-50 text-sm font-bold text-slate-700 border-b border-slate-200">{preview.subject}</div>
+              {/* Sandboxed: the digest is rendered server-side from the user's own data */}
+              <iframe title="Digest preview" className="w-full h-[32rem] bg-white" sandbox="" srcDoc={preview.html} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useGoals } from '../hooks/use-goals'
+import type { Goal, GoalStatus } from '../hooks/use-goals'
+import { useFormat } from '../hooks/use-preferences'
+import AccountSelect from './AccountSelect'
+import CategorySelect from './CategorySelect'
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+type GoalForm = {
+  name: string
+  targetAmount: string
+  targetDate: string
+  link: 'account' | 'category'
+  accountId: string
+  category: string
+}
+
+const EMPTY_FORM: GoalForm = { name: '', targetAmount: '', targetDate: '', link: 'account', accountId: '', category: '' }
+
+const STATUS_BADGES: Record<GoalStatus, { label: string; className: string }> = {
+  achieved: { label: 'Achieved', className: 'bg-emerald-100 text-emerald-800' },
+  on_track: { label: 'On track', className: 'bg-blue-100 text-blue-800' },
+  at_risk: { label: 'At risk', className: 'bg-amber-100 text-amber-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  open: { label: 'No deadline', className: 'bg-slate-100 text-slate-700' },
+}
+
+// A contribution moves balances and category totals as well as the goal
+const CONTRIBUTION_QUERIES = ['goals', 'transactions', 'accounts', 'summary', 'trends', 'forecast', 'stats', 'budget-status', 'budget-history', 'category-budget-status']
+
+const inputClass = 'w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-teal-500 focus:ring-4 focus:ring-teal-100 outline-none transition-all bg-white text-slate-900'
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+export default function GoalsPanel() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [form, setForm] = useState<GoalForm>(EMPTY_FORM)
+  // Contribution being entered, per goal
+  const [contribution, setContribution] = useState<{ goalId: string; amount: string; accountId: string } | null>(null)
+  const { data } = useGoals()
+
+  const createGoal = useMutation({
+    mutationFn: async (f: GoalForm) => {
+      const res = await api.post('/api/goals', {
+        name: f.name.trim(),
+        targetAmount: Number(f.targetAmount),
+        targetDate: f.targetDate || null,
+        ...(f.link === 'account' ? { accountId: f.accountId } : { category: f.category }),
+      })
+      return res.data as Goal
+    },
+    onSuccess: () => {
+      toast.success('Goal added')
+      setForm(EMPTY_FORM)
+      qc.invalidateQueries({ queryKey: ['goals'] })
+      qc.invalidateQueries({ queryKey: ['categories'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not add goal')),
+  })
+
+  const contribute = useMutation({
+    mutationFn: async (c: { goalId: string; amount: number; accountId: string }) => {
+      const res = await api.post(`/api/goals/${c.goalId}/contributions`, { amount: c.amount, accountId: c.accountId || undefined })
+      return res.data as { goal: Goal }
+    },
+    onSuccess: (result) => {
+      toast.success(`${result.goal.name}: ${result.goal.progress.percent}% saved`)
+      setContribution(null)
+      for (const key of CONTRIBUTION_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not record contribution')),
+  })
+
+  const removeGoal = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/goals/${id}`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['goals'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete goal')),
+  })
+
+  const goals = data?.items ?? []
+  const linked = form.link === 'account' ? form.accountId : form.category
+
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <span className="w-1.5 h-8 bg-gradient-to-b from-teal-600 to-teal-800 rounded-full"></span>
+        Savings Goals
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end mb-6">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">Goal</label>
+          <input placeholder="e.g., Emergency fund" className={inputClass} value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">Target</label>
+          <input type="number" step="0.01" placeholder="e.g., 5000" className={inputClass} value={form.targetAmount} onChange={(e) => setForm({ ...form, targetAmount: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">By (optional)</label>
+          <input type="date" className={inputClass} value={form.targetDate} onChange={(e) => setForm({ ...form, targetDate: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">
+            <select className="bg-transparent font-semibold" value={form.link} onChange={(e) => setForm({ ...form, link: e.target.value as GoalForm['link'] })}>
+              <option value="account">Saved in account</option>
+              <option value="category">Tracked by category</option>
+            </select>
+          </label>
+          {form.link === 'account' ? (
+            <AccountSelect className={`${inputClass} font-medium`} blankLabel="Choose…" value={form.accountId} onChange={(accountId) => setForm({ ...form, accountId })} />
+          ) : (
+            <CategorySelect className={`${inputClass} font-medium`} blankLabel="Choose…" type="EXPENSE" value={form.category} onChange={(category) => setForm({ ...form, category })} />
+          )}
+        </div>
+        <button
+          className="px-8 py-3 rounded-xl bg-gradient-to-r from-teal-600 to-teal-700 text-white font-bold hover:from-teal-700 hover:to-teal-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!form.name.trim() || !(Number(form.targetAmount) > 0) || !linked || createGoal.isPending}
+          onClick={() => createGoal.mutate(form)}
+        >
+          {createGoal.isPending ? 'Saving...' : 'Add Goal'}
+        </button>
+      </div>
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-slate-500 font-medium">
+          No goals yet. Link one to a savings account to count its balance, or to a category to count what you file under it.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {goals.map((goal) => {
+            const p = goal.progress
+            const badge = STATUS_BADGES[p.status]
+            const money = (amount: number) => fmt.money(amount, goal.currency)
+            const editing = contribution?.goalId === goal.id ? contribution : null
+            return (
+              <div key={goal.id} className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-teal-50 p-5">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="font-bold text-slate-800">{goal.name}</div>
+                    <div className="text-xs font-medium text-slate-500">
+                      {goal.accountName ? `In ${goal.accountName}` : `Category: ${goal.category ?? '—'}`}
+                      {goal.targetDate && ` · by ${fmt.date(goal.targetDate)}`}
+                    </div>
+                  </div>
+                  <span className={`inline-flex px-3 py-1 rounded-full text-xs font-bold ${badge.className}`}>{badge.label}</span>
+                </div>
+                <div className="mt-4 h-3 rounded-full bg-slate-200 overflow-hidden">
+                  <div className={`h-full rounded-full ${p.status === 'at_risk' || p.status === 'overdue' ? 'bg-amber-500' : 'bg-teal-600'}`} style={{ width: `${p.percent}%` }} />
+                </div>
+                <div className="mt-2 text-sm font-medium text-slate-700">
+                  {money(p.saved)} of {money(goal.targetAmount)} ({p.percent}%)
+                </div>
+                <div className="text-xs font-medium text-slate-500">
+                  {p.requiredMonthly !== null && p.remaining > 0 && `Needs ${money(p.requiredMonthly)}/month · `}
+                  Saving {money(p.monthlyPace)}/month
+                  {p.remaining > 0 && p.projectedDate && ` · reached around ${fmt.month(p.projectedDate)}`}
+                </div>
+                {editing ? (
+                  <div className="mt-4 flex flex-wrap gap-2 items-center">
+                    <input
+                      type="number"
+                      step="0.01"
+                      placeholder="Amount"
+                      className="w-28 px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                      value={editing.amount}
+                      onChange={(e) => setContribution({ ...editing, amount: e.target.value })}
+                    />
+                    <AccountSelect
+                      className="px-3 py-2 rounded-lg border-2 border-slate-200 text-sm"
+                      blankLabel={goal.accountId ? 'From account…' : 'No account'}
+                      value={editing.accountId}
+                      onChange={(accountId) => setContribution({ ...editing, accountId })}
+                    />
+                    <button
+                      className="px-3 py-2 rounded-lg text-sm font-bold text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-50"
+                      disabled={!(Number(editing.amount) > 0) || (!!goal.accountId && !editing.accountId) || contribute.isPending}
+                      onClick={() => contribute.mutate({ goalId: goal.id, amount: Number(editing.amount), accountId: editing.accountId })}
+                    >
+                      Save
+                    </button>
+                    <button className="px-3 py-2 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100" onClick={() => setContribution(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="mt-4 flex gap-2">
+                    <button
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold text-teal-700 hover:bg-teal-100 transition-all"
+                      onClick={() => setContribution({ goalId: goal.id, amount: '', accountId: '' })}
+                    >
+                      Add contribution
+                    </button>
+                    <button
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold text-red-700 hover:bg-red-100 transition-all"
+                      onClick={() => {
+                        if (window.confirm(`Delete goal "${goal.name}"? Its contributions stay as transactions.`)) removeGoal.mutate(goal.id)
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
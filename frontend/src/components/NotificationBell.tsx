@@ -0,0 +1,110 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useNotifications, useNotificationStream } from '../hooks/use-notifications'
+import type { NotificationLevel } from '../hooks/use-notifications'
+import { useFormat } from '../hooks/use-preferences'
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  return error.message || fallback
+}
+
+const LEVEL_DOTS: Record<NotificationLevel, string> = {
+  INFO: 'bg-blue-500',
+  WARNING: 'bg-amber-500',
+  CRITICAL: 'bg-red-600',
+}
+
+// Header inbox for rule notifications; also keeps the event stream open
+export default function NotificationBell() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [open, setOpen] = useState(false)
+  const { data } = useNotifications()
+  useNotificationStream()
+  const notifications = data?.items ?? []
+  const unread = data?.unread ?? 0
+
+  const onError = (error: ApiError) => toast.error(errorMessage(error, 'Could not update notification'))
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/api/notifications/${id}/read`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['notifications'] }),
+    onError,
+  })
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      await api.post('/api/notifications/read-all')
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['notifications'] }),
+    onError,
+  })
+
+  return (
+    <div className="relative">
+      <button
+        className="relative px-3 py-2.5 rounded-lg text-slate-700 hover:bg-blue-50 hover:text-blue-700 transition-all"
+        aria-label={unread > 0 ? `${unread} unread notifications` : 'Notifications'}
+        onClick={() => setOpen(!open)}
+      >
+        <svg className="w-5 h-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+          <path d="M22 12h-6l-2 3h-4l-2-3H2" />
+          <path d="M5.45 5.11 2 12v6a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-6l-3.45-6.89A2 2 0 0 0 16.76 4H7.24a2 2 0 0 0-1.79 1.11z" />
+        </svg>
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[28rem] overflow-y-auto bg-white rounded-2xl shadow-xl border border-slate-200 z-50">
+          <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+            <span className="font-bold text-slate-800">Notifications</span>
+            <div className="flex items-center gap-3">
+              {unread > 0 && (
+                <button className="text-xs font-bold text-blue-700 hover:underline disabled:opacity-50" disabled={markAllRead.isPending} onClick={() => markAllRead.mutate()}>
+                  Mark all read
+                </button>
+              )}
+              <Link to="/notifications" className="text-xs font-bold text-slate-600 hover:underline" onClick={() => setOpen(false)}>
+                Rules
+              </Link>
+            </div>
+          </div>
+          {notifications.length === 0 ? (
+            <div className="px-5 py-6 text-sm text-slate-500 font-medium">No notifications yet.</div>
+          ) : (
+            <ul>
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`px-5 py-3 border-b border-slate-100 text-sm ${notification.readAt ? '' : 'bg-blue-50/60'}`}
+                  onClick={() => {
+                    if (!notification.readAt && !markRead.isPending) markRead.mutate(notification.id)
+                  }}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${LEVEL_DOTS[notification.level]}`}></span>
+                    <span className="font-bold text-slate-800">{notification.title}</span>
+                  </div>
+                  <div className="mt-1 text-slate-600">{notification.message}</div>
+                  <div className="mt-1 text-xs text-slate-500">{fmt.date(notification.createdAt)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { api, logout } from '../lib/api'
+import { useFormat } from '../hooks/use-preferences'
+
+type Session = {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+  current: boolean
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  return error.message || fallback
+}
+
+// "Firefox on Windows" from a user-agent string; order matters, since Edge
+// and Chrome also claim to be Safari
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device'
+  const browser = [['Edg/', 'Edge'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']].find(([marker]) => userAgent.includes(marker!))?.[1]
+  const os = [['Android', 'Android'], ['iPhone', 'iOS'], ['iPad', 'iPadOS'], ['Windows', 'Windows'], ['Mac OS', 'macOS'], ['Linux', 'Linux']].find(([marker]) => userAgent.includes(marker!))?.[1]
+  if (!browser && !os) return userAgent.slice(0, 60)
+  return [browser ?? 'Browser', os && `on ${os}`].filter(Boolean).join(' ')
+}
+
+// Signed-in devices for the Settings page, each of which can be signed out
+export default function SessionsPanel() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const res = await api.get('/api/auth/sessions')
+      return res.data as { items: Session[] }
+    },
+  })
+
+  const revoke = useMutation({
+    mutationFn: async (id: string) => {
+      await api.post(`/api/auth/sessions/${id}/revoke`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['sessions'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not sign out device')),
+  })
+
+  const revokeOthers = useMutation({
+    mutationFn: async () => {
+      const res = await api.post('/api/auth/sessions/revoke-others')
+      return res.data as { revoked: number }
+    },
+    onSuccess: ({ revoked }) => {
+      toast.success(revoked === 1 ? 'Signed out 1 other device' : `Signed out ${revoked} other devices`)
+      qc.invalidateQueries({ queryKey: ['sessions'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not sign out other devices')),
+  })
+
+  const sessions = data?.items ?? []
+  const others = sessions.filter((s) => !s.current)
+
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <span className="w-1.5 h-8 bg-gradient-to-b from-slate-600 to-slate-800 rounded-full"></span>
+        Signed-in Devices
+        {others.length > 0 && (
+          <button
+            className="ml-auto px-4 py-2 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+            disabled={revokeOthers.isPending}
+            onClick={() => {
+              if (window.confirm('Sign out every other device?')) revokeOthers.mutate()
+            }}
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </h2>
+      {isLoading ? (
+        <div className="text-slate-500 font-medium">Loading...</div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {sessions.map((s) => (
+            <li key={s.id} className="py-3 flex items-center gap-4 text-sm">
+              <div className="flex-1">
+                <div className="font-bold text-slate-800">
+                  {describeDevice(s.userAgent)}
+                  {s.current && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-bold bg-emerald-100 text-emerald-800">This device</span>}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {s.ip ? `${s.ip} · ` : ''}Signed in {fmt.date(s.createdAt)} · Last active {fmt.date(s.lastUsedAt)}
+                </div>
+              </div>
+              {s.current ? (
+                <button className="px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-all" onClick={() => logout()}>
+                  Log out
+                </button>
+              ) : (
+                <button
+                  className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all disabled:opacity-50"
+                  disabled={revoke.isPending}
+                  onClick={() => revoke.mutate(s.id)}
+                >
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-4 text-sm text-slate-500">A device you sign out stops working within 15 minutes, when its current access token expires.</p>
+    </div>
+  )
+}
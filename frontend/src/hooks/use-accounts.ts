@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+
+export type AccountKind = 'CHECKING' | 'SAVINGS' | 'CREDIT' | 'CASH'
+
+export type Account = {
+  id: string
+  name: string
+  kind: AccountKind
+  currency: string
+  openingBalance: number
+  balance: number
+  archived: boolean
+  transactionCount?: number
+}
+
+export function useAccounts(options: { includeArchived?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['accounts', options.includeArchived ?? false],
+    queryFn: async () => {
+      const res = await api.get(`/api/accounts${options.includeArchived ? '?includeArchived=true' : ''}`)
+      return res.data.items as Account[]
+    },
+  })
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+
+export type AlertReason = { kind: 'amount' | 'merchant' | 'time'; message: string }
+
+export type Alert = {
+  id: string
+  title: string
+  reasons: AlertReason[]
+  score: number
+  readAt: string | null
+  dismissedAt: string | null
+  createdAt: string
+  transaction: { id: string; description: string | null; amount: number; currency: string; category: string; date: string }
+}
+
+// Polled so alerts raised by imports and other tabs show up without a reload
+const POLL_MS = 60_000
+
+export function useAlerts() {
+  return useQuery({
+    queryKey: ['alerts'],
+    queryFn: async () => {
+      const res = await api.get('/api/alerts')
+      return res.data as { items: Alert[]; unread: number }
+    },
+    refetchInterval: POLL_MS,
+  })
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+
+export type Category = {
+  id: string
+  name: string
+  key: string
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER' | null
+  color: string | null
+  icon: string | null
+  parentId: string | null
+  archived: boolean
+  aliases: string[]
+  transactionCount?: number
+}
+
+export function useCategories(options: { includeArchived?: boolean } = {}) {
+  return useQuery({
+    queryKey: ['categories', options.includeArchived ?? false],
+    queryFn: async () => {
+      const res = await api.get(`/api/categories${options.includeArchived ? '?includeArchived=true' : ''}`)
+      return res.data.items as Category[]
+    },
+  })
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+
+export type CurrencyOverview = {
+  baseCurrency: string
+  // Every currency used by a transaction or account, plus the base
+  currencies: string[]
+  // Currencies with no rate to the base, left out of converted totals
+  missingRates: string[]
+}
+
+export function useCurrencies() {
+  return useQuery({
+    queryKey: ['currencies'],
+    queryFn: async () => {
+      const res = await api.get('/api/currencies')
+      return res.data as CurrencyOverview
+    },
+  })
+}
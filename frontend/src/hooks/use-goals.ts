@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+
+export type GoalStatus = 'achieved' | 'on_track' | 'at_risk' | 'overdue' | 'open'
+
+export type GoalProgress = {
+  saved: number
+  remaining: number
+  percent: number
+  monthsLeft: number | null
+  // Needed each month from now to reach the target on time (null without a target date)
+  requiredMonthly: number | null
+  // Average monthly contribution over the last 90 days
+  monthlyPace: number
+  projectedDate: string | null
+  status: GoalStatus
+}
+
+export type Goal = {
+  id: string
+  name: string
+  targetAmount: number
+  currency: string
+  targetDate: string | null
+  // Linked to either an account (its balance counts) or a category
+  accountId: string | null
+  accountName: string | null
+  categoryId: string | null
+  category: string | null
+  startDate: string
+  archived: boolean
+  progress: GoalProgress
+}
+
+export function useGoals() {
+  return useQuery({
+    queryKey: ['goals'],
+    queryFn: async () => {
+      const res = await api.get('/api/goals')
+      return res.data as { items: Goal[]; baseCurrency: string; missingRates?: string[] }
+    },
+  })
+}
@@ -0,0 +1,66 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { toast } from 'sonner'
+import { api, getToken, refreshSession } from '../lib/api'
+
+export type NotificationLevel = 'INFO' | 'WARNING' | 'CRITICAL'
+
+export type Notification = {
+  id: string
+  ruleId: string | null
+  level: NotificationLevel
+  title: string
+  message: string
+  transactionId: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+// Queries a notification can change: the budget ones come from spending, and
+// the bell shows the unread count
+const NOTIFIED_QUERIES = ['notifications', 'budget-status']
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: ['notifications'],
+    queryFn: async () => {
+      const res = await api.get('/api/notifications')
+      return res.data as { items: Notification[]; unread: number }
+    },
+  })
+}
+
+// Listens on the server's event stream and toasts each notification as it is
+// stored, whichever tab or import caused it. EventSource reconnects by itself
+// after network errors; a refused token (expired access token) closes it, so
+// that case refreshes the session and opens a new stream.
+export function useNotificationStream() {
+  const qc = useQueryClient()
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let stopped = false
+
+    const connect = (token: string | null) => {
+      if (!token || stopped) return
+      source = new EventSource(`${api.defaults.baseURL}/api/notifications/stream?access_token=${encodeURIComponent(token)}`)
+      source.addEventListener('notification', (event) => {
+        const notification = JSON.parse((event as MessageEvent<string>).data) as Notification
+        const show = notification.level === 'CRITICAL' ? toast.error : notification.level === 'WARNING' ? toast.warning : toast.info
+        show(notification.title, { description: notification.message, duration: notification.level === 'INFO' ? 4000 : 6000 })
+        for (const key of NOTIFIED_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+      })
+      // Anything stored while disconnected is in the list once it refetches
+      source.addEventListener('open', () => qc.invalidateQueries({ queryKey: ['notifications'] }))
+      source.addEventListener('error', () => {
+        if (source?.readyState === EventSource.CLOSED) refreshSession().then(connect)
+      })
+    }
+
+    connect(getToken())
+    return () => {
+      stopped = true
+      source?.close()
+    }
+  }, [qc])
+}
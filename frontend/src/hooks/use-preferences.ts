@@ -0,0 +1,32 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { api } from '../lib/api'
+import { DEFAULT_PREFERENCES, formatDate, formatDateTime, formatMoney, formatMonth, formatNumber } from '../lib/format'
+import type { Preferences } from '../lib/format'
+
+export function usePreferences() {
+  return useQuery({
+    queryKey: ['preferences'],
+    queryFn: async () => {
+      const res = await api.get('/api/me/preferences')
+      return res.data as Preferences
+    },
+    staleTime: Infinity,
+  })
+}
+
+// Formatters bound to the user's preferences (defaults until they load)
+export function useFormat() {
+  const { data: prefs = DEFAULT_PREFERENCES } = usePreferences()
+  return useMemo(
+    () => ({
+      prefs,
+      money: (amount: number, currency?: string) => formatMoney(amount, prefs, currency),
+      number: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, prefs, options),
+      date: (value: string | Date) => formatDate(value, prefs),
+      dateTime: (value: string | Date) => formatDateTime(value, prefs),
+      month: (value: string | Date) => formatMonth(value, prefs),
+    }),
+    [prefs]
+  )
+}
@@ -1,22 +1,86 @@
 import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 const API_URL =  'http://localhost:4000';
 
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
 export const api = axios.create({
   baseURL: API_URL,
 });
 
 api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+  const token = localStorage.getItem(TOKEN_KEY);
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-export const getToken = () => localStorage.getItem('token');
+export const getToken = () => localStorage.getItem(TOKEN_KEY);
+
+// Stores the pair from /login, /register and /refresh
+export const setSession = (tokens: { token: string; refreshToken: string }) => {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+};
+
+const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// Answered 401 for bad credentials, not for an expired token
+const SIGN_IN_URLS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh', '/api/auth/logout'];
+
+let refreshing: Promise<string | null> | null = null;
+
+// Swaps the refresh token for a new access token; concurrent callers share one
+// request. Resolves to null when the session is gone.
+export const refreshSession = () => {
+  refreshing ??= (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) return null;
+    try {
+      // Plain axios, so a failed refresh does not trigger another refresh
+      const res = await axios.post(`${API_URL}/api/auth/refresh`, { refreshToken });
+      setSession(res.data);
+      return res.data.token as string;
+    } catch {
+      // Another tab may have refreshed with the same token a moment earlier
+      const latest = localStorage.getItem(REFRESH_TOKEN_KEY);
+      return latest && latest !== refreshToken ? localStorage.getItem(TOKEN_KEY) : null;
+    }
+  })().finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+};
+
+// A 401 means the access token expired: refresh once and replay the request.
+// If that fails the session is over and the user signs in again.
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { retried?: boolean }) | undefined;
+  if (error.response?.status !== 401 || !config || config.retried || SIGN_IN_URLS.includes(config.url ?? '')) {
+    throw error;
+  }
+  const token = await refreshSession();
+  if (!token) {
+    clearSession();
+    window.location.href = '/login';
+    throw error;
+  }
+  config.retried = true;
+  config.headers.Authorization = `Bearer ${token}`;
+  return api(config);
+});
 
-export const logout = () => {
-  localStorage.removeItem('token');
+// Revokes the session on the server as well, so the refresh token is useless
+// even if it was copied
+export const logout = async () => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  clearSession();
+  if (refreshToken) await axios.post(`${API_URL}/api/auth/logout`, { refreshToken }).catch(() => undefined);
   window.location.href = '/login';
 };
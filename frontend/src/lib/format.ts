@@ -0,0 +1,49 @@
+// Shared number and date formatting, driven by the user's preferences
+// (see usePreferences). Mirrors backend/src/lib/preferences.ts.
+
+export const DATE_FORMATS = ['locale', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const
+
+export type Preferences = {
+  locale: string
+  currency: string
+  // 0 = Sunday … 6 = Saturday
+  weekStartsOn: number
+  dateFormat: (typeof DATE_FORMATS)[number]
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  locale: 'en-US',
+  currency: 'USD',
+  weekStartsOn: 0,
+  dateFormat: 'locale',
+}
+
+export function formatMoney(amount: number, prefs: Preferences, currency = prefs.currency) {
+  return new Intl.NumberFormat(prefs.locale, { style: 'currency', currency }).format(amount)
+}
+
+export function formatNumber(value: number, prefs: Preferences, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(prefs.locale, options).format(value)
+}
+
+export function formatDate(value: string | Date, prefs: Preferences) {
+  const date = new Date(value)
+  if (prefs.dateFormat === 'locale') return date.toLocaleDateString(prefs.locale)
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: String(date.getMonth() + 1).padStart(2, '0'),
+    DD: String(date.getDate()).padStart(2, '0'),
+  }
+  return prefs.dateFormat.replace(/YYYY|MM|DD/g, (token) => parts[token] ?? token)
+}
+
+export function formatDateTime(value: string | Date, prefs: Preferences) {
+  const date = new Date(value)
+  return `${formatDate(date, prefs)} ${date.toLocaleTimeString(prefs.locale, { hour: '2-digit', minute: '2-digit' })}`
+}
+
+// "Jan 2025" for a YYYY-MM month key or a date
+export function formatMonth(value: string | Date, prefs: Preferences) {
+  const date = typeof value === 'string' && /^\d{4}-\d{2}$/.test(value) ? new Date(`${value}-01T00:00:00`) : new Date(value)
+  return date.toLocaleDateString(prefs.locale, { month: 'short', year: 'numeric' })
+}
@@ -12,8 +12,19 @@ const Dashboard = React.lazy(() => import('./pages/Dashboard.tsx'));
 const Transactions = React.lazy(() => import('./pages/Transactions.tsx'));
 const Upload = React.lazy(() => import('./pages/Upload.tsx'));
 const Chatbot = React.lazy(() => import('./pages/Chatbot.tsx'));
+const Rules = React.lazy(() => import('./pages/Rules.tsx'));
+const Categories = React.lazy(() => import('./pages/Categories.tsx'));
+const Accounts = React.lazy(() => import('./pages/Accounts.tsx'));
+const Currencies = React.lazy(() => import('./pages/Currencies.tsx'));
+const Debts = React.lazy(() => import('./pages/Debts.tsx'));
+const Subscriptions = React.lazy(() => import('./pages/Subscriptions.tsx'));
+const Notifications = React.lazy(() => import('./pages/Notifications.tsx'));
+const Settings = React.lazy(() => import('./pages/Settings.tsx'));
 const Login = React.lazy(() => import('./pages/Login.tsx'));
 const Register = React.lazy(() => import('./pages/Register.tsx'));
+const ForgotPassword = React.lazy(() => import('./pages/ForgotPassword.tsx'));
+const ResetPassword = React.lazy(() => import('./pages/ResetPassword.tsx'));
+const VerifyEmail = React.lazy(() => import('./pages/VerifyEmail.tsx'));
 
 const router = createBrowserRouter([
   {
@@ -28,10 +39,21 @@ const router = createBrowserRouter([
           { path: 'transactions', element: <Transactions /> },
           { path: 'upload', element: <Upload /> },
           { path: 'chatbot', element: <Chatbot /> },
+          { path: 'rules', element: <Rules /> },
+          { path: 'categories', element: <Categories /> },
+          { path: 'accounts', element: <Accounts /> },
+          { path: 'currencies', element: <Currencies /> },
+          { path: 'debts', element: <Debts /> },
+          { path: 'subscriptions', element: <Subscriptions /> },
+          { path: 'notifications', element: <Notifications /> },
+          { path: 'settings', element: <Settings /> },
         ],
       },
       { path: 'login', element: <Login /> },
       { path: 'register', element: <Register /> },
+      { path: 'forgot-password', element: <ForgotPassword /> },
+      { path: 'reset-password', element: <ResetPassword /> },
+      { path: 'verify-email', element: <VerifyEmail /> },
     ],
   },
 ]);
@@ -0,0 +1,328 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useAccounts } from '../hooks/use-accounts'
+import { useCurrencies } from '../hooks/use-currencies'
+import { useFormat } from '../hooks/use-preferences'
+import type { Account, AccountKind } from '../hooks/use-accounts'
+
+type AccountForm = {
+  name: string
+  kind: AccountKind
+  currency: string
+  openingBalance: string
+}
+
+type AccountPatch = Partial<{
+  name: string
+  kind: AccountKind
+  currency: string
+  openingBalance: number
+  archived: boolean
+}>
+
+type LedgerEntry = {
+  id: string
+  date: string
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER'
+  amount: string | number
+  currency: string
+  category: string
+  description: string | null
+  transferAccountId: string | null
+  balance: number | null
+}
+
+// A transfer is money in for its destination account and money out for its source
+function isInflow(tx: LedgerEntry, accountId: string) {
+  return tx.type === 'INCOME' || (tx.type === 'TRANSFER' && tx.transferAccountId === accountId)
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const KIND_LABELS: Record<AccountKind, string> = {
+  CHECKING: 'Checking',
+  SAVINGS: 'Savings',
+  CREDIT: 'Credit card',
+  CASH: 'Cash',
+}
+
+// A blank currency means the user's base currency
+const EMPTY_FORM: AccountForm = { name: '', kind: 'CHECKING', currency: '', openingBalance: '' }
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+const cellInputClass = 'w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 outline-none bg-white text-sm'
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+export default function Accounts() {
+  const qc = useQueryClient()
+  const [form, setForm] = useState<AccountForm>(EMPTY_FORM)
+  const [showArchived, setShowArchived] = useState(false)
+  const [ledgerId, setLedgerId] = useState<string | null>(null)
+  const { data: accounts = [], isLoading } = useAccounts({ includeArchived: showArchived })
+  const { data: currencies } = useCurrencies()
+  const fmt = useFormat()
+
+  const { data: ledger } = useQuery({
+    queryKey: ['accounts', 'ledger', ledgerId],
+    enabled: !!ledgerId,
+    queryFn: async () => {
+      const res = await api.get(`/api/accounts/${ledgerId}/ledger`)
+      return res.data as { account: Account; items: LedgerEntry[] }
+    },
+  })
+
+  const createAccount = useMutation({
+    mutationFn: async (f: AccountForm) => {
+      const res = await api.post('/api/accounts', {
+        name: f.name.trim(),
+        kind: f.kind,
+        currency: f.currency.trim() || undefined,
+        openingBalance: Number(f.openingBalance) || 0,
+      })
+      return res.data as Account
+    },
+    onSuccess: () => {
+      toast.success('Account added')
+      setForm(EMPTY_FORM)
+      qc.invalidateQueries({ queryKey: ['accounts'] })
+      qc.invalidateQueries({ queryKey: ['currencies'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not add account')),
+  })
+
+  const updateAccount = useMutation({
+    mutationFn: async ({ id, ...patch }: AccountPatch & { id: string }) => {
+      const res = await api.patch(`/api/accounts/${id}`, patch)
+      return res.data as Account
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['accounts'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not update account')),
+  })
+
+  const removeAccount = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/accounts/${id}`)
+    },
+    onSuccess: (_, id) => {
+      if (id === ledgerId) setLedgerId(null)
+      qc.invalidateQueries({ queryKey: ['accounts'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete account')),
+  })
+
+  // Balances are in each account's own currency, so they are totalled per currency
+  const totals = new Map<string, number>()
+  for (const a of accounts) {
+    if (!a.archived) totals.set(a.currency, (totals.get(a.currency) ?? 0) + a.balance)
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Accounts</h1>
+        <p className="text-slate-600 font-medium">
+          Bank accounts, cards and wallets your money moves through. A balance is the opening balance plus income
+          minus expenses filed under the account; a credit card shows a negative balance while money is owed.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
+          New Account
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-5">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Name</label>
+            <input className={inputClass} placeholder="e.g., Everyday Checking" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Kind</label>
+            <select className={`${inputClass} font-medium`} value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as AccountKind })}>
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Currency</label>
+            <input className={inputClass} maxLength={3} placeholder={currencies?.baseCurrency} value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Opening balance</label>
+            <input type="number" step="0.01" className={inputClass} placeholder="0.00" value={form.openingBalance} onChange={(e) => setForm({ ...form, openingBalance: e.target.value })} />
+          </div>
+          <div className="flex items-end">
+            <button
+              className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!form.name.trim() || ![0, 3].includes(form.currency.trim().length) || createAccount.isPending}
+              onClick={() => createAccount.mutate(form)}
+            >
+              Add Account
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-3">
+            <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+            Your Accounts
+          </h2>
+          <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
+        </div>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : accounts.length === 0 ? (
+          <div className="text-slate-500 font-medium">No accounts yet. Transactions without an account still count towards every report.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3">Name</th>
+                  <th className="p-3">Kind</th>
+                  <th className="p-3 w-24">Currency</th>
+                  <th className="p-3 text-right">Opening</th>
+                  <th className="p-3 text-right">Balance</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((account) => (
+                  <tr key={account.id} className={`border-b border-slate-100 ${account.archived ? 'opacity-50' : ''}`}>
+                    <td className="p-3">
+                      <input
+                        className={`${cellInputClass} font-bold text-slate-800`}
+                        defaultValue={account.name}
+                        onBlur={(e) => {
+                          const name = e.target.value.trim()
+                          if (name && name !== account.name) updateAccount.mutate({ id: account.id, name })
+                        }}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <select
+                        className={cellInputClass}
+                        value={account.kind}
+                        onChange={(e) => updateAccount.mutate({ id: account.id, kind: e.target.value as AccountKind })}
+                      >
+                        {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                          <option key={kind} value={kind}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3 text-sm font-semibold text-slate-700">{account.currency}</td>
+                    <td className="p-3">
+                      <input
+                        type="number"
+                        step="0.01"
+                        className={`${cellInputClass} text-right`}
+                        defaultValue={account.openingBalance}
+                        onBlur={(e) => {
+                          const openingBalance = Number(e.target.value)
+                          if (openingBalance !== account.openingBalance) updateAccount.mutate({ id: account.id, openingBalance })
+                        }}
+                      />
+                    </td>
+                    <td className={`p-3 text-right text-sm font-bold ${account.balance < 0 ? 'text-rose-700' : 'text-emerald-700'}`}>
+                      {fmt.money(account.balance, account.currency)}
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => setLedgerId(ledgerId === account.id ? null : account.id)}
+                      >
+                        {ledgerId === account.id ? 'Hide history' : 'History'}
+                      </button>
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => updateAccount.mutate({ id: account.id, archived: !account.archived })}
+                      >
+                        {account.archived ? 'Restore' : 'Archive'}
+                      </button>
+                      {(account.transactionCount ?? 0) === 0 && (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                          onClick={() => {
+                            if (window.confirm(`Delete account "${account.name}"?`)) removeAccount.mutate(account.id)
+                          }}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="text-sm font-bold text-slate-800">
+                  <td className="p-3" colSpan={4}>Total (open accounts)</td>
+                  <td className="p-3 text-right">
+                    {[...totals].map(([currency, total]) => (
+                      <div key={currency} className={total < 0 ? 'text-rose-700' : 'text-emerald-700'}>
+                        {fmt.money(total, currency)}
+                      </div>
+                    ))}
+                  </td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {ledgerId && ledger && (
+        <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+          <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+            <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+            {ledger.account.name}: Recent Activity
+          </h2>
+          {ledger.items.length === 0 ? (
+            <div className="text-slate-500 font-medium">No transactions filed under this account yet.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                    <th className="p-3">Date</th>
+                    <th className="p-3">Description</th>
+                    <th className="p-3">Category</th>
+                    <th className="p-3 text-right">Amount</th>
+                    <th className="p-3 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.items.map((tx) => (
+                    <tr key={tx.id} className="border-b border-slate-100 text-sm">
+                      <td className="p-3 text-slate-700">{fmt.date(tx.date)}</td>
+                      <td className="p-3 text-slate-600">{tx.description || '—'}</td>
+                      <td className="p-3 text-slate-700 font-medium">{tx.category}</td>
+                      <td className={`p-3 text-right font-bold ${isInflow(tx, ledger.account.id) ? 'text-emerald-700' : 'text-rose-700'}`}>
+                        {isInflow(tx, ledger.account.id) ? '+' : '−'}{fmt.money(Number(tx.amount), tx.currency)}
+                      </td>
+                      <td className="p-3 text-right font-bold text-slate-800">{tx.balance != null ? fmt.money(tx.balance, ledger.account.currency) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,303 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useCategories } from '../hooks/use-categories'
+import type { Category } from '../hooks/use-categories'
+
+type CategoryForm = {
+  name: string
+  type: '' | 'INCOME' | 'EXPENSE' | 'TRANSFER'
+  color: string
+  icon: string
+  parentId: string
+}
+
+type CategoryPatch = Partial<{
+  name: string
+  type: Category['type']
+  color: string | null
+  icon: string | null
+  parentId: string | null
+  archived: boolean
+}>
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const EMPTY_FORM: CategoryForm = { name: '', type: 'EXPENSE', color: '#3b82f6', icon: '', parentId: '' }
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+const cellInputClass = 'w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 outline-none bg-white text-sm'
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+export default function Categories() {
+  const qc = useQueryClient()
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM)
+  const [showArchived, setShowArchived] = useState(false)
+  const { data: categories = [], isLoading } = useCategories({ includeArchived: showArchived })
+
+  // Renames and merges rewrite transactions, budgets and rules as well
+  const invalidateAfterChange = () => {
+    for (const key of ['categories', 'rules', 'recurring', 'transactions', 'summary', 'stats', 'category-budget-status']) {
+      qc.invalidateQueries({ queryKey: [key] })
+    }
+  }
+
+  const createCategory = useMutation({
+    mutationFn: async (f: CategoryForm) => {
+      const res = await api.post('/api/categories', {
+        name: f.name.trim(),
+        type: f.type || null,
+        color: f.color || null,
+        icon: f.icon.trim() || null,
+        parentId: f.parentId || null,
+      })
+      return res.data as Category
+    },
+    onSuccess: () => {
+      toast.success('Category added')
+      setForm(EMPTY_FORM)
+      qc.invalidateQueries({ queryKey: ['categories'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not add category')),
+  })
+
+  const updateCategory = useMutation({
+    mutationFn: async ({ id, ...patch }: CategoryPatch & { id: string }) => {
+      const res = await api.patch(`/api/categories/${id}`, patch)
+      return res.data as Category
+    },
+    onSuccess: invalidateAfterChange,
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not update category')),
+  })
+
+  const mergeCategory = useMutation({
+    mutationFn: async ({ id, targetId }: { id: string; targetId: string }) => {
+      const res = await api.post(`/api/categories/${id}/merge`, { targetId })
+      return res.data as Category & { moved: number }
+    },
+    onSuccess: (data) => {
+      toast.success(`Merged into ${data.name}; moved ${data.moved} transaction${data.moved !== 1 ? 's' : ''}`)
+      invalidateAfterChange()
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not merge categories')),
+  })
+
+  const removeCategory = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/categories/${id}`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['categories'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete category')),
+  })
+
+  const nameOf = (id: string | null) => categories.find((c) => c.id === id)?.name
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Categories</h1>
+        <p className="text-slate-600 font-medium">
+          Every transaction belongs to one of these. Renaming a category updates its transactions, budgets and rules;
+          merging moves everything into another category and remembers the old name for future imports.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
+          New Category
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-5">
+          <div className="lg:col-span-2">
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Name</label>
+            <input className={inputClass} placeholder="e.g., Dining" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Type</label>
+            <select className={`${inputClass} font-medium`} value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as CategoryForm['type'] })}>
+              <option value="">Any</option>
+              <option value="EXPENSE">Expense</option>
+              <option value="INCOME">Income</option>
+              <option value="TRANSFER">Transfer</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Parent</label>
+            <select className={`${inputClass} font-medium`} value={form.parentId} onChange={(e) => setForm({ ...form, parentId: e.target.value })}>
+              <option value="">None</option>
+              {categories.filter((c) => !c.archived).map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-3">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Colour</label>
+              <input type="color" className="h-[52px] w-16 rounded-xl border-2 border-slate-200 bg-white" value={form.color} onChange={(e) => setForm({ ...form, color: e.target.value })} />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Icon</label>
+              <input className={inputClass} placeholder="🍽️" value={form.icon} onChange={(e) => setForm({ ...form, icon: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex items-end">
+            <button
+              className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!form.name.trim() || createCategory.isPending}
+              onClick={() => createCategory.mutate(form)}
+            >
+              Add Category
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-3">
+            <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+            Your Categories
+          </h2>
+          <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
+        </div>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : categories.length === 0 ? (
+          <div className="text-slate-500 font-medium">No categories yet. They are created as you add or import transactions.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3 w-16">Colour</th>
+                  <th className="p-3 w-20">Icon</th>
+                  <th className="p-3">Name</th>
+                  <th className="p-3">Type</th>
+                  <th className="p-3">Parent</th>
+                  <th className="p-3 text-right">Transactions</th>
+                  <th className="p-3">Merge into</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map((category) => (
+                  <tr key={category.id} className={`border-b border-slate-100 ${category.archived ? 'opacity-50' : ''}`}>
+                    <td className="p-3">
+                      <input
+                        type="color"
+                        className="h-9 w-10 rounded border border-slate-200"
+                        defaultValue={category.color ?? '#94a3b8'}
+                        onBlur={(e) => {
+                          if (e.target.value !== category.color) updateCategory.mutate({ id: category.id, color: e.target.value })
+                        }}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <input
+                        className={cellInputClass}
+                        defaultValue={category.icon ?? ''}
+                        onBlur={(e) => {
+                          const icon = e.target.value.trim() || null
+                          if (icon !== category.icon) updateCategory.mutate({ id: category.id, icon })
+                        }}
+                      />
+                    </td>
+                    <td className="p-3">
+                      <input
+                        className={`${cellInputClass} font-bold text-slate-800`}
+                        defaultValue={category.name}
+                        onBlur={(e) => {
+                          const name = e.target.value.trim()
+                          if (!name || name === category.name) return
+                          if (window.confirm(`Rename "${category.name}" to "${name}"? Its transactions, budgets and rules will be updated.`)) {
+                            updateCategory.mutate({ id: category.id, name })
+                          } else {
+                            e.target.value = category.name
+                          }
+                        }}
+                      />
+                      {category.aliases.length > 0 && (
+                        <div className="mt-1 text-xs text-slate-500">Also matches: {category.aliases.join(', ')}</div>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <select
+                        className={cellInputClass}
+                        value={category.type ?? ''}
+                        onChange={(e) => updateCategory.mutate({ id: category.id, type: (e.target.value || null) as Category['type'] })}
+                      >
+                        <option value="">Any</option>
+                        <option value="EXPENSE">Expense</option>
+                        <option value="INCOME">Income</option>
+                        <option value="TRANSFER">Transfer</option>
+                      </select>
+                    </td>
+                    <td className="p-3">
+                      <select
+                        className={cellInputClass}
+                        value={category.parentId ?? ''}
+                        onChange={(e) => updateCategory.mutate({ id: category.id, parentId: e.target.value || null })}
+                      >
+                        <option value="">None</option>
+                        {category.parentId && !nameOf(category.parentId) && <option value={category.parentId}>(archived)</option>}
+                        {categories.filter((c) => c.id !== category.id).map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3 text-right text-sm font-semibold text-slate-700">{category.transactionCount ?? 0}</td>
+                    <td className="p-3">
+                      <select
+                        className={cellInputClass}
+                        value=""
+                        onChange={(e) => {
+                          const target = categories.find((c) => c.id === e.target.value)
+                          if (target && window.confirm(`Merge "${category.name}" into "${target.name}"? This moves all of its transactions and cannot be undone.`)) {
+                            mergeCategory.mutate({ id: category.id, targetId: target.id })
+                          }
+                        }}
+                      >
+                        <option value="">Choose…</option>
+                        {categories.filter((c) => c.id !== category.id).map((c) => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => updateCategory.mutate({ id: category.id, archived: !category.archived })}
+                      >
+                        {category.archived ? 'Restore' : 'Archive'}
+                      </button>
+                      {(category.transactionCount ?? 0) === 0 && (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                          onClick={() => {
+                            if (window.confirm(`Delete category "${category.name}"?`)) removeCategory.mutate(category.id)
+                          }}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,15 @@
 import { useState } from 'react'
 import { api } from '../lib/api'
+import { useFormat } from '../hooks/use-preferences'
 
-type Txn = { date: string; category: string; description: string; amount: number }
+type Txn = { date: string; category: string; description: string; amount: number; currency?: string }
 
 export default function Chatbot() {
   const [messages, setMessages] = useState<{ role: 'user'|'assistant'; content: string }[]>([])
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const [results, setResults] = useState<Txn[] | null>(null)
+  const fmt = useFormat()
 
   const send = async () => {
     const text = input.trim()
@@ -73,10 +75,10 @@ export default function Chatbot() {
               <tbody>
                 {results.map((t, i) => (
                   <tr key={i} className="border-t border-slate-200/70">
-                    <td className="py-2 pr-4">{new Date(t.date).toLocaleDateString()}</td>
+                    <td className="py-2 pr-4">{fmt.date(t.date)}</td>
                     <td className="py-2 pr-4">{t.category}</td>
                     <td className="py-2 pr-4">{t.description}</td>
-                    <td className="py-2 pr-4">₹{t.amount.toFixed(2)}</td>
+                    <td className="py-2 pr-4">{fmt.money(t.amount, t.currency)}</td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,262 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useCurrencies } from '../hooks/use-currencies'
+import { useFormat } from '../hooks/use-preferences'
+
+type ExchangeRate = {
+  id: string
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  date: string
+}
+
+type RateForm = {
+  fromCurrency: string
+  toCurrency: string
+  rate: string
+  date: string
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const EMPTY_FORM: RateForm = { fromCurrency: '', toCurrency: '', rate: '', date: new Date().toISOString().slice(0, 10) }
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+
+// Every converted figure on the Dashboard depends on the base currency and rates
+const CONVERTED_QUERIES = ['currencies', 'accounts', 'summary', 'trends', 'forecast', 'stats', 'budget-status', 'budget-history', 'category-budget-status']
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+export default function Currencies() {
+  const qc = useQueryClient()
+  const [form, setForm] = useState<RateForm>(EMPTY_FORM)
+  const [base, setBase] = useState('')
+  const [relabel, setRelabel] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const { data: overview } = useCurrencies()
+  const fmt = useFormat()
+
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ['currencies', 'rates'],
+    queryFn: async () => {
+      const res = await api.get('/api/currencies/rates')
+      return res.data.items as ExchangeRate[]
+    },
+  })
+
+  const invalidateConverted = () => {
+    for (const key of CONVERTED_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+  }
+
+  const updateBase = useMutation({
+    mutationFn: async (payload: { baseCurrency: string; relabel: boolean }) => {
+      const res = await api.patch('/api/currencies', payload)
+      return res.data as { baseCurrency: string; relabelled: number }
+    },
+    onSuccess: (result) => {
+      toast.success(
+        result.relabelled > 0
+          ? `Base currency is now ${result.baseCurrency} (${result.relabelled} transaction${result.relabelled !== 1 ? 's' : ''} relabelled)`
+          : `Base currency is now ${result.baseCurrency}`
+      )
+      setBase('')
+      setRelabel(false)
+      invalidateConverted()
+      qc.invalidateQueries({ queryKey: ['transactions'] })
+      qc.invalidateQueries({ queryKey: ['preferences'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not change base currency')),
+  })
+
+  const createRate = useMutation({
+    mutationFn: async (f: RateForm) => {
+      const res = await api.post('/api/currencies/rates', {
+        fromCurrency: f.fromCurrency,
+        toCurrency: f.toCurrency || undefined,
+        rate: Number(f.rate),
+        date: f.date,
+      })
+      return res.data as ExchangeRate
+    },
+    onSuccess: () => {
+      toast.success('Rate saved')
+      setForm(EMPTY_FORM)
+      invalidateConverted()
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not save rate')),
+  })
+
+  const removeRate = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/currencies/rates/${id}`)
+    },
+    onSuccess: invalidateConverted,
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete rate')),
+  })
+
+  const importRates = useMutation({
+    mutationFn: async (csv: File) => {
+      const body = new FormData()
+      body.append('file', csv)
+      const res = await api.post('/api/currencies/rates/import', body)
+      return res.data as { imported: number; errors: string[] }
+    },
+    onSuccess: (result) => {
+      setFile(null)
+      invalidateConverted()
+      if (result.errors.length > 0) {
+        toast.warning(`Imported ${result.imported} rate(s); ${result.errors.length} line(s) skipped. ${result.errors.slice(0, 3).join(' ')}`, { duration: 8000 })
+      } else {
+        toast.success(`Imported ${result.imported} rate(s)`)
+      }
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not import rates')),
+  })
+
+  const baseCurrency = overview?.baseCurrency ?? ''
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Currencies</h1>
+        <p className="text-slate-600 font-medium">
+          Totals, charts and budgets are shown in your base currency. Amounts in other currencies are converted at the
+          latest rate dated on or before each transaction; a rate also works in reverse, so enter each pair once.
+        </p>
+        {overview && overview.missingRates.length > 0 && (
+          <div className="mt-4 p-4 rounded-xl bg-amber-50 border border-amber-200 text-amber-800 text-sm font-semibold">
+            No rate to {baseCurrency} for {overview.missingRates.join(', ')}: these amounts are left out of converted totals.
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+          Base Currency
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5 items-end">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Currency</label>
+            <input className={inputClass} maxLength={3} placeholder={baseCurrency} value={base} onChange={(e) => setBase(e.target.value.toUpperCase())} />
+          </div>
+          <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 lg:col-span-2 pb-3">
+            <input type="checkbox" checked={relabel} onChange={(e) => setRelabel(e.target.checked)} />
+            Relabel everything recorded in {baseCurrency || 'the current base'} as the new currency (no conversion)
+          </label>
+          <button
+            className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold hover:from-blue-700 hover:to-blue-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={base.length !== 3 || base === baseCurrency || updateBase.isPending}
+            onClick={() => {
+              if (relabel && !window.confirm(`Relabel all ${baseCurrency} transactions, accounts and recurring rules as ${base}?`)) return
+              updateBase.mutate({ baseCurrency: base, relabel })
+            }}
+          >
+            Change
+          </button>
+        </div>
+        {overview && (
+          <div className="mt-5 text-sm text-slate-600 font-medium">In use: {overview.currencies.join(', ')}</div>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
+          Add Exchange Rate
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-5">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Effective from</label>
+            <input type="date" className={inputClass} value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">1 unit of</label>
+            <input className={inputClass} maxLength={3} placeholder="e.g., EUR" value={form.fromCurrency} onChange={(e) => setForm({ ...form, fromCurrency: e.target.value.toUpperCase() })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Is worth</label>
+            <input type="number" step="any" className={inputClass} placeholder="0.00" value={form.rate} onChange={(e) => setForm({ ...form, rate: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Of</label>
+            <input className={inputClass} maxLength={3} placeholder={baseCurrency} value={form.toCurrency} onChange={(e) => setForm({ ...form, toCurrency: e.target.value.toUpperCase() })} />
+          </div>
+          <div className="flex items-end">
+            <button
+              className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={form.fromCurrency.length !== 3 || !(Number(form.rate) > 0) || !form.date || createRate.isPending}
+              onClick={() => createRate.mutate(form)}
+            >
+              Save Rate
+            </button>
+          </div>
+        </div>
+        <div className="mt-6 flex flex-wrap items-center gap-4">
+          <input type="file" accept=".csv,text/csv" className="text-sm text-slate-700" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+          <button
+            className="px-4 py-2 rounded-xl border-2 border-slate-300 text-slate-700 font-bold hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            disabled={!file || importRates.isPending}
+            onClick={() => file && importRates.mutate(file)}
+          >
+            {importRates.isPending ? 'Importing...' : 'Import CSV'}
+          </button>
+          <span className="text-sm text-slate-500">Columns: date, from, to (optional, defaults to {baseCurrency || 'base'}), rate</span>
+        </div>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+          Exchange Rates
+        </h2>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : rates.length === 0 ? (
+          <div className="text-slate-500 font-medium">No rates yet. Only amounts in {baseCurrency || 'your base currency'} are counted until you add some.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3">Effective from</th>
+                  <th className="p-3">Pair</th>
+                  <th className="p-3 text-right">Rate</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((rate) => (
+                  <tr key={rate.id} className="border-b border-slate-100 text-sm">
+                    <td className="p-3 text-slate-700">{fmt.date(rate.date)}</td>
+                    <td className="p-3 font-semibold text-slate-800">{rate.fromCurrency} → {rate.toCurrency}</td>
+                    <td className="p-3 text-right font-bold text-slate-800">{rate.rate}</td>
+                    <td className="p-3 text-right">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                        onClick={() => {
+                          if (window.confirm(`Delete the ${rate.fromCurrency} → ${rate.toCurrency} rate?`)) removeRate.mutate(rate.id)
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,23 +1,68 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, LineChart, Line } from 'recharts'
 import { api } from '../lib/api'
 import { toast } from 'sonner' // NEW IMPORT
+import { useCategories } from '../hooks/use-categories'
+import { useAccounts } from '../hooks/use-accounts'
+import { useFormat } from '../hooks/use-preferences'
+import AccountSelect from '../components/AccountSelect'
+import GoalsPanel from '../components/GoalsPanel'
+
+type CategoryTotal = { category: string; categoryId: string | null; hasChildren: boolean; _sum: { amount: string | number } }
+
+type ForecastMonth = { month: string; days: number; income: number; expense: number; net: number; lower: number; upper: number }
+
+type Forecast = {
+  days: number
+  hasAccounts: boolean
+  startingBalance: number
+  endingBalance: number
+  points: Array<{ date: string; balance: number; lower: number; upper: number }>
+  months: ForecastMonth[]
+  scheduled: Array<{ date: string; description: string; amount: number; source: 'rule' | 'pattern' }>
+  baseCurrency: string
+}
+
+type TrendPoint = {
+  month: string
+  income?: number
+  expense?: number
+  net?: number
+  forecastNet?: number
+  forecastLower?: number
+  forecastUpper?: number
+}
+
+const FORECAST_DAYS = [30, 90, 365] as const
 
 export default function Dashboard() {
-  const [range, setRange] = useState<{ from?: string; to?: string }>({})
+  const [range, setRange] = useState<{ from?: string; to?: string; accountId?: string }>({})
   const [budgetInput, setBudgetInput] = useState('') // NEW STATE
+  const [categoryBudgetInput, setCategoryBudgetInput] = useState<{ category: string; limit: string; period: CategoryBudgetStatus['period'] }>({ category: '', limit: '', period: 'MONTHLY' })
   const qc = useQueryClient() // NEW LINE
+  // Category charts show top-level categories (sub-categories rolled up) or every category;
+  // clicking a pie slice with sub-categories drills into it
+  const [rollup, setRollup] = useState<'parent' | 'leaf'>('parent')
+  const [drillPath, setDrillPath] = useState<Array<{ id: string; name: string }>>([])
+  const drillParent = drillPath[drillPath.length - 1]
+  const { data: categories } = useCategories()
+  const { data: accounts } = useAccounts()
+  const fmt = useFormat()
   
   // Summary data query
   const { data, isLoading, isError } = useQuery({
-    queryKey: ['summary', range],
+    queryKey: ['summary', range, rollup, drillParent?.id],
     queryFn: async () => {
       const params = new URLSearchParams()
       if (range.from) params.set('from', range.from)
       if (range.to) params.set('to', range.to)
+      if (range.accountId) params.set('accountId', range.accountId)
+      if (drillParent) params.set('parent', drillParent.id)
+      else params.set('rollup', rollup)
       const res = await api.get(`/api/transactions/summary?${params.toString()}`)
-      return res.data as { byType: Array<{ type: string; _sum: { amount: string } }>; byCategory: Array<{ category: string; _sum: { amount: string } }> }
+      return res.data as { byType: Array<{ type: string; _sum: { amount: string } }>; byCategory: CategoryTotal[] }
     },
   })
 
@@ -28,18 +73,31 @@ export default function Dashboard() {
       const params = new URLSearchParams()
       if (range.from) params.set('from', range.from)
       if (range.to) params.set('to', range.to)
+      if (range.accountId) params.set('accountId', range.accountId)
       const res = await api.get(`/api/transactions/trends?${params.toString()}`)
       return res.data as { monthlyTrends: Array<{ month: string; income: number; expense: number }> }
     },
   })
 
+  // Cash-flow forecast across all accounts; independent of the date range
+  const [forecastDays, setForecastDays] = useState<(typeof FORECAST_DAYS)[number]>(90)
+  const { data: forecast } = useQuery({
+    queryKey: ['forecast', forecastDays],
+    queryFn: async () => {
+      const res = await api.get(`/api/forecast?days=${forecastDays}`)
+      return res.data as Forecast
+    },
+  })
+
   // Summary stats query
   const { data: statsData, isLoading: statsLoading } = useQuery({
-    queryKey: ['stats', range],
+    queryKey: ['stats', range, rollup],
     queryFn: async () => {
       const params = new URLSearchParams()
       if (range.from) params.set('from', range.from)
       if (range.to) params.set('to', range.to)
+      if (range.accountId) params.set('accountId', range.accountId)
+      params.set('rollup', rollup)
       const res = await api.get(`/api/transactions/stats?${params.toString()}`)
       return res.data as {
         totalIncome: number
@@ -48,6 +106,9 @@ export default function Dashboard() {
         savingsRate: number
         biggestExpenseCategory: string
         averageDailySpending: number
+        baseCurrency: string
+        // Currencies with no rate to the base; their amounts are left out
+        missingRates?: string[]
       }
     },
   })
@@ -59,6 +120,9 @@ export default function Dashboard() {
       const res = await api.get('/api/budget/status')
       return res.data as {
         monthlyBudget: number
+        rollover: boolean
+        carriedOver: number
+        effectiveBudget: number
         spent: number
         remaining: number
         percentageUsed: number
@@ -68,6 +132,26 @@ export default function Dashboard() {
     },
   })
 
+  // Budget adherence over past months
+  const { data: budgetHistory } = useQuery({
+    queryKey: ['budget-history'],
+    queryFn: async () => {
+      const res = await api.get('/api/budget/history')
+      return res.data as {
+        rollover: boolean
+        items: Array<{
+          month: string
+          label: string
+          budget: number
+          carriedIn: number
+          effectiveBudget: number
+          spent: number
+          closingBalance: number
+        }>
+      }
+    },
+  })
+
   // NEW MUTATION - Set budget
   const setBudget = useMutation({
     mutationFn: async (monthlyBudget: number) => {
@@ -76,6 +160,7 @@ export default function Dashboard() {
     },
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ['budget-status'] })
+      qc.invalidateQueries({ queryKey: ['budget-history'] })
       toast.success('Monthly budget updated successfully!')
       setBudgetInput('')
     },
@@ -84,11 +169,68 @@ export default function Dashboard() {
     }
   })
 
+  const setRollover = useMutation({
+    mutationFn: async (rollover: boolean) => {
+      const res = await api.post('/api/budget/rollover', { rollover })
+      return res.data
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['budget-status'] })
+      qc.invalidateQueries({ queryKey: ['budget-history'] })
+    },
+    onError: () => {
+      toast.error('Failed to update rollover setting')
+    }
+  })
+
+  // Per-category budget status
+  const { data: categoryBudgets } = useQuery({
+    queryKey: ['category-budget-status'],
+    queryFn: async () => {
+      const res = await api.get('/api/budget/categories/status')
+      return res.data as { items: CategoryBudgetStatus[] }
+    },
+  })
+
+  const addCategoryBudget = useMutation({
+    mutationFn: async (payload: { category: string; limit: number; period: CategoryBudgetStatus['period'] }) => {
+      const res = await api.post('/api/budget/categories', payload)
+      return res.data
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['category-budget-status'] })
+      toast.success('Category budget added')
+      setCategoryBudgetInput({ category: '', limit: '', period: 'MONTHLY' })
+    },
+    onError: (error: { response?: { data?: { error?: unknown } } }) => {
+      const msg = error.response?.data?.error
+      toast.error(typeof msg === 'string' ? msg : 'Failed to add category budget')
+    },
+  })
+
+  const removeCategoryBudget = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/budget/categories/${id}`)
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['category-budget-status'] })
+    },
+    onError: () => {
+      toast.error('Failed to remove category budget')
+    },
+  })
+
   const pieData = useMemo(() => {
-    if (!data) return [] as Array<{ name: string; value: number }>
+    if (!data) return [] as Array<{ name: string; value: number; id: string | null; hasChildren: boolean; color?: string }>
     // Now byCategory only contains expense categories from the backend
-    return data.byCategory.map((category) => ({ name: category.category, value: Number(category._sum.amount) }))
-  }, [data])
+    return data.byCategory.map((category) => ({
+      name: category.category,
+      value: Number(category._sum.amount),
+      id: category.categoryId,
+      hasChildren: category.hasChildren,
+      color: categories?.find((c) => c.id === category.categoryId)?.color ?? undefined,
+    }))
+  }, [data, categories])
 
   const typeData = useMemo(() => {
     if (!data) return [] as Array<{ name: string; value: number }>
@@ -100,16 +242,31 @@ export default function Dashboard() {
     return data.byCategory.map((c) => ({ category: c.category, amount: Number(c._sum.amount) }))
   }, [data])
 
-  // Format monthly trends data for line chart
+  // The forecast continues the chart only when it shows every account up to today
+  const showForecast = !!forecast && !range.accountId && !range.to
+
+  // Format monthly trends data for line chart, then continue the net with the
+  // forecast: the current month adds the projected rest to what already happened
   const lineData = useMemo(() => {
-    if (!trendsData?.monthlyTrends) return []
-    return trendsData.monthlyTrends.map(trend => ({
-      month: new Date(trend.month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+    const points: Array<TrendPoint & { key: string }> = (trendsData?.monthlyTrends ?? []).map(trend => ({
+      key: trend.month,
+      month: fmt.month(trend.month),
       income: trend.income,
       expense: trend.expense,
       net: trend.income - trend.expense
     }))
-  }, [trendsData])
+    if (!showForecast) return points
+    for (const m of forecast.months) {
+      const actual = points.find((p) => p.key === m.month)
+      const base = actual?.net ?? 0
+      const projected = { forecastNet: base + m.net, forecastLower: base + m.lower, forecastUpper: base + m.upper }
+      if (actual) Object.assign(actual, projected)
+      else points.push({ key: m.month, month: fmt.month(m.month), ...projected })
+    }
+    return points
+  }, [trendsData, forecast, showForecast, fmt])
+
+  const forecastEnd = forecast?.points[forecast.points.length - 1]
 
   const isLoadingAny = isLoading || trendsLoading || statsLoading
 
@@ -135,46 +292,24 @@ export default function Dashboard() {
                 budgetData.isOverBudget ? 'text-red-700' : budgetData.percentageUsed > 80 ? 'text-amber-700' : 'text-emerald-700'
               }`}>
                 {budgetData.isOverBudget 
-                  ? `⚠️ Over budget by $${Math.abs(budgetData.remaining).toLocaleString()}`
-                  : `✓ Remaining: $${budgetData.remaining.toLocaleString()} of $${budgetData.monthlyBudget.toLocaleString()}`
+                  ? `⚠️ Over budget by ${fmt.money(Math.abs(budgetData.remaining))}`
+                  : `✓ Remaining: ${fmt.money(budgetData.remaining)} of ${fmt.money(budgetData.effectiveBudget)}`
                 }
               </p>
+              {budgetData.rollover && budgetData.carriedOver !== 0 && (
+                <p className="text-xs font-medium text-slate-600 mt-1">
+                  {budgetData.carriedOver > 0
+                    ? `Includes ${fmt.money(budgetData.carriedOver)} carried over from last month`
+                    : `Reduced by ${fmt.money(Math.abs(budgetData.carriedOver))} overspent last month`}
+                </p>
+              )}
             </div>
             <div className="flex items-center gap-6">
               <div className="text-right">
-                <div className="text-2xl font-bold text-slate-800">${budgetData.spent.toLocaleString()}</div>
+                <div className="text-2xl font-bold text-slate-800">{fmt.money(budgetData.spent)}</div>
                 <div className="text-xs font-medium text-slate-600">Spent ({budgetData.percentageUsed}%)</div>
               </div>
-              <div className="w-32 h-32 relative">
-                <svg className="transform -rotate-90 w-32 h-32">
-                  <circle
-                    cx="64"
-                    cy="64"
-                    r="56"
-                    stroke="#e2e8f0"
-                    strokeWidth="12"
-                    fill="transparent"
-                  />
-                  <circle
-                    cx="64"
-                    cy="64"
-                    r="56"
-                    stroke={budgetData.isOverBudget ? '#ef4444' : budgetData.percentageUsed > 80 ? '#f59e0b' : '#10b981'}
-                    strokeWidth="12"
-                    fill="transparent"
-                    strokeDasharray={`${2 * Math.PI * 56}`}
-                    strokeDashoffset={`${2 * Math.PI * 56 * (1 - Math.min(budgetData.percentageUsed / 100, 1))}`}
-                    strokeLinecap="round"
-                  />
-                </svg>
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <span className={`text-xl font-bold ${
-                    budgetData.isOverBudget ? 'text-red-700' : budgetData.percentageUsed > 80 ? 'text-amber-700' : 'text-emerald-700'
-                  }`}>
-                    {Math.round(budgetData.percentageUsed)}%
-                  </span>
-                </div>
-              </div>
+              <BudgetRing percentageUsed={budgetData.percentageUsed} isOverBudget={budgetData.isOverBudget} />
             </div>
           </div>
         </div>
@@ -192,7 +327,7 @@ export default function Dashboard() {
             <input 
               type="number" 
               step="0.01"
-              placeholder={budgetData?.monthlyBudget ? `Current: $${budgetData.monthlyBudget}` : "Enter amount (e.g., 2000)"}
+              placeholder={budgetData?.monthlyBudget ? `Current: ${fmt.money(budgetData.monthlyBudget)}` : "Enter amount (e.g., 2000)"}
               className="w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-purple-500 focus:ring-4 focus:ring-purple-100 outline-none transition-all bg-white text-slate-900" 
               value={budgetInput}
               onChange={(e) => setBudgetInput(e.target.value)}
@@ -215,15 +350,123 @@ export default function Dashboard() {
         </div>
         {budgetData && budgetData.monthlyBudget > 0 && (
           <p className="text-sm text-slate-600 mt-3 font-medium">
-            Current monthly budget: ${budgetData.monthlyBudget.toLocaleString()} • You've spent ${budgetData.spent.toLocaleString()} this month
+            Current monthly budget: {fmt.money(budgetData.monthlyBudget)} • You've spent {fmt.money(budgetData.spent)} this month
           </p>
         )}
+        <label className="flex items-center gap-3 mt-4 text-sm font-medium text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-purple-600"
+            checked={budgetData?.rollover ?? false}
+            disabled={setRollover.isPending}
+            onChange={(e) => setRollover.mutate(e.target.checked)}
+          />
+          Carry unspent (or overspent) budget into the next month
+        </label>
+        {budgetHistory && budgetHistory.items.length > 0 && (
+          <div className="mt-6" style={{ width: '100%', height: '260px' }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={budgetHistory.items} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="month" stroke="#64748b" />
+                <YAxis stroke="#64748b" />
+                <Tooltip formatter={(value) => fmt.money(Number(value))} contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                <Legend />
+                <Bar dataKey="effectiveBudget" fill="#8b5cf6" radius={[8, 8, 0, 0]} name="Budget" />
+                <Bar dataKey="spent" fill="#ef4444" radius={[8, 8, 0, 0]} name="Spent" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </div>
 
+      {/* Category Budgets */}
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-purple-600 to-purple-800 rounded-full"></span>
+          Category Budgets
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end mb-6">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Category</label>
+            <input
+              placeholder="e.g., Dining"
+              className="w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-purple-500 focus:ring-4 focus:ring-purple-100 outline-none transition-all bg-white text-slate-900"
+              value={categoryBudgetInput.category}
+              onChange={(e) => setCategoryBudgetInput({ ...categoryBudgetInput, category: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Limit</label>
+            <input
+              type="number"
+              step="0.01"
+              placeholder="e.g., 300"
+              className="w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-purple-500 focus:ring-4 focus:ring-purple-100 outline-none transition-all bg-white text-slate-900"
+              value={categoryBudgetInput.limit}
+              onChange={(e) => setCategoryBudgetInput({ ...categoryBudgetInput, limit: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Period</label>
+            <select
+              className="w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-purple-500 focus:ring-4 focus:ring-purple-100 outline-none transition-all bg-white text-slate-900 font-medium"
+              value={categoryBudgetInput.period}
+              onChange={(e) => setCategoryBudgetInput({ ...categoryBudgetInput, period: e.target.value as CategoryBudgetStatus['period'] })}
+            >
+              <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
+              <option value="YEARLY">Yearly</option>
+            </select>
+          </div>
+          <button
+            className="px-8 py-3 rounded-xl bg-gradient-to-r from-purple-600 to-purple-700 text-white font-bold hover:from-purple-700 hover:to-purple-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={() => {
+              const limit = parseFloat(categoryBudgetInput.limit)
+              if (!categoryBudgetInput.category.trim() || isNaN(limit) || limit <= 0) {
+                toast.error('Please enter a category and a positive limit')
+                return
+              }
+              addCategoryBudget.mutate({ category: categoryBudgetInput.category.trim(), limit, period: categoryBudgetInput.period })
+            }}
+            disabled={addCategoryBudget.isPending}
+          >
+            {addCategoryBudget.isPending ? 'Saving...' : 'Add Budget'}
+          </button>
+        </div>
+        {categoryBudgets && categoryBudgets.items.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {categoryBudgets.items.map((b) => (
+              <div key={b.id} className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-purple-50 p-5 flex flex-col items-center text-center">
+                <BudgetRing percentageUsed={b.percentageUsed} isOverBudget={b.isOverBudget} size={96} />
+                <div className="mt-3 font-bold text-slate-800">{b.category}</div>
+                <div className="text-xs font-medium text-slate-500 uppercase tracking-wide">{b.period.toLowerCase()}</div>
+                <div className={`mt-2 text-sm font-medium ${b.isOverBudget ? 'text-red-700' : 'text-slate-600'}`}>
+                  {fmt.money(b.spent)} of {fmt.money(b.limit)}
+                </div>
+                <div className={`text-xs font-medium ${b.isOverBudget ? 'text-red-600' : 'text-slate-500'}`}>
+                  {b.isOverBudget ? `Over by ${fmt.money(Math.abs(b.remaining))}` : `${fmt.money(b.remaining)} left`}
+                </div>
+                <button
+                  className="mt-3 px-3 py-1.5 rounded-lg text-xs font-bold text-red-700 hover:bg-red-100 transition-all"
+                  onClick={() => removeCategoryBudget.mutate(b.id)}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 font-medium">No category budgets yet. Add one above to track spending per category.</p>
+        )}
+      </div>
+
+      <GoalsPanel />
+
       <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
         <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
           <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
-          Date Range Filter
+          Filters
         </h2>
         <div className="flex gap-6">
           <div className="flex-1">
@@ -244,7 +487,37 @@ export default function Dashboard() {
               onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))} 
             />
           </div>
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Account</label>
+            <AccountSelect 
+              blankLabel="All Accounts" 
+              className="w-full px-5 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-slate-900 font-medium" 
+              value={range.accountId || ''} 
+              onChange={(accountId) => setRange((r) => ({ ...r, accountId }))} 
+            />
+          </div>
         </div>
+        {accounts && accounts.length > 0 && (
+          <div className="mt-6 flex flex-wrap gap-3">
+            {accounts.map((a) => (
+              <button
+                key={a.id}
+                className={`px-4 py-2 rounded-xl border-2 text-sm font-semibold transition-all ${
+                  range.accountId === a.id ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-slate-200 text-slate-700 hover:border-blue-300'
+                }`}
+                onClick={() => setRange((r) => ({ ...r, accountId: r.accountId === a.id ? '' : a.id }))}
+              >
+                {a.name}: <span className={a.balance < 0 ? 'text-rose-700' : 'text-emerald-700'}>{fmt.money(a.balance, a.currency)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {statsData?.missingRates && (
+          <p className="mt-6 text-sm font-semibold text-amber-700">
+            Totals are in {statsData.baseCurrency}. Amounts in {statsData.missingRates.join(', ')} are left out until you{' '}
+            <Link to="/currencies" className="underline">add an exchange rate</Link>.
+          </p>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -252,21 +525,21 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <SummaryCard
             title="Total Income"
-            value={`$${statsData.totalIncome.toLocaleString()}`}
+            value={fmt.money(statsData.totalIncome)}
             color="text-emerald-600"
             bgColor="bg-gradient-to-br from-emerald-50 to-emerald-100"
             borderColor="border-emerald-200"
           />
           <SummaryCard
             title="Total Expenses"
-            value={`$${statsData.totalExpense.toLocaleString()}`}
+            value={fmt.money(statsData.totalExpense)}
             color="text-rose-600"
             bgColor="bg-gradient-to-br from-rose-50 to-rose-100"
             borderColor="border-rose-200"
           />
           <SummaryCard
             title="Net Savings"
-            value={`$${statsData.netSavings.toLocaleString()}`}
+            value={fmt.money(statsData.netSavings)}
             color={statsData.netSavings >= 0 ? "text-emerald-600" : "text-rose-600"}
             bgColor={statsData.netSavings >= 0 ? "bg-gradient-to-br from-emerald-50 to-emerald-100" : "bg-gradient-to-br from-rose-50 to-rose-100"}
             borderColor={statsData.netSavings >= 0 ? "border-emerald-200" : "border-rose-200"}
@@ -287,7 +560,7 @@ export default function Dashboard() {
           />
           <SummaryCard
             title="Avg Daily Spending"
-            value={`$${statsData.averageDailySpending.toFixed(2)}`}
+            value={fmt.money(statsData.averageDailySpending)}
             color="text-amber-600"
             bgColor="bg-gradient-to-br from-amber-50 to-amber-100"
             borderColor="border-amber-200"
@@ -325,7 +598,7 @@ export default function Dashboard() {
                           <Cell key={i} fill={TYPE_COLORS[i % TYPE_COLORS.length]} />
                         ))}
                       </Pie>
-                      <Tooltip />
+                      <Tooltip formatter={(value) => fmt.money(Number(value))} />
                       <Legend />
                     </PieChart>
                   </ResponsiveContainer>
@@ -339,18 +612,58 @@ export default function Dashboard() {
                 <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
                 Spending by Category
               </h2>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4 text-sm">
+                <div className="flex items-center gap-1 font-semibold text-slate-600">
+                  <button className={drillPath.length > 0 ? 'text-blue-700 hover:underline' : ''} disabled={drillPath.length === 0} onClick={() => setDrillPath([])}>
+                    All categories
+                  </button>
+                  {drillPath.map((step, i) => (
+                    <span key={step.id}>
+                      {' › '}
+                      <button
+                        className={i < drillPath.length - 1 ? 'text-blue-700 hover:underline' : ''}
+                        disabled={i === drillPath.length - 1}
+                        onClick={() => setDrillPath(drillPath.slice(0, i + 1))}
+                      >
+                        {step.name}
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <select
+                  className="px-3 py-1.5 rounded-lg border-2 border-slate-200 bg-white font-medium text-slate-700"
+                  value={rollup}
+                  onChange={(e) => {
+                    setRollup(e.target.value as 'parent' | 'leaf')
+                    setDrillPath([])
+                  }}
+                >
+                  <option value="parent">Top-level categories</option>
+                  <option value="leaf">All sub-categories</option>
+                </select>
+              </div>
               {pieData.length === 0 ? (
                 <div className="h-64 flex items-center justify-center text-slate-500 font-medium">No data available for selected range</div>
               ) : (
                 <div style={{ width: '100%', height: '300px' }}>
                   <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
-                      <Pie data={pieData} dataKey="value" nameKey="name" outerRadius={110} label>
-                        {pieData.map((_, i) => (
-                          <Cell key={i} fill={COLORS[i % COLORS.length]} />
+                      <Pie
+                        data={pieData}
+                        dataKey="value"
+                        nameKey="name"
+                        outerRadius={110}
+                        label
+                        onClick={(_, i) => {
+                          const slice = pieData[i]
+                          if (slice?.id && slice.hasChildren) setDrillPath([...drillPath, { id: slice.id, name: slice.name }])
+                        }}
+                      >
+                        {pieData.map((slice, i) => (
+                          <Cell key={i} fill={slice.color ?? COLORS[i % COLORS.length]} cursor={slice.hasChildren ? 'pointer' : 'default'} />
                         ))}
                       </Pie>
-                      <Tooltip />
+                      <Tooltip formatter={(value) => fmt.money(Number(value))} />
                     </PieChart>
                   </ResponsiveContainer>
                 </div>
@@ -363,7 +676,27 @@ export default function Dashboard() {
             <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
               <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
               Monthly Spending Trend
+              <div className="ml-auto flex items-center gap-1 text-sm font-medium">
+                <span className="text-slate-500 mr-1">Forecast</span>
+                {FORECAST_DAYS.map((days) => (
+                  <button
+                    key={days}
+                    onClick={() => setForecastDays(days)}
+                    className={`px-3 py-1 rounded-lg border ${forecastDays === days ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                  >
+                    {days}d
+                  </button>
+                ))}
+              </div>
             </h2>
+            {showForecast && forecastEnd && (
+              <p className="text-sm text-slate-600 mb-4">
+                {forecast.hasAccounts ? 'Projected balance' : 'Projected change'} on {fmt.date(`${forecastEnd.date}T00:00:00`)}:{' '}
+                <span className={`font-semibold ${forecastEnd.balance < 0 ? 'text-red-600' : 'text-slate-800'}`}>{fmt.money(forecastEnd.balance, forecast.baseCurrency)}</span>
+                <span className="text-slate-500"> (likely {fmt.money(forecastEnd.lower, forecast.baseCurrency)} – {fmt.money(forecastEnd.upper, forecast.baseCurrency)})</span>
+                {forecast.scheduled.length > 0 && <span className="text-slate-500"> · {forecast.scheduled.length} scheduled item{forecast.scheduled.length === 1 ? '' : 's'}</span>}
+              </p>
+            )}
             {lineData.length === 0 ? (
               <div className="h-64 flex items-center justify-center text-slate-500 font-medium">No data available for selected range</div>
             ) : (
@@ -373,11 +706,18 @@ export default function Dashboard() {
                     <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                     <XAxis dataKey="month" stroke="#64748b" />
                     <YAxis stroke="#64748b" />
-                    <Tooltip contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                    <Tooltip formatter={(value) => fmt.money(Number(value))} contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
                     <Legend />
                     <Line type="monotone" dataKey="income" stroke="#10b981" strokeWidth={3} name="Income" />
                     <Line type="monotone" dataKey="expense" stroke="#ef4444" strokeWidth={3} name="Expense" />
                     <Line type="monotone" dataKey="net" stroke="#3b82f6" strokeWidth={3} name="Net" />
+                    {showForecast && (
+                      <>
+                        <Line type="monotone" dataKey="forecastNet" stroke="#3b82f6" strokeWidth={2} strokeDasharray="6 4" name="Forecast net" connectNulls />
+                        <Line type="monotone" dataKey="forecastLower" stroke="#93c5fd" strokeWidth={1} strokeDasharray="2 4" dot={false} name="Forecast low" connectNulls />
+                        <Line type="monotone" dataKey="forecastUpper" stroke="#93c5fd" strokeWidth={1} strokeDasharray="2 4" dot={false} name="Forecast high" connectNulls />
+                      </>
+                    )}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -399,7 +739,7 @@ export default function Dashboard() {
                     <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                     <XAxis dataKey="category" angle={-30} textAnchor="end" interval={0} height={60} stroke="#64748b" />
                     <YAxis stroke="#64748b" />
-                    <Tooltip contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                    <Tooltip formatter={(value) => fmt.money(Number(value))} contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
                     <Bar dataKey="amount" fill="#3b82f6" radius={[8, 8, 0, 0]} />
                   </BarChart>
                 </ResponsiveContainer>
@@ -412,6 +752,17 @@ export default function Dashboard() {
   )
 }
 
+type CategoryBudgetStatus = {
+  id: string
+  category: string
+  period: 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+  limit: number
+  spent: number
+  remaining: number
+  percentageUsed: number
+  isOverBudget: boolean
+}
+
 const COLORS = ['#3b82f6', '#06b6d4', '#8b5cf6', '#ec4899', '#f59e0b']
 const TYPE_COLORS = ['#10b981', '#ef4444']
 
@@ -431,4 +782,47 @@ function SummaryCard({ title, value, color, bgColor, borderColor }: {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Circular progress ring shared by the monthly and per-category budget views
+function BudgetRing({ percentageUsed, isOverBudget, size = 128 }: {
+  percentageUsed: number
+  isOverBudget: boolean
+  size?: number
+}) {
+  const stroke = size * 0.09375
+  const radius = size / 2 - stroke / 2 - 2
+  const circumference = 2 * Math.PI * radius
+  const color = isOverBudget ? '#ef4444' : percentageUsed > 80 ? '#f59e0b' : '#10b981'
+  const textColor = isOverBudget ? 'text-red-700' : percentageUsed > 80 ? 'text-amber-700' : 'text-emerald-700'
+  return (
+    <div className="relative" style={{ width: size, height: size }}>
+      <svg className="transform -rotate-90" width={size} height={size}>
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke="#e2e8f0"
+          strokeWidth={stroke}
+          fill="transparent"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={color}
+          strokeWidth={stroke}
+          fill="transparent"
+          strokeDasharray={`${circumference}`}
+          strokeDashoffset={`${circumference * (1 - Math.min(percentageUsed / 100, 1))}`}
+          strokeLinecap="round"
+        />
+      </svg>
+      <div className="absolute inset-0 flex items-center justify-center">
+        <span className={`${size >= 128 ? 'text-xl' : 'text-base'} font-bold ${textColor}`}>
+          {Math.round(percentageUsed)}%
+        </span>
+      </div>
+    </div>
+  )
+}
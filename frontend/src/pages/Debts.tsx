@@ -0,0 +1,343 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { api } from '../lib/api'
+import AccountSelect from '../components/AccountSelect'
+import { useFormat } from '../hooks/use-preferences'
+
+type Debt = {
+  id: string
+  name: string
+  principal: number
+  apr: number
+  minimumPayment: number
+  dueDay: number
+  currency: string
+  accountId: string | null
+  balance: number
+  lastPaymentDate: string | null
+  nextDueDate: string | null
+  // Repaying at the minimum payment
+  atMinimum: { paidOff: boolean; payoffDate: string | null; totalInterest: number; totalPaid: number }
+}
+
+type PayoffPlan = {
+  strategy: 'snowball' | 'avalanche'
+  paidOff: boolean
+  months: number | null
+  payoffDate: string | null
+  totalInterest: number
+  totalPaid: number
+  payoffOrder: Array<{ id: string; name: string; month: number; date: string }>
+  timeline: Array<{ month: number; date: string; total: number }>
+}
+
+type Plan = {
+  baseCurrency: string
+  missingRates?: string[]
+  minimumTotal: number
+  monthlyBudget: number
+  snowball: PayoffPlan
+  avalanche: PayoffPlan
+  interestSaved: number
+}
+
+type DebtForm = { name: string; principal: string; apr: string; minimumPayment: string; dueDay: string; accountId: string }
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const EMPTY_FORM: DebtForm = { name: '', principal: '', apr: '', minimumPayment: '', dueDay: '1', accountId: '' }
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-rose-500 focus:ring-4 focus:ring-rose-100 outline-none transition-all bg-white'
+
+// Payments move account balances and spending as well as the debts
+const PAYMENT_QUERIES = ['debts', 'transactions', 'accounts', 'summary', 'trends', 'forecast', 'stats', 'budget-status', 'category-budget-status']
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+export default function Debts() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [form, setForm] = useState<DebtForm>(EMPTY_FORM)
+  const [payment, setPayment] = useState<{ debtId: string; amount: string; accountId: string } | null>(null)
+  const [extra, setExtra] = useState('0')
+
+  const { data: debts = [], isLoading } = useQuery({
+    queryKey: ['debts'],
+    queryFn: async () => {
+      const res = await api.get('/api/debts')
+      return res.data.items as Debt[]
+    },
+  })
+
+  const { data: plan } = useQuery({
+    queryKey: ['debts', 'plan', extra],
+    queryFn: async () => {
+      const res = await api.get(`/api/debts/plan?extra=${Number(extra) || 0}`)
+      return res.data as Plan
+    },
+    enabled: debts.length > 0,
+  })
+
+  const createDebt = useMutation({
+    mutationFn: async (f: DebtForm) => {
+      const res = await api.post('/api/debts', {
+        name: f.name.trim(),
+        principal: Number(f.principal),
+        apr: Number(f.apr),
+        minimumPayment: Number(f.minimumPayment),
+        dueDay: Number(f.dueDay),
+        accountId: f.accountId || undefined,
+      })
+      return res.data as Debt
+    },
+    onSuccess: () => {
+      toast.success('Debt added')
+      setForm(EMPTY_FORM)
+      qc.invalidateQueries({ queryKey: ['debts'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not add debt')),
+  })
+
+  const recordPayment = useMutation({
+    mutationFn: async (p: { debtId: string; amount: number; accountId: string }) => {
+      const res = await api.post(`/api/debts/${p.debtId}/payments`, { amount: p.amount, accountId: p.accountId || undefined })
+      return res.data as { principal: number; interest: number; balance: number }
+    },
+    onSuccess: (result) => {
+      toast.success(`Payment recorded: ${fmt.money(result.principal)} principal, ${fmt.money(result.interest)} interest`)
+      setPayment(null)
+      for (const key of PAYMENT_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not record payment')),
+  })
+
+  const removeDebt = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/debts/${id}`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['debts'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete debt')),
+  })
+
+  // Both strategies' total balance, month by month, on one axis
+  const chartData = useMemo(() => {
+    if (!plan) return []
+    const length = Math.max(plan.snowball.timeline.length, plan.avalanche.timeline.length)
+    return Array.from({ length }, (_, i) => {
+      const point = plan.snowball.timeline[i] ?? plan.avalanche.timeline[i]
+      return {
+        month: point ? fmt.month(point.date) : '',
+        snowball: plan.snowball.timeline[i]?.total ?? 0,
+        avalanche: plan.avalanche.timeline[i]?.total ?? 0,
+      }
+    })
+  }, [plan, fmt])
+
+  const canAdd = form.name.trim() && Number(form.principal) > 0 && Number(form.apr) >= 0 && form.apr !== '' && Number(form.minimumPayment) > 0
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-rose-600 to-rose-800 bg-clip-text text-transparent mb-3">Debts</h1>
+        <p className="text-slate-600 font-medium">
+          Loans and card balances you are paying down. Each payment is split into interest and principal and recorded as a transaction.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-rose-600 to-rose-800 rounded-full"></span>
+          Add Debt
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-7 gap-4 items-end">
+          <div className="lg:col-span-2">
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Name</label>
+            <input className={inputClass} placeholder="e.g., Car loan" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Balance</label>
+            <input type="number" step="0.01" className={inputClass} value={form.principal} onChange={(e) => setForm({ ...form, principal: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">APR %</label>
+            <input type="number" step="0.01" className={inputClass} value={form.apr} onChange={(e) => setForm({ ...form, apr: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Minimum</label>
+            <input type="number" step="0.01" className={inputClass} value={form.minimumPayment} onChange={(e) => setForm({ ...form, minimumPayment: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Due day</label>
+            <input type="number" min={1} max={31} className={inputClass} value={form.dueDay} onChange={(e) => setForm({ ...form, dueDay: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Account</label>
+            <AccountSelect className={`${inputClass} font-medium`} blankLabel="None" value={form.accountId} onChange={(accountId) => setForm({ ...form, accountId })} />
+          </div>
+        </div>
+        <button
+          className="mt-6 px-8 py-3 rounded-xl bg-gradient-to-r from-rose-600 to-rose-700 text-white font-bold hover:from-rose-700 hover:to-rose-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!canAdd || createDebt.isPending}
+          onClick={() => createDebt.mutate(form)}
+        >
+          {createDebt.isPending ? 'Saving...' : 'Add Debt'}
+        </button>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-rose-600 to-rose-800 rounded-full"></span>
+          Your Debts
+        </h2>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : debts.length === 0 ? (
+          <div className="text-slate-500 font-medium">No debts tracked.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3">Name</th>
+                  <th className="p-3 text-right">Balance</th>
+                  <th className="p-3 text-right">APR</th>
+                  <th className="p-3 text-right">Minimum</th>
+                  <th className="p-3">Next due</th>
+                  <th className="p-3">Paid off at minimum</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {debts.map((debt) => {
+                  const editing = payment?.debtId === debt.id ? payment : null
+                  return (
+                    <tr key={debt.id} className="border-b border-slate-100 text-sm">
+                      <td className="p-3 font-bold text-slate-800">{debt.name}</td>
+                      <td className="p-3 text-right font-bold text-rose-700">{fmt.money(debt.balance, debt.currency)}</td>
+                      <td className="p-3 text-right text-slate-700">{fmt.number(debt.apr, { maximumFractionDigits: 2 })}%</td>
+                      <td className="p-3 text-right text-slate-700">{fmt.money(debt.minimumPayment, debt.currency)}</td>
+                      <td className="p-3 text-slate-700">{debt.nextDueDate ? fmt.date(debt.nextDueDate) : '—'}</td>
+                      <td className="p-3 text-slate-700">
+                        {debt.atMinimum.payoffDate
+                          ? `${fmt.month(debt.atMinimum.payoffDate)} (${fmt.money(debt.atMinimum.totalInterest, debt.currency)} interest)`
+                          : <span className="font-semibold text-red-700">Never: the minimum does not cover the interest</span>}
+                      </td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                        {editing ? (
+                          <div className="flex gap-2 justify-end items-center">
+                            <input
+                              type="number"
+                              step="0.01"
+                              placeholder="Amount"
+                              className="w-24 px-2 py-1.5 rounded-lg border-2 border-slate-200 text-sm"
+                              value={editing.amount}
+                              onChange={(e) => setPayment({ ...editing, amount: e.target.value })}
+                            />
+                            <AccountSelect
+                              className="px-2 py-1.5 rounded-lg border-2 border-slate-200 text-sm"
+                              blankLabel={debt.accountId ? 'From account…' : 'No account'}
+                              value={editing.accountId}
+                              onChange={(accountId) => setPayment({ ...editing, accountId })}
+                            />
+                            <button
+                              className="px-3 py-1.5 rounded-lg text-sm font-bold text-white bg-rose-600 hover:bg-rose-700 disabled:opacity-50"
+                              disabled={!(Number(editing.amount) > 0) || (!!debt.accountId && !editing.accountId) || recordPayment.isPending}
+                              onClick={() => recordPayment.mutate({ debtId: debt.id, amount: Number(editing.amount), accountId: editing.accountId })}
+                            >
+                              Save
+                            </button>
+                            <button className="px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100" onClick={() => setPayment(null)}>
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <>
+                            <button
+                              className="px-3 py-1.5 rounded-lg text-sm font-bold text-rose-700 hover:bg-rose-50 transition-all"
+                              onClick={() => setPayment({ debtId: debt.id, amount: String(debt.minimumPayment), accountId: '' })}
+                            >
+                              Record payment
+                            </button>
+                            <button
+                              className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                              onClick={() => {
+                                if (window.confirm(`Delete "${debt.name}" and its payment history? Its transactions stay.`)) removeDebt.mutate(debt.id)
+                              }}
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {plan && (
+        <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+          <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+            <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+            Payoff Plan
+          </h2>
+          <div className="flex flex-wrap items-end gap-6 mb-6">
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Extra per month</label>
+              <input type="number" step="10" min={0} className={inputClass} value={extra} onChange={(e) => setExtra(e.target.value)} />
+            </div>
+            <p className="text-sm text-slate-600 font-medium pb-3">
+              Paying {fmt.money(plan.monthlyBudget)} a month ({fmt.money(plan.minimumTotal)} in minimums).
+              {plan.missingRates && ` Debts in ${plan.missingRates.join(', ')} are left out until you add an exchange rate.`}
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            {[plan.snowball, plan.avalanche].map((p) => (
+              <div key={p.strategy} className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-blue-50 p-5">
+                <div className="font-bold text-slate-800">{p.strategy === 'snowball' ? 'Snowball (smallest balance first)' : 'Avalanche (highest rate first)'}</div>
+                {p.paidOff && p.payoffDate ? (
+                  <div className="mt-2 text-sm text-slate-700 font-medium">
+                    Debt-free by {fmt.month(p.payoffDate)} ({p.months} months) · {fmt.money(p.totalInterest)} interest
+                  </div>
+                ) : (
+                  <div className="mt-2 text-sm text-red-700 font-semibold">Not paid off within 50 years at this rate</div>
+                )}
+                <ol className="mt-3 text-sm text-slate-600 list-decimal list-inside">
+                  {p.payoffOrder.map((d) => (
+                    <li key={d.id}>{d.name}: {fmt.month(d.date)}</li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+          {plan.interestSaved > 0 && (
+            <p className="mb-6 text-sm font-semibold text-emerald-700">Avalanche saves {fmt.money(plan.interestSaved)} in interest over snowball.</p>
+          )}
+          <div style={{ width: '100%', height: '320px' }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="month" stroke="#64748b" minTickGap={24} />
+                <YAxis stroke="#64748b" />
+                <Tooltip formatter={(value) => fmt.money(Number(value))} contentStyle={{ borderRadius: '12px', border: '2px solid #e2e8f0', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                <Legend />
+                <Line type="monotone" dataKey="snowball" name="Snowball" stroke="#f43f5e" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="avalanche" name="Avalanche" stroke="#3b82f6" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
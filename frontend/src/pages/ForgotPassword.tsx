@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link } from 'react-router-dom'
+import { api } from '../lib/api'
+
+const schema = z.object({
+  email: z.string().trim().email('Invalid email address')
+})
+type Form = z.infer<typeof schema>
+
+export default function ForgotPassword() {
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const { register, handleSubmit, formState: { errors, isSubmitting }, setError } = useForm<Form>({ resolver: zodResolver(schema) })
+  return (
+    <div className="max-w-md mx-auto mt-20">
+      <div className="bg-white/90 backdrop-blur rounded-3xl shadow-2xl border border-slate-200/50 p-10">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Forgot Password</h1>
+          <p className="text-slate-600">We will email you a link to choose a new one</p>
+        </div>
+        {sentTo ? (
+          <div className="space-y-6 text-center">
+            <p className="text-slate-700">
+              If <span className="font-bold">{sentTo}</span> has an account, a reset link is on its way. It works once and expires in 1 hour.
+            </p>
+            <Link to="/login" className="inline-block text-sm font-bold text-blue-600 hover:text-blue-800">Back to sign in</Link>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(async (v) => {
+            try {
+              await api.post('/api/auth/forgot', v)
+              setSentTo(v.email)
+            } catch {
+              setError('email', { message: 'Could not send the email, please try again' })
+            }
+          })}>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-3">Email Address</label>
+              <input
+                placeholder="you@example.com"
+                className="w-full px-5 py-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-slate-900 font-medium"
+                {...register('email')}
+              />
+              {errors.email && <div className="text-red-600 text-sm mt-2 font-medium">{errors.email.message}</div>}
+            </div>
+            <button
+              disabled={isSubmitting}
+              className="w-full px-5 py-4 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold hover:from-blue-700 hover:to-blue-800 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5 duration-300"
+            >
+              {isSubmitting ? 'Sending...' : 'Send Reset Link'}
+            </button>
+            <div className="text-center">
+              <Link to="/login" className="text-sm font-bold text-blue-600 hover:text-blue-800">Back to sign in</Link>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
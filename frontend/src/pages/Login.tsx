@@ -1,8 +1,8 @@
 import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { useNavigate } from 'react-router-dom'
-import { api } from '../lib/api'
+import { Link, useNavigate } from 'react-router-dom'
+import { api, setSession } from '../lib/api'
 
 const schema = z.object({
   email: z.string().trim().min(6, 'Email must be at least 6 characters').email('Invalid email address'),
@@ -23,7 +23,7 @@ export default function Login() {
         <form className="space-y-6" onSubmit={handleSubmit(async (v) => {
           try {
             const res = await api.post('/api/auth/login', v)
-            localStorage.setItem('token', res.data.token)
+            setSession(res.data)
             navigate('/dashboard')
           } catch {
             setError('password', { message: 'Invalid email or password' })
@@ -47,6 +47,9 @@ export default function Login() {
               {...register('password')} 
             />
             {errors.password && <div className="text-red-600 text-sm mt-2 font-medium">{errors.password.message}</div>}
+            <div className="text-right mt-2">
+              <Link to="/forgot-password" className="text-sm font-bold text-blue-600 hover:text-blue-800">Forgot password?</Link>
+            </div>
           </div>
           <button 
             disabled={isSubmitting} 
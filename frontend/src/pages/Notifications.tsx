@@ -0,0 +1,288 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import AccountSelect from '../components/AccountSelect'
+import { useCategories } from '../hooks/use-categories'
+import { useNotifications } from '../hooks/use-notifications'
+import type { NotificationLevel } from '../hooks/use-notifications'
+import { useFormat } from '../hooks/use-preferences'
+
+type RuleKind = 'BUDGET_PERCENT' | 'CATEGORY_CAP' | 'LARGE_TRANSACTION' | 'LOW_BALANCE'
+
+type NotificationRule = {
+  id: string
+  kind: RuleKind
+  threshold: number
+  categoryId: string | null
+  categoryName: string | null
+  accountId: string | null
+  accountName: string | null
+  accountCurrency: string | null
+  active: boolean
+}
+
+type RuleForm = {
+  kind: RuleKind
+  threshold: string
+  categoryId: string
+  accountId: string
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const EMPTY_FORM: RuleForm = { kind: 'BUDGET_PERCENT', threshold: '', categoryId: '', accountId: '' }
+
+const KIND_LABELS: Record<RuleKind, string> = {
+  BUDGET_PERCENT: 'Monthly budget used',
+  CATEGORY_CAP: 'Category spending cap',
+  LARGE_TRANSACTION: 'Large transaction',
+  LOW_BALANCE: 'Low account balance',
+}
+
+const LEVEL_BADGES: Record<NotificationLevel, string> = {
+  INFO: 'bg-blue-100 text-blue-800',
+  WARNING: 'bg-amber-100 text-amber-800',
+  CRITICAL: 'bg-red-100 text-red-800',
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+function describe(rule: NotificationRule, money: (amount: number, currency?: string) => string) {
+  switch (rule.kind) {
+    case 'BUDGET_PERCENT':
+      return `When ${rule.threshold}% of the month's budget is spent`
+    case 'CATEGORY_CAP':
+      return `When ${rule.categoryName ?? 'a category'} passes ${money(rule.threshold)} in a month`
+    case 'LARGE_TRANSACTION':
+      return `For any transaction of ${money(rule.threshold)} or more`
+    case 'LOW_BALANCE':
+      return `When ${rule.accountName ?? 'any account'} drops below ${money(rule.threshold, rule.accountCurrency ?? undefined)}`
+  }
+}
+
+export default function Notifications() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const { data: categories = [] } = useCategories()
+  const { data: notifications } = useNotifications()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['notification-rules'],
+    queryFn: async () => {
+      const res = await api.get('/api/notifications/rules')
+      return res.data as { items: NotificationRule[] }
+    },
+  })
+
+  // Saving a rule checks it at once, which may store a notification
+  const onRuleSaved = () => {
+    qc.invalidateQueries({ queryKey: ['notification-rules'] })
+    qc.invalidateQueries({ queryKey: ['notifications'] })
+  }
+
+  const createRule = useMutation({
+    mutationFn: async (f: RuleForm) => {
+      const res = await api.post('/api/notifications/rules', {
+        kind: f.kind,
+        threshold: Number(f.threshold),
+        categoryId: f.kind === 'CATEGORY_CAP' ? f.categoryId : null,
+        accountId: f.kind === 'LOW_BALANCE' ? f.accountId || null : null,
+      })
+      return res.data as NotificationRule
+    },
+    onSuccess: () => {
+      toast.success('Notification rule saved')
+      setForm(EMPTY_FORM)
+      onRuleSaved()
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not save rule')),
+  })
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...patch }: { id: string; threshold?: number; active?: boolean }) => {
+      const res = await api.patch(`/api/notifications/rules/${id}`, patch)
+      return res.data as NotificationRule
+    },
+    onSuccess: onRuleSaved,
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not update rule')),
+  })
+
+  const removeRule = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/notifications/rules/${id}`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['notification-rules'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete rule')),
+  })
+
+  const expenseCategories = categories.filter((c) => !c.type || c.type === 'EXPENSE')
+  const canSave = form.threshold !== '' && Number(form.threshold) >= 0 && (form.kind !== 'CATEGORY_CAP' || !!form.categoryId)
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Notifications</h1>
+        <p className="text-slate-600 font-medium">
+          Rules are checked whenever your transactions, budget or accounts change, including imports. Each threshold is reported once: budget and cap rules once a
+          month, large transactions once per transaction.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
+          New Rule
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Notify about</label>
+            <select className={`${inputClass} font-medium`} value={form.kind} onChange={(e) => setForm({ ...form, kind: e.target.value as RuleKind })}>
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">{form.kind === 'BUDGET_PERCENT' ? 'Percent used' : 'Amount'}</label>
+            <input
+              type="number"
+              min="0"
+              step={form.kind === 'BUDGET_PERCENT' ? '1' : '0.01'}
+              className={inputClass}
+              placeholder={form.kind === 'BUDGET_PERCENT' ? 'e.g., 80' : '0.00'}
+              value={form.threshold}
+              onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+            />
+          </div>
+          {form.kind === 'CATEGORY_CAP' && (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Category</label>
+              <select className={`${inputClass} font-medium`} value={form.categoryId} onChange={(e) => setForm({ ...form, categoryId: e.target.value })}>
+                <option value="">Choose…</option>
+                {expenseCategories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {form.kind === 'LOW_BALANCE' && (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-3">Account</label>
+              <AccountSelect className={`${inputClass} font-medium`} blankLabel="All accounts" value={form.accountId} onChange={(accountId) => setForm({ ...form, accountId })} />
+            </div>
+          )}
+          <div className="flex items-end">
+            <button
+              className="px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!canSave || createRule.isPending}
+              onClick={() => createRule.mutate(form)}
+            >
+              Save Rule
+            </button>
+          </div>
+        </div>
+        {form.kind === 'LOW_BALANCE' && (
+          <p className="mt-4 text-sm text-slate-500 font-medium">A rule on one account uses that account's currency; a rule on all accounts uses your base currency.</p>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+          Your Rules
+        </h2>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : (data?.items.length ?? 0) === 0 ? (
+          <div className="text-slate-500 font-medium">No rules yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3">Rule</th>
+                  <th className="p-3 w-36">Threshold</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data?.items.map((rule) => (
+                  <tr key={rule.id} className={`border-b border-slate-100 ${rule.active ? '' : 'opacity-50'}`}>
+                    <td className="p-3 text-sm">
+                      <div className="font-bold text-slate-800">{KIND_LABELS[rule.kind]}</div>
+                      <div className="text-slate-600">{describe(rule, fmt.money)}</div>
+                    </td>
+                    <td className="p-3">
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-28 px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 outline-none"
+                        defaultValue={rule.threshold}
+                        onBlur={(e) => {
+                          const threshold = Number(e.target.value)
+                          if (e.target.value !== '' && threshold !== rule.threshold) updateRule.mutate({ id: rule.id, threshold })
+                        }}
+                      />
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => updateRule.mutate({ id: rule.id, active: !rule.active })}
+                      >
+                        {rule.active ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                        onClick={() => {
+                          if (window.confirm(`Delete the rule "${describe(rule, fmt.money)}"?`)) removeRule.mutate(rule.id)
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-amber-500 to-amber-700 rounded-full"></span>
+          Recent Notifications
+        </h2>
+        {(notifications?.items.length ?? 0) === 0 ? (
+          <div className="text-slate-500 font-medium">Nothing reported yet.</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {notifications?.items.map((n) => (
+              <li key={n.id} className="py-3 flex items-start gap-4 text-sm">
+                <span className={`px-2 py-1 rounded-full text-xs font-bold ${LEVEL_BADGES[n.level]}`}>{n.level.toLowerCase()}</span>
+                <div className="flex-1">
+                  <div className="font-bold text-slate-800">{n.title}</div>
+                  <div className="text-slate-600">{n.message}</div>
+                </div>
+                <div className="text-xs text-slate-500 whitespace-nowrap">{fmt.date(n.createdAt)}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
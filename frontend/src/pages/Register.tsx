@@ -2,7 +2,7 @@ import { useForm } from 'react-hook-form'
 import { z } from 'zod'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useNavigate } from 'react-router-dom'
-import { api } from '../lib/api'
+import { api, setSession } from '../lib/api'
 
 const schema = z.object({
   email: z.string().trim().min(6, 'Email must be at least 6 characters').email('Invalid email address'),
@@ -24,7 +24,7 @@ export default function Register() {
         <form className="space-y-6" onSubmit={handleSubmit(async (v) => {
           try {
             const res = await api.post('/api/auth/register', v)
-            localStorage.setItem('token', res.data.token)
+            setSession(res.data)
             navigate('/dashboard')
           } catch (e: any) {
             const msg = e?.response?.data?.error || 'Registration failed'
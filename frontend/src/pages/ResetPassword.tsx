@@ -0,0 +1,86 @@
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+
+const schema = z.object({
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirm: z.string()
+}).refine((v) => v.password === v.confirm, { message: 'Passwords do not match', path: ['confirm'] })
+type Form = z.infer<typeof schema>
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  return error.message || fallback
+}
+
+// Opened from the link in the reset email
+export default function ResetPassword() {
+  const navigate = useNavigate()
+  const [params] = useSearchParams()
+  const token = params.get('token')
+  const { register, handleSubmit, formState: { errors, isSubmitting }, setError } = useForm<Form>({ resolver: zodResolver(schema) })
+  return (
+    <div className="max-w-md mx-auto mt-20">
+      <div className="bg-white/90 backdrop-blur rounded-3xl shadow-2xl border border-slate-200/50 p-10">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Choose a New Password</h1>
+          <p className="text-slate-600">Every device signed in to your account will be signed out</p>
+        </div>
+        {!token ? (
+          <div className="space-y-6 text-center">
+            <p className="text-slate-700">This link is incomplete. Open the link from the email again, or ask for a new one.</p>
+            <Link to="/forgot-password" className="inline-block text-sm font-bold text-blue-600 hover:text-blue-800">Send a new link</Link>
+          </div>
+        ) : (
+          <form className="space-y-6" onSubmit={handleSubmit(async (v) => {
+            try {
+              await api.post('/api/auth/reset', { token, password: v.password })
+              toast.success('Password changed, sign in with your new password')
+              navigate('/login')
+            } catch (e) {
+              setError('password', { message: errorMessage(e as ApiError, 'Could not reset password') })
+            }
+          })}>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-3">New Password</label>
+              <input
+                type="password"
+                placeholder="At least 6 characters"
+                className="w-full px-5 py-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-slate-900 font-medium"
+                {...register('password')}
+              />
+              {errors.password && <div className="text-red-600 text-sm mt-2 font-medium">{errors.password.message}</div>}
+            </div>
+            <div>
+              <label className="block text-sm font-bold text-slate-700 mb-3">Confirm Password</label>
+              <input
+                type="password"
+                placeholder="Type it again"
+                className="w-full px-5 py-4 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-slate-900 font-medium"
+                {...register('confirm')}
+              />
+              {errors.confirm && <div className="text-red-600 text-sm mt-2 font-medium">{errors.confirm.message}</div>}
+            </div>
+            <button
+              disabled={isSubmitting}
+              className="w-full px-5 py-4 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold hover:from-blue-700 hover:to-blue-800 disabled:from-slate-400 disabled:to-slate-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl hover:-translate-y-0.5 duration-300"
+            >
+              {isSubmitting ? 'Saving...' : 'Set New Password'}
+            </button>
+            {errors.password?.message === 'Invalid or expired link' && (
+              <div className="text-center">
+                <Link to="/forgot-password" className="text-sm font-bold text-blue-600 hover:text-blue-800">Send a new link</Link>
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
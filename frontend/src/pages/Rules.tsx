@@ -0,0 +1,312 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import CategorySelect from '../components/CategorySelect'
+import { useFormat } from '../hooks/use-preferences'
+
+type MatchMode = 'CONTAINS' | 'REGEX'
+
+type CategoryRule = {
+  id: string
+  name: string
+  priority: number
+  descriptionPattern: string | null
+  matchMode: MatchMode
+  minAmount: number | null
+  maxAmount: number | null
+  type: 'INCOME' | 'EXPENSE' | null
+  category: string
+  tags: string[]
+  active: boolean
+}
+
+type RuleForm = {
+  name: string
+  priority: string
+  descriptionPattern: string
+  matchMode: MatchMode
+  minAmount: string
+  maxAmount: string
+  type: '' | 'INCOME' | 'EXPENSE'
+  category: string
+  tags: string
+}
+
+type RulePreview = {
+  scanned: number
+  matched: number
+  wouldChange: number
+  items: Array<{ id: string; date: string; description: string | null; amount: number; category: string; newCategory: string }>
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '0',
+  descriptionPattern: '',
+  matchMode: 'CONTAINS',
+  minAmount: '',
+  maxAmount: '',
+  type: '',
+  category: '',
+  tags: '',
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+
+// Validation errors come back either as a message or as zod's flattened shape
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+function toConditions(form: RuleForm) {
+  return {
+    descriptionPattern: form.descriptionPattern.trim() || null,
+    matchMode: form.matchMode,
+    minAmount: form.minAmount ? Number(form.minAmount) : null,
+    maxAmount: form.maxAmount ? Number(form.maxAmount) : null,
+    type: form.type || null,
+    category: form.category.trim(),
+    tags: form.tags.split(',').map((t) => t.trim()).filter(Boolean),
+  }
+}
+
+function describe(rule: CategoryRule, money: (amount: number) => string) {
+  const parts: string[] = []
+  if (rule.type) parts.push(rule.type.toLowerCase())
+  if (rule.descriptionPattern) parts.push(`${rule.matchMode === 'REGEX' ? 'matches' : 'contains'} "${rule.descriptionPattern}"`)
+  if (rule.minAmount !== null && rule.maxAmount !== null) parts.push(`${money(rule.minAmount)}–${money(rule.maxAmount)}`)
+  else if (rule.minAmount !== null) parts.push(`≥ ${money(rule.minAmount)}`)
+  else if (rule.maxAmount !== null) parts.push(`≤ ${money(rule.maxAmount)}`)
+  return parts.join(', ')
+}
+
+export default function Rules() {
+  const qc = useQueryClient()
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [preview, setPreview] = useState<RulePreview | null>(null)
+  const fmt = useFormat()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['rules'],
+    queryFn: async () => {
+      const res = await api.get('/api/rules')
+      return res.data as { items: CategoryRule[] }
+    },
+  })
+
+  const testRule = useMutation({
+    mutationFn: async (f: RuleForm) => {
+      const res = await api.post('/api/rules/preview', toConditions(f))
+      return res.data as RulePreview
+    },
+    onSuccess: setPreview,
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not test rule')),
+  })
+
+  const createRule = useMutation({
+    mutationFn: async (f: RuleForm) => {
+      const res = await api.post('/api/rules', { ...toConditions(f), name: f.name.trim(), priority: Number(f.priority) || 0 })
+      return res.data as CategoryRule
+    },
+    onSuccess: () => {
+      toast.success('Rule saved')
+      setForm(EMPTY_FORM)
+      setPreview(null)
+      qc.invalidateQueries({ queryKey: ['rules'] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not save rule')),
+  })
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...patch }: { id: string; priority?: number; active?: boolean }) => {
+      const res = await api.patch(`/api/rules/${id}`, patch)
+      return res.data as CategoryRule
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['rules'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not update rule')),
+  })
+
+  const removeRule = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/rules/${id}`)
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['rules'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not delete rule')),
+  })
+
+  const hasCondition = !!form.descriptionPattern.trim() || !!form.minAmount || !!form.maxAmount || !!form.type
+  const canTest = hasCondition && !!form.category.trim()
+  const canSave = canTest && !!form.name.trim()
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Categorisation Rules</h1>
+        <p className="text-slate-600 font-medium">
+          Rules run on every new and imported transaction. The first matching rule, by priority, sets the category and adds its tags.
+          Categories you pick by hand are kept.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
+          New Rule
+        </h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Name</label>
+            <input className={inputClass} placeholder="e.g., Coffee shops" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Description</label>
+            <input className={inputClass} placeholder="e.g., starbucks" value={form.descriptionPattern} onChange={(e) => setForm({ ...form, descriptionPattern: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Match</label>
+            <select className={`${inputClass} font-medium`} value={form.matchMode} onChange={(e) => setForm({ ...form, matchMode: e.target.value as MatchMode })}>
+              <option value="CONTAINS">Contains</option>
+              <option value="REGEX">Regular expression</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Type</label>
+            <select className={`${inputClass} font-medium`} value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as RuleForm['type'] })}>
+              <option value="">Any</option>
+              <option value="EXPENSE">Expense</option>
+              <option value="INCOME">Income</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Min amount</label>
+            <input type="number" step="0.01" className={inputClass} value={form.minAmount} onChange={(e) => setForm({ ...form, minAmount: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Max amount</label>
+            <input type="number" step="0.01" className={inputClass} value={form.maxAmount} onChange={(e) => setForm({ ...form, maxAmount: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Category</label>
+            <CategorySelect className={`${inputClass} font-medium`} blankLabel="Choose…" type={form.type || undefined} value={form.category} onChange={(category) => setForm({ ...form, category })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Tags</label>
+            <input className={inputClass} placeholder="comma, separated" value={form.tags} onChange={(e) => setForm({ ...form, tags: e.target.value })} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Priority</label>
+            <input type="number" className={inputClass} value={form.priority} onChange={(e) => setForm({ ...form, priority: e.target.value })} />
+          </div>
+          <div className="flex items-end gap-3 lg:col-span-3">
+            <button
+              className="px-6 py-3 rounded-xl border-2 border-blue-200 text-blue-700 hover:bg-blue-50 transition-all font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!canTest || testRule.isPending}
+              onClick={() => testRule.mutate(form)}
+            >
+              {testRule.isPending ? 'Testing...' : 'Test Against History'}
+            </button>
+            <button
+              className="px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!canSave || createRule.isPending}
+              onClick={() => createRule.mutate(form)}
+            >
+              Save Rule
+            </button>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="mt-8 border-2 border-slate-200 rounded-xl p-5 bg-gradient-to-br from-slate-50 to-blue-50">
+            <div className="font-bold text-slate-800 mb-3">
+              Matches {preview.matched} of {preview.scanned} transactions; {preview.wouldChange} would change category
+            </div>
+            {preview.items.length > 0 && (
+              <ul className="space-y-1 text-sm text-slate-700 max-h-72 overflow-y-auto">
+                {preview.items.map((t) => (
+                  <li key={t.id}>
+                    {fmt.date(t.date)} · {t.description || '—'} · {fmt.money(t.amount)} ·{' '}
+                    {t.category === t.newCategory ? t.category : <span><span className="line-through text-slate-400">{t.category}</span> → <span className="font-bold">{t.newCategory}</span></span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+          Your Rules
+        </h2>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : (data?.items.length ?? 0) === 0 ? (
+          <div className="text-slate-500 font-medium">No rules yet. Imported rows keep the importer's best guess.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3 w-24">Priority</th>
+                  <th className="p-3">Rule</th>
+                  <th className="p-3">Category</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data?.items.map((rule) => (
+                  <tr key={rule.id} className={`border-b border-slate-100 ${rule.active ? '' : 'opacity-50'}`}>
+                    <td className="p-3">
+                      <input
+                        type="number"
+                        className="w-20 px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 outline-none"
+                        defaultValue={rule.priority}
+                        onBlur={(e) => {
+                          const priority = Number(e.target.value)
+                          if (priority !== rule.priority) updateRule.mutate({ id: rule.id, priority })
+                        }}
+                      />
+                    </td>
+                    <td className="p-3 text-sm">
+                      <div className="font-bold text-slate-800">{rule.name}</div>
+                      <div className="text-slate-600">{describe(rule, fmt.money)}</div>
+                    </td>
+                    <td className="p-3 text-sm text-slate-700 font-medium">
+                      {rule.category}
+                      {rule.tags.map((tag) => (
+                        <span key={tag} className="ml-2 inline-flex px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-semibold">#{tag}</span>
+                      ))}
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => updateRule.mutate({ id: rule.id, active: !rule.active })}
+                      >
+                        {rule.active ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 transition-all"
+                        onClick={() => {
+                          if (window.confirm(`Delete rule "${rule.name}"?`)) removeRule.mutate(rule.id)
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { DATE_FORMATS, DEFAULT_PREFERENCES, formatDate, formatMoney } from '../lib/format'
+import type { Preferences } from '../lib/format'
+import { usePreferences } from '../hooks/use-preferences'
+import DigestSettings from '../components/DigestSettings'
+import SessionsPanel from '../components/SessionsPanel'
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white'
+
+// Anything with amounts, dates or budget periods in it is rendered from these
+const FORMATTED_QUERIES = ['preferences', 'currencies', 'accounts', 'summary', 'trends', 'forecast', 'stats', 'budget-status', 'budget-history', 'category-budget-status']
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+function isValidLocale(locale: string) {
+  try {
+    return Intl.getCanonicalLocales(locale).length > 0
+  } catch {
+    return false
+  }
+}
+
+function isValidCurrency(currency: string) {
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    return currency.length === 3
+  } catch {
+    return false
+  }
+}
+
+export default function Settings() {
+  const qc = useQueryClient()
+  const { data: saved, isLoading } = usePreferences()
+  // Unsaved edits on top of the stored preferences
+  const [draft, setDraft] = useState<Partial<Preferences>>({})
+  const form: Preferences = { ...DEFAULT_PREFERENCES, ...saved, ...draft }
+  const canPreview = isValidLocale(form.locale) && isValidCurrency(form.currency)
+
+  const save = useMutation({
+    mutationFn: async (payload: Partial<Preferences>) => {
+      const res = await api.patch('/api/me/preferences', payload)
+      return res.data as Preferences
+    },
+    onSuccess: (prefs) => {
+      qc.setQueryData(['preferences'], prefs)
+      for (const key of FORMATTED_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+      setDraft({})
+      toast.success('Preferences saved')
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not save preferences')),
+  })
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent mb-3">Settings</h1>
+        <p className="text-slate-600 font-medium">
+          How amounts and dates are written across the app, the chatbot's replies and budget periods, and which summaries are emailed to you.
+        </p>
+      </div>
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+          Formatting
+        </h2>
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">Locale</label>
+                <input className={inputClass} placeholder="e.g., en-GB" value={form.locale} onChange={(e) => setDraft({ ...draft, locale: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">Currency</label>
+                <input className={inputClass} maxLength={3} value={form.currency} onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">Week starts on</label>
+                <select className={`${inputClass} font-medium`} value={form.weekStartsOn} onChange={(e) => setDraft({ ...draft, weekStartsOn: Number(e.target.value) })}>
+                  {WEEKDAYS.map((day, i) => (
+                    <option key={day} value={i}>{day}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">Date format</label>
+                <select className={`${inputClass} font-medium`} value={form.dateFormat} onChange={(e) => setDraft({ ...draft, dateFormat: e.target.value as Preferences['dateFormat'] })}>
+                  {DATE_FORMATS.map((f) => (
+                    <option key={f} value={f}>{f === 'locale' ? 'Locale default' : f}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="mt-5 text-sm text-slate-600 font-medium">
+              {canPreview ? `Preview: ${formatMoney(1234567.89, form)} on ${formatDate(new Date(), form)}` : 'Enter a valid locale (e.g., fr-FR) and a three-letter currency code.'}
+            </p>
+            <p className="mt-1 text-sm text-slate-500">
+              The currency is also your base currency: totals are converted into it. Changing it here does not relabel existing amounts.
+            </p>
+            <button
+              className="mt-6 px-8 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold hover:from-blue-700 hover:to-blue-800 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={Object.keys(draft).length === 0 || !canPreview || save.isPending}
+              onClick={() => save.mutate(draft)}
+            >
+              {save.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </>
+        )}
+      </div>
+
+      <DigestSettings />
+
+      <SessionsPanel />
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { api } from '../lib/api'
+import { useFormat } from '../hooks/use-preferences'
+
+type Status = 'CANDIDATE' | 'CONFIRMED' | 'IGNORED'
+
+type Subscription = {
+  key: string
+  description: string
+  category: string
+  cadence: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'
+  // Latest charge, in its own currency
+  amount: number
+  currency: string
+  // In the base currency
+  annualCost: number
+  previousAmount: number | null
+  priceIncreased: boolean
+  priceChangedAt: string | null
+  occurrences: number
+  firstDate: string
+  lastDate: string
+  nextDate: string
+  active: boolean
+  status: Status
+  recurringRuleId: string | null
+}
+
+type SubscriptionsResponse = {
+  items: Subscription[]
+  annualTotal: number
+  monthlyTotal: number
+  priceIncreases: number
+  baseCurrency: string
+  missingRates?: string[]
+}
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+const CADENCE_LABELS: Record<Subscription['cadence'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+}
+
+const STATUS_BADGES: Record<Status, string> = {
+  CANDIDATE: 'bg-amber-100 text-amber-800',
+  CONFIRMED: 'bg-emerald-100 text-emerald-800',
+  IGNORED: 'bg-slate-100 text-slate-600',
+}
+
+// Converting adds a recurring rule, which the forecast then schedules
+const CONVERT_QUERIES = ['subscriptions', 'recurring', 'forecast']
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  if (detail) return `${fallback}: invalid input`
+  return error.message || fallback
+}
+
+// Detection dates are whole UTC days; show them as that calendar day
+const day = (iso: string) => `${iso.slice(0, 10)}T00:00:00`
+
+export default function Subscriptions() {
+  const qc = useQueryClient()
+  const fmt = useFormat()
+  const [showIgnored, setShowIgnored] = useState(false)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['subscriptions'],
+    queryFn: async () => {
+      const res = await api.get('/api/insights/subscriptions')
+      return res.data as SubscriptionsResponse
+    },
+  })
+
+  const setStatus = useMutation({
+    mutationFn: async ({ key, status }: { key: string; status: Status }) => {
+      await api.patch(`/api/insights/subscriptions/${encodeURIComponent(key)}`, { status })
+    },
+    onSuccess: () => qc.invalidateQueries({ queryKey: ['subscriptions'] }),
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not update subscription')),
+  })
+
+  const convert = useMutation({
+    mutationFn: async (key: string) => {
+      const res = await api.post(`/api/insights/subscriptions/${encodeURIComponent(key)}/convert`, {})
+      return res.data as { subscription: Subscription }
+    },
+    onSuccess: ({ subscription }) => {
+      toast.success(`Tracking "${subscription.description}" from ${fmt.date(day(subscription.nextDate))}`)
+      for (const key of CONVERT_QUERIES) qc.invalidateQueries({ queryKey: [key] })
+    },
+    onError: (error: ApiError) => toast.error(errorMessage(error, 'Could not track subscription')),
+  })
+
+  const items = data?.items ?? []
+  const ignored = items.filter((s) => s.status === 'IGNORED')
+  const visible = showIgnored ? items : items.filter((s) => s.status !== 'IGNORED')
+  const busy = setStatus.isPending || convert.isPending
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-violet-600 to-violet-800 bg-clip-text text-transparent mb-3">Subscriptions</h1>
+        <p className="text-slate-600 font-medium">
+          Charges that repeat on a schedule, found in your transaction history. Confirm the ones you know, ignore the rest, or track one as a recurring expense.
+        </p>
+      </div>
+
+      {data && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-violet-50 p-6">
+            <div className="text-sm font-semibold text-slate-600">Per month</div>
+            <div className="mt-1 text-2xl font-bold text-violet-700">{fmt.money(data.monthlyTotal, data.baseCurrency)}</div>
+          </div>
+          <div className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-violet-50 p-6">
+            <div className="text-sm font-semibold text-slate-600">Per year</div>
+            <div className="mt-1 text-2xl font-bold text-violet-700">{fmt.money(data.annualTotal, data.baseCurrency)}</div>
+          </div>
+          <div className="rounded-2xl border-2 border-slate-200 bg-gradient-to-br from-slate-50 to-violet-50 p-6">
+            <div className="text-sm font-semibold text-slate-600">Price increases this year</div>
+            <div className={`mt-1 text-2xl font-bold ${data.priceIncreases > 0 ? 'text-red-600' : 'text-slate-800'}`}>{data.priceIncreases}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+        <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+          <span className="w-1.5 h-8 bg-gradient-to-b from-violet-600 to-violet-800 rounded-full"></span>
+          Detected Subscriptions
+          {ignored.length > 0 && (
+            <label className="ml-auto flex items-center gap-2 text-sm font-medium text-slate-600">
+              <input type="checkbox" checked={showIgnored} onChange={(e) => setShowIgnored(e.target.checked)} />
+              Show ignored ({ignored.length})
+            </label>
+          )}
+        </h2>
+        {data?.missingRates && (
+          <p className="mb-4 text-sm text-amber-700 font-medium">Yearly costs leave out charges in {data.missingRates.join(', ')} until you add an exchange rate.</p>
+        )}
+        {isLoading ? (
+          <div className="text-slate-500 font-medium">Loading...</div>
+        ) : visible.length === 0 ? (
+          <div className="text-slate-500 font-medium">No subscriptions found yet. They show up once a charge has repeated a few times.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b-2 border-slate-200 text-left text-sm font-bold text-slate-700">
+                  <th className="p-3">Description</th>
+                  <th className="p-3">Every</th>
+                  <th className="p-3 text-right">Amount</th>
+                  <th className="p-3 text-right">Per year</th>
+                  <th className="p-3">Next charge</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((s) => (
+                  <tr key={s.key} className={`border-b border-slate-100 text-sm ${s.status === 'IGNORED' ? 'opacity-60' : ''}`}>
+                    <td className="p-3">
+                      <div className="font-bold text-slate-800">{s.description}</div>
+                      <div className="text-xs text-slate-500">
+                        {s.category} · {s.occurrences} charges since {fmt.date(day(s.firstDate))}
+                      </div>
+                    </td>
+                    <td className="p-3 text-slate-700">{CADENCE_LABELS[s.cadence]}</td>
+                    <td className="p-3 text-right">
+                      <div className="font-bold text-slate-800">{fmt.money(s.amount, s.currency)}</div>
+                      {s.priceIncreased && s.previousAmount !== null && s.priceChangedAt && (
+                        <div className="text-xs font-semibold text-red-600">
+                          ↑ from {fmt.money(s.previousAmount, s.currency)} on {fmt.date(day(s.priceChangedAt))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-3 text-right font-semibold text-violet-700">{data && fmt.money(s.annualCost, data.baseCurrency)}</td>
+                    <td className="p-3 text-slate-700">{s.active ? fmt.date(day(s.nextDate)) : <span className="text-slate-500">Stopped</span>}</td>
+                    <td className="p-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-bold ${STATUS_BADGES[s.status]}`}>
+                        {s.status === 'CANDIDATE' ? 'New' : s.status === 'CONFIRMED' ? 'Confirmed' : 'Ignored'}
+                      </span>
+                      {s.recurringRuleId && <span className="ml-2 px-2 py-1 rounded-full text-xs font-bold bg-violet-100 text-violet-800">Tracked</span>}
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      {s.status !== 'CONFIRMED' && (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-emerald-700 hover:bg-emerald-50 transition-all disabled:opacity-50"
+                          disabled={busy}
+                          onClick={() => setStatus.mutate({ key: s.key, status: 'CONFIRMED' })}
+                        >
+                          Confirm
+                        </button>
+                      )}
+                      {!s.recurringRuleId && s.active && (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-violet-700 hover:bg-violet-50 transition-all disabled:opacity-50"
+                          disabled={busy}
+                          onClick={() => convert.mutate(s.key)}
+                        >
+                          Track as recurring
+                        </button>
+                      )}
+                      {s.status === 'IGNORED' ? (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-all disabled:opacity-50"
+                          disabled={busy}
+                          onClick={() => setStatus.mutate({ key: s.key, status: 'CANDIDATE' })}
+                        >
+                          Restore
+                        </button>
+                      ) : (
+                        <button
+                          className="px-3 py-1.5 rounded-lg text-sm font-bold text-slate-600 hover:bg-slate-100 transition-all disabled:opacity-50"
+                          disabled={busy}
+                          onClick={() => setStatus.mutate({ key: s.key, status: 'IGNORED' })}
+                        >
+                          Ignore
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
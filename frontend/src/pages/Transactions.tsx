@@ -2,18 +2,59 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
 import { api } from '../lib/api'
 import { toast } from 'sonner' // NEW IMPORT
+import CategorySelect from '../components/CategorySelect'
+import AccountSelect from '../components/AccountSelect'
+import { useAccounts } from '../hooks/use-accounts'
+import { useFormat } from '../hooks/use-preferences'
 
 type Tx = {
   id: string
-  type: 'INCOME' | 'EXPENSE'
+  type: 'INCOME' | 'EXPENSE' | 'TRANSFER'
   amount: number
+  // Blank on a new transaction: the account's currency, else the base currency
+  currency?: string
   category: string
   description?: string
   date: string
+  recurringRuleId?: string | null
+  tags?: string[]
+  accountId?: string | null
+  // Where a TRANSFER arrives; accountId is where it leaves
+  transferAccountId?: string | null
+  // Account balance after this row; only sent when filtering by account
+  balance?: number | null
 }
 
+const TYPE_BADGES: Record<Tx['type'], string> = {
+  INCOME: 'bg-gradient-to-r from-emerald-100 to-emerald-200 text-emerald-800',
+  EXPENSE: 'bg-gradient-to-r from-rose-100 to-rose-200 text-rose-800',
+  TRANSFER: 'bg-gradient-to-r from-sky-100 to-sky-200 text-sky-800',
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+type RecurringRule = {
+  id: string
+  type: Tx['type']
+  amount: number
+  category: string
+  description?: string | null
+  currency: string
+  frequency: Frequency
+  interval: number
+  startDate: string
+  endDate?: string | null
+  nextRunAt?: string | null
+  active: boolean
+}
+
+type RecurringUpdate = Partial<Pick<RecurringRule, 'amount' | 'category' | 'description' | 'active'>> & { applyFrom?: string }
+
 export default function Transactions() {
-  const [filters, setFilters] = useState({ from: '', to: '', type: '', category: '', page: 1, pageSize: 10 })
+  const [filters, setFilters] = useState({ from: '', to: '', type: '', category: '', accountId: '', page: 1, pageSize: 10 })
+  const { data: accounts } = useAccounts({ includeArchived: true })
+  const accountName = (id?: string | null) => accounts?.find((a) => a.id === id)?.name
+  const fmt = useFormat()
   const qc = useQueryClient()
   const { data, isLoading, isError, error } = useQuery({
     queryKey: ['transactions', filters],
@@ -23,6 +64,7 @@ export default function Transactions() {
       if (filters.to) params.set('to', filters.to)
       if (filters.type) params.set('type', filters.type)
       if (filters.category) params.set('category', filters.category)
+      if (filters.accountId) params.set('accountId', filters.accountId)
       params.set('page', String(filters.page))
       params.set('pageSize', String(filters.pageSize))
       const res = await api.get(`/api/transactions?${params.toString()}`)
@@ -32,62 +74,127 @@ export default function Transactions() {
 
   const create = useMutation({
     mutationFn: async (payload: Omit<Tx, 'id'>) => {
-      const res = await api.post('/api/transactions', payload)
+      // A blank category lets the server's categorisation rules choose one
+      const res = await api.post('/api/transactions', {
+        ...payload,
+        category: payload.category || undefined,
+        currency: payload.currency || undefined,
+      })
       return res.data as Tx
     },
-    onSuccess: async (newTransaction) => {
+    onSuccess: (newTransaction) => {
       qc.invalidateQueries({ queryKey: ['transactions'] })
-      
-      // NEW CODE - Check budget after adding expense
-      if (newTransaction.type === 'EXPENSE') {
-        try {
-          const budgetRes = await api.get('/api/budget/status')
-          const budgetData = budgetRes.data as {
-            monthlyBudget: number
-            spent: number
-            remaining: number
-            percentageUsed: number
-            isOverBudget: boolean
-            month: string
-          }
-          
-          qc.invalidateQueries({ queryKey: ['budget-status'] })
-          
-          if (budgetData.monthlyBudget > 0) {
-            if (budgetData.isOverBudget) {
-              toast.error(
-                `⚠️ Budget Alert: You've exceeded your monthly budget by $${Math.abs(budgetData.remaining).toLocaleString()}!`,
-                { duration: 6000 }
-              )
-            } else if (budgetData.percentageUsed > 90) {
-              toast.warning(
-                `⚠️ Budget Alert: Only $${budgetData.remaining.toLocaleString()} remaining (${Math.round(100 - budgetData.percentageUsed)}% of budget left)`,
-                { duration: 5000 }
-              )
-            } else if (budgetData.percentageUsed > 75) {
-              toast.info(
-                `💰 Budget Update: $${budgetData.remaining.toLocaleString()} remaining this month (${Math.round(100 - budgetData.percentageUsed)}% left)`,
-                { duration: 4000 }
-              )
-            } else {
-              toast.success(
-                `✓ Transaction added! $${budgetData.remaining.toLocaleString()} remaining in your monthly budget`,
-                { duration: 3000 }
-              )
-            }
-          } else {
-            toast.success('Transaction added successfully!')
-          }
-        } catch (error) {
-          // If budget check fails, just show success message
-          toast.success('Transaction added successfully!')
-        }
+      qc.invalidateQueries({ queryKey: ['categories'] })
+      qc.invalidateQueries({ queryKey: ['accounts'] })
+      qc.invalidateQueries({ queryKey: ['alerts'] })
+      // Budget warnings arrive from the server as notifications
+      qc.invalidateQueries({ queryKey: ['budget-status'] })
+
+      if (newTransaction.type === 'TRANSFER') {
+        toast.success('Transfer recorded!')
+      } else if (newTransaction.type === 'EXPENSE') {
+        toast.success('Transaction added successfully!')
       } else {
         toast.success('Income transaction added successfully!')
       }
     },
   })
 
+  // Edits and deletions change every aggregate shown on the Dashboard too
+  const invalidateAfterChange = () => {
+    for (const key of ['transactions', 'categories', 'accounts', 'summary', 'trends', 'stats', 'budget-status', 'budget-history', 'category-budget-status']) {
+      qc.invalidateQueries({ queryKey: [key] })
+    }
+  }
+
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const { data: recurring } = useQuery({
+    queryKey: ['recurring'],
+    queryFn: async () => {
+      const res = await api.get('/api/recurring')
+      return res.data as { items: RecurringRule[] }
+    },
+  })
+
+  const createRecurring = useMutation({
+    mutationFn: async (payload: Omit<Tx, 'id'> & { frequency: Frequency }) => {
+      const { date, ...rest } = payload
+      const res = await api.post('/api/recurring', { ...rest, currency: rest.currency || undefined, startDate: date, interval: 1 })
+      return res.data as RecurringRule & { generated: number; pending: number }
+    },
+    onSuccess: (rule) => {
+      invalidateAfterChange()
+      qc.invalidateQueries({ queryKey: ['recurring'] })
+      toast.success(
+        rule.generated > 0
+          ? `Recurring transaction scheduled (${rule.generated} past occurrence${rule.generated !== 1 ? 's' : ''} added${
+              rule.pending > 0 ? `, ${rule.pending} more on the next run` : ''
+            })`
+          : 'Recurring transaction scheduled'
+      )
+    },
+    onError: () => {
+      toast.error('Failed to schedule recurring transaction')
+    },
+  })
+
+  const updateRecurring = useMutation({
+    mutationFn: async ({ id, ...payload }: RecurringUpdate & { id: string }) => {
+      const res = await api.patch(`/api/recurring/${id}`, payload)
+      return res.data as RecurringRule
+    },
+    onSuccess: () => {
+      invalidateAfterChange()
+      qc.invalidateQueries({ queryKey: ['recurring'] })
+    },
+    onError: () => {
+      toast.error('Failed to update recurring transaction')
+    },
+  })
+
+  const removeRecurring = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/recurring/${id}`)
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ['recurring'] })
+      qc.invalidateQueries({ queryKey: ['transactions'] })
+      toast.success('Recurring transaction removed')
+    },
+    onError: () => {
+      toast.error('Failed to remove recurring transaction')
+    },
+  })
+
+  const update = useMutation({
+    mutationFn: async ({ id, ...payload }: Tx) => {
+      const res = await api.patch(`/api/transactions/${id}`, payload)
+      return res.data as Tx
+    },
+    onSuccess: () => {
+      invalidateAfterChange()
+      setEditingId(null)
+      toast.success('Transaction updated')
+    },
+    onError: () => {
+      toast.error('Failed to update transaction')
+    },
+  })
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      await api.delete(`/api/transactions/${id}`)
+    },
+    onSuccess: () => {
+      invalidateAfterChange()
+      toast.success('Transaction deleted')
+    },
+    onError: () => {
+      toast.error('Failed to delete transaction')
+    },
+  })
+
   return (
     <div className="space-y-8">
       <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
@@ -95,7 +202,7 @@ export default function Transactions() {
           <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
           Filter Transactions
         </h2>
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-5">
           <div>
             <label className="block text-sm font-semibold text-slate-700 mb-3">From Date</label>
             <input 
@@ -124,6 +231,7 @@ export default function Transactions() {
               <option value="">All Types</option>
               <option value="INCOME">Income</option>
               <option value="EXPENSE">Expense</option>
+              <option value="TRANSFER">Transfer</option>
             </select>
           </div>
           <div>
@@ -135,6 +243,15 @@ export default function Transactions() {
               onChange={(e) => setFilters({ ...filters, category: e.target.value, page: 1 })} 
             />
           </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">Account</label>
+            <AccountSelect 
+              blankLabel="All Accounts" 
+              className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
+              value={filters.accountId} 
+              onChange={(accountId) => setFilters({ ...filters, accountId, page: 1 })} 
+            />
+          </div>
           <div className="flex items-end">
             <button 
               className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-bold hover:from-blue-700 hover:to-blue-800 transition-all shadow-md hover:shadow-lg" 
@@ -146,7 +263,18 @@ export default function Transactions() {
         </div>
       </div>
 
-      <AddForm onAdd={(payload) => create.mutate(payload as any)} />
+      <AddForm
+        onAdd={(payload) => create.mutate(payload as any)}
+        onAddRecurring={(payload) => createRecurring.mutate(payload)}
+      />
+
+      {recurring && recurring.items.length > 0 && (
+        <RecurringPanel
+          rules={recurring.items}
+          onUpdate={(id, payload) => updateRecurring.mutate({ id, ...payload })}
+          onRemove={(id) => removeRecurring.mutate(id)}
+        />
+      )}
 
       {create.isError && (
         <div className="bg-gradient-to-r from-red-50 to-rose-50 border-2 border-red-200 rounded-2xl p-5 text-red-700 font-medium shadow-lg">
@@ -179,25 +307,71 @@ export default function Transactions() {
                     <th className="text-left p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Category</th>
                     <th className="text-right p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Amount</th>
                     <th className="text-left p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Description</th>
+                    <th className="text-left p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Account</th>
+                    {filters.accountId && <th className="text-right p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Balance</th>}
+                    <th className="text-right p-5 text-sm font-bold text-slate-700 uppercase tracking-wide">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
                   {data?.items.map((tx) => (
-                    <tr key={tx.id} className="border-b border-slate-100 hover:bg-blue-50/50 transition-colors">
-                      <td className="p-5 text-sm text-slate-700 font-medium">{new Date(tx.date).toLocaleDateString()}</td>
-                      <td className="p-5">
-                        <span className={`inline-flex px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide ${
-                          tx.type === 'INCOME' ? 'bg-gradient-to-r from-emerald-100 to-emerald-200 text-emerald-800' : 'bg-gradient-to-r from-rose-100 to-rose-200 text-rose-800'
-                        }`}>
-                          {tx.type}
-                        </span>
-                      </td>
-                      <td className="p-5 text-sm text-slate-700 font-medium">{tx.category}</td>
-                      <td className="p-5 text-right text-sm font-bold text-slate-900">
-                        ${(tx as any).amount?.toFixed ? (tx as any).amount.toFixed(2) : Number((tx as any).amount).toFixed(2)}
-                      </td>
-                      <td className="p-5 text-sm text-slate-600">{tx.description || '—'}</td>
-                    </tr>
+                    editingId === tx.id ? (
+                      <EditRow
+                        key={tx.id}
+                        tx={tx}
+                        showBalance={!!filters.accountId}
+                        saving={update.isPending}
+                        onSave={(next) => update.mutate(next)}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
+                      <tr key={tx.id} className="border-b border-slate-100 hover:bg-blue-50/50 transition-colors">
+                        <td className="p-5 text-sm text-slate-700 font-medium">{fmt.date(tx.date)}</td>
+                        <td className="p-5">
+                          <span className={`inline-flex px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wide ${TYPE_BADGES[tx.type]}`}>
+                            {tx.type}
+                          </span>
+                        </td>
+                        <td className="p-5 text-sm text-slate-700 font-medium">
+                          {tx.category}
+                          {tx.recurringRuleId && <span className="ml-2 text-xs text-blue-600" title="Generated by a recurring rule">↻</span>}
+                          {tx.tags?.map((tag) => (
+                            <span key={tag} className="ml-2 inline-flex px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-semibold">#{tag}</span>
+                          ))}
+                        </td>
+                        <td className="p-5 text-right text-sm font-bold text-slate-900">
+                          {tx.type === 'TRANSFER' && filters.accountId && (tx.transferAccountId === filters.accountId ? '+' : '−')}
+                          {fmt.money(Number(tx.amount), tx.currency)}
+                        </td>
+                        <td className="p-5 text-sm text-slate-600">{tx.description || '—'}</td>
+                        <td className="p-5 text-sm text-slate-600">
+                          {tx.type === 'TRANSFER'
+                            ? `${accountName(tx.accountId) ?? '—'} → ${accountName(tx.transferAccountId) ?? '—'}`
+                            : accountName(tx.accountId) ?? '—'}
+                        </td>
+                        {filters.accountId && (
+                          <td className={`p-5 text-right text-sm font-bold ${(tx.balance ?? 0) < 0 ? 'text-rose-700' : 'text-slate-700'}`}>
+                            {tx.balance != null ? fmt.money(tx.balance, accounts?.find((a) => a.id === filters.accountId)?.currency) : '—'}
+                          </td>
+                        )}
+                        <td className="p-5 text-right whitespace-nowrap">
+                          <button
+                            className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                            onClick={() => setEditingId(tx.id)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            className="ml-2 px-3 py-1.5 rounded-lg text-sm font-bold text-red-700 hover:bg-red-100 disabled:opacity-40 transition-all"
+                            disabled={remove.isPending}
+                            onClick={() => {
+                              if (window.confirm('Delete this transaction? This cannot be undone.')) remove.mutate(tx.id)
+                            }}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    )
                   ))}
                 </tbody>
               </table>
@@ -230,15 +404,19 @@ export default function Transactions() {
   )
 }
 
-function AddForm({ onAdd }: { onAdd: (tx: Omit<Tx, 'id'>) => void }) {
+function AddForm({ onAdd, onAddRecurring }: {
+  onAdd: (tx: Omit<Tx, 'id'>) => void
+  onAddRecurring: (tx: Omit<Tx, 'id'> & { frequency: Frequency }) => void
+}) {
   const [form, setForm] = useState<Omit<Tx, 'id'>>({ type: 'EXPENSE', amount: 0, category: '', description: '', date: new Date().toISOString().slice(0, 10) } as any)
+  const [repeat, setRepeat] = useState<Frequency | ''>('')
   return (
     <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
       <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
         <span className="w-1.5 h-8 bg-gradient-to-b from-emerald-600 to-emerald-800 rounded-full"></span>
         Add New Transaction
       </h2>
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-5">
         <div>
           <label className="block text-sm font-semibold text-slate-700 mb-3">Date</label>
           <input 
@@ -253,19 +431,24 @@ function AddForm({ onAdd }: { onAdd: (tx: Omit<Tx, 'id'>) => void }) {
           <select 
             className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
             value={form.type} 
-            onChange={(e) => setForm({ ...form, type: e.target.value as any })}
+            onChange={(e) => {
+              const type = e.target.value as Tx['type']
+              setForm({ ...form, type, ...(type !== 'TRANSFER' && { transferAccountId: null }) })
+            }}
           >
             <option value="INCOME">Income</option>
             <option value="EXPENSE">Expense</option>
+            <option value="TRANSFER">Transfer</option>
           </select>
         </div>
         <div>
           <label className="block text-sm font-semibold text-slate-700 mb-3">Category</label>
-          <input 
-            placeholder="e.g., Food" 
-            className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white" 
+          <CategorySelect 
+            blankLabel="Auto (use rules)" 
+            type={form.type} 
+            className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
             value={form.category} 
-            onChange={(e) => setForm({ ...form, category: e.target.value })} 
+            onChange={(category) => setForm({ ...form, category })} 
           />
         </div>
         <div>
@@ -279,6 +462,16 @@ function AddForm({ onAdd }: { onAdd: (tx: Omit<Tx, 'id'>) => void }) {
             onChange={(e) => setForm({ ...form, amount: Number(e.target.value) })} 
           />
         </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">Currency</label>
+          <input 
+            placeholder="Auto" 
+            maxLength={3} 
+            className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white" 
+            value={form.currency ?? ''} 
+            onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })} 
+          />
+        </div>
         <div>
           <label className="block text-sm font-semibold text-slate-700 mb-3">Description</label>
           <input 
@@ -288,15 +481,233 @@ function AddForm({ onAdd }: { onAdd: (tx: Omit<Tx, 'id'>) => void }) {
             onChange={(e) => setForm({ ...form, description: e.target.value })} 
           />
         </div>
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">{form.type === 'TRANSFER' ? 'From account' : 'Account'}</label>
+          <AccountSelect 
+            blankLabel="None" 
+            className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
+            value={form.accountId ?? ''} 
+            onChange={(accountId) => setForm({ ...form, accountId: accountId || null })} 
+          />
+        </div>
+        {form.type === 'TRANSFER' && (
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-3">To account</label>
+            <AccountSelect 
+              blankLabel="Choose…" 
+              className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
+              value={form.transferAccountId ?? ''} 
+              onChange={(transferAccountId) => setForm({ ...form, transferAccountId: transferAccountId || null })} 
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-3">Repeat</label>
+          <select 
+            className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white font-medium" 
+            value={repeat} 
+            onChange={(e) => setRepeat(e.target.value as Frequency | '')}
+          >
+            <option value="">Never</option>
+            <option value="DAILY">Daily</option>
+            <option value="WEEKLY">Weekly</option>
+            <option value="MONTHLY">Monthly</option>
+            <option value="YEARLY">Yearly</option>
+          </select>
+        </div>
         <div className="flex items-end">
           <button 
             className="w-full px-4 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-emerald-700 text-white font-bold hover:from-emerald-700 hover:to-emerald-800 transition-all shadow-md hover:shadow-lg" 
-            onClick={() => onAdd({ ...form, date: new Date(form.date as any).toISOString() })}
+            onClick={() => {
+              const payload = { ...form, date: new Date(form.date as any).toISOString() }
+              if (repeat) onAddRecurring({ ...payload, frequency: repeat })
+              else onAdd(payload)
+            }}
           >
-            Add Transaction
+            {repeat ? 'Schedule' : 'Add Transaction'}
           </button>
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function EditRow({ tx, showBalance, saving, onSave, onCancel }: { tx: Tx; showBalance: boolean; saving: boolean; onSave: (tx: Tx) => void; onCancel: () => void }) {
+  const [draft, setDraft] = useState<Tx>({ ...tx, amount: Number(tx.amount), date: tx.date.slice(0, 10) })
+  const inputClass = 'w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-sm'
+  return (
+    <tr className="border-b border-slate-100 bg-blue-50/50">
+      <td className="p-3">
+        <input type="date" className={inputClass} value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+      </td>
+      <td className="p-3">
+        <select
+          className={inputClass}
+          value={draft.type}
+          onChange={(e) => {
+            const type = e.target.value as Tx['type']
+            setDraft({ ...draft, type, ...(type !== 'TRANSFER' && { transferAccountId: null }) })
+          }}
+        >
+          <option value="INCOME">Income</option>
+          <option value="EXPENSE">Expense</option>
+          <option value="TRANSFER">Transfer</option>
+        </select>
+      </td>
+      <td className="p-3">
+        <CategorySelect className={inputClass} type={draft.type} value={draft.category} onChange={(category) => setDraft({ ...draft, category })} />
+      </td>
+      <td className="p-3">
+        <input type="number" step="0.01" className={`${inputClass} text-right`} value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) })} />
+        <input maxLength={3} className={`${inputClass} mt-2 text-right`} value={draft.currency ?? ''} onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })} />
+      </td>
+      <td className="p-3">
+        <input className={inputClass} value={draft.description || ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+      </td>
+      <td className="p-3">
+        <AccountSelect blankLabel="None" className={inputClass} value={draft.accountId ?? ''} onChange={(accountId) => setDraft({ ...draft, accountId: accountId || null })} />
+        {draft.type === 'TRANSFER' && (
+          <AccountSelect
+            blankLabel="To…"
+            className={`${inputClass} mt-2`}
+            value={draft.transferAccountId ?? ''}
+            onChange={(transferAccountId) => setDraft({ ...draft, transferAccountId: transferAccountId || null })}
+          />
+        )}
+      </td>
+      {showBalance && <td className="p-3"></td>}
+      <td className="p-3 text-right whitespace-nowrap">
+        <button
+          className="px-3 py-1.5 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 transition-all"
+          disabled={saving}
+          onClick={() => onSave({ ...draft, date: new Date(draft.date).toISOString(), currency: draft.currency || undefined })}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          className="ml-2 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-100 transition-all"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </td>
+    </tr>
+  )
+}
+
+const FREQUENCY_UNITS: Record<Frequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+
+function describeSchedule(rule: RecurringRule) {
+  const unit = FREQUENCY_UNITS[rule.frequency]
+  return rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+}
+
+function RecurringPanel({ rules, onUpdate, onRemove }: {
+  rules: RecurringRule[]
+  onUpdate: (id: string, payload: RecurringUpdate) => void
+  onRemove: (id: string) => void
+}) {
+  const fmt = useFormat()
+  const [editing, setEditing] = useState<{ id: string; amount: number; category: string; applyToExisting: boolean } | null>(null)
+  const inputClass = 'w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none transition-all bg-white text-sm'
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <span className="w-1.5 h-8 bg-gradient-to-b from-blue-600 to-blue-800 rounded-full"></span>
+        Recurring Transactions
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-slate-200">
+              <th className="text-left p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Category</th>
+              <th className="text-left p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Type</th>
+              <th className="text-right p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Amount</th>
+              <th className="text-left p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Schedule</th>
+              <th className="text-left p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Next</th>
+              <th className="text-right p-3 text-sm font-bold text-slate-700 uppercase tracking-wide">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id} className={`border-b border-slate-100 ${rule.active ? '' : 'opacity-60'}`}>
+                {editing?.id === rule.id ? (
+                  <>
+                    <td className="p-3">
+                      <input className={inputClass} value={editing.category} onChange={(e) => setEditing({ ...editing, category: e.target.value })} />
+                    </td>
+                    <td className="p-3 text-sm text-slate-700 font-medium">{rule.type}</td>
+                    <td className="p-3">
+                      <input type="number" step="0.01" className={`${inputClass} text-right`} value={editing.amount} onChange={(e) => setEditing({ ...editing, amount: Number(e.target.value) })} />
+                    </td>
+                    <td className="p-3 text-sm text-slate-600" colSpan={2}>
+                      <label className="flex items-center gap-2 font-medium">
+                        <input
+                          type="checkbox"
+                          className="accent-blue-600"
+                          checked={editing.applyToExisting}
+                          onChange={(e) => setEditing({ ...editing, applyToExisting: e.target.checked })}
+                        />
+                        Also update occurrences from today
+                      </label>
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-white bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 transition-all"
+                        onClick={() => {
+                          onUpdate(rule.id, {
+                            amount: editing.amount,
+                            category: editing.category,
+                            ...(editing.applyToExisting && { applyFrom: new Date().toISOString().slice(0, 10) }),
+                          })
+                          setEditing(null)
+                        }}
+                      >
+                        Save
+                      </button>
+                      <button className="ml-2 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-100 transition-all" onClick={() => setEditing(null)}>
+                        Cancel
+                      </button>
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="p-3 text-sm text-slate-700 font-medium">{rule.category}</td>
+                    <td className="p-3 text-sm text-slate-700 font-medium">{rule.type}</td>
+                    <td className="p-3 text-right text-sm font-bold text-slate-900">{fmt.money(rule.amount, rule.currency)}</td>
+                    <td className="p-3 text-sm text-slate-600">{describeSchedule(rule)}</td>
+                    <td className="p-3 text-sm text-slate-600">
+                      {!rule.active ? 'Paused' : rule.nextRunAt ? fmt.date(rule.nextRunAt) : 'Ended'}
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      <button
+                        className="px-3 py-1.5 rounded-lg text-sm font-bold text-blue-700 hover:bg-blue-100 transition-all"
+                        onClick={() => setEditing({ id: rule.id, amount: rule.amount, category: rule.category, applyToExisting: false })}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="ml-2 px-3 py-1.5 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-100 transition-all"
+                        onClick={() => onUpdate(rule.id, { active: !rule.active })}
+                      >
+                        {rule.active ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        className="ml-2 px-3 py-1.5 rounded-lg text-sm font-bold text-red-700 hover:bg-red-100 transition-all"
+                        onClick={() => {
+                          if (window.confirm('Stop this recurring transaction? Already added transactions are kept.')) onRemove(rule.id)
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
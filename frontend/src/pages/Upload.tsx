@@ -1,28 +1,166 @@
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
+import { toast } from 'sonner'
 import { api } from '../lib/api'
+import CategorySelect from '../components/CategorySelect'
+import AccountSelect from '../components/AccountSelect'
+import { useFormat } from '../hooks/use-preferences'
 
-type AITransaction = {
+type ReviewTransaction = {
   date: string
   description: string
   category: string
   amount: number
   type: 'INCOME' | 'EXPENSE'
+  externalId?: string
 }
 
+type ImportSource = 'receipt' | 'statement' | 'ai-receipt'
+
+type LineDiagnostic = { line: number; text: string; status: 'parsed' | 'skipped' | 'error'; message?: string }
+
+type CsvMapping = {
+  date: string
+  description: string
+  amount?: string
+  debit?: string
+  credit?: string
+  category?: string
+  type?: string
+  dateFormat: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY'
+}
+
+type CsvPreview = {
+  headers: string[]
+  rows: string[][]
+  totalRows: number
+  suggestedMapping: Partial<CsvMapping>
+}
+
+type ImportProfile = { id: string; name: string; mapping: CsvMapping }
+
+type DuplicateFlag = {
+  transaction: ReviewTransaction
+  reason: 'external_id' | 'fingerprint'
+  matches: Array<{ id: string; date: string; amount: number; category: string; description: string | null }>
+}
+
+type PreviousImport = { id: string; filename: string | null; createdAt: string }
+
+type ImportResult = {
+  imported: number
+  duplicates?: DuplicateFlag[]
+  batchId?: string | null
+  previousImport?: PreviousImport | null
+}
+
+// Dry-run response: parsed rows to review before anything is saved
+type ParsePreview = {
+  dryRun: true
+  transactions: ReviewTransaction[]
+  diagnostics: LineDiagnostic[]
+  file: { name: string; hash: string }
+  previousImport: PreviousImport | null
+}
+
+type ImportBatch = {
+  id: string
+  source: ImportSource
+  filename: string | null
+  rowCount: number
+  remaining: number
+  createdAt: string
+}
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  receipt: 'Receipt',
+  statement: 'Bank Statement',
+  'ai-receipt': 'AI Analyzer',
+}
+
+type StatementResult = ImportResult & { skipped?: number; errors?: string[] }
+
+const isCsv = (file: File) => file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv')
+
 export default function Upload() {
   const [tab, setTab] = useState<'receipt' | 'statement' | 'ai'>('receipt')
+  const fmt = useFormat()
   const [errorMessage, setErrorMessage] = useState<string>('')
-  const [aiTransactions, setAiTransactions] = useState<AITransaction[]>([])
-  const [showAiReview, setShowAiReview] = useState(false)
+  const [reviewTransactions, setReviewTransactions] = useState<ReviewTransaction[]>([])
+  const [showReview, setShowReview] = useState(false)
+  const [reviewSource, setReviewSource] = useState<ImportSource>('ai-receipt')
+  const [diagnostics, setDiagnostics] = useState<LineDiagnostic[]>([])
+  // The heuristic importers show parsed rows for review unless this is switched off
+  const [reviewFirst, setReviewFirst] = useState(true)
+  // Account every imported row is filed under (blank = none)
+  const [accountId, setAccountId] = useState('')
+  const [csvFile, setCsvFile] = useState<File | null>(null)
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null)
+  const [csvMapping, setCsvMapping] = useState<CsvMapping>({ date: '', description: '', dateFormat: 'YYYY-MM-DD' })
+  const [profileName, setProfileName] = useState('')
+  const [duplicates, setDuplicates] = useState<DuplicateFlag[]>([])
+  const [keepDuplicate, setKeepDuplicate] = useState<boolean[]>([])
+  const [duplicateBatchId, setDuplicateBatchId] = useState<string | null>(null)
+  const [reviewFile, setReviewFile] = useState<{ name: string; hash: string } | null>(null)
+  const qc = useQueryClient()
+
+  const { data: profiles } = useQuery({
+    queryKey: ['import-profiles'],
+    queryFn: async () => {
+      const res = await api.get('/api/uploads/profiles')
+      return res.data as { items: ImportProfile[] }
+    },
+  })
   
+  const { data: imports } = useQuery({
+    queryKey: ['imports'],
+    queryFn: async () => {
+      const res = await api.get('/api/imports')
+      return res.data as { items: ImportBatch[] }
+    },
+  })
+
+  const warnIfImportedBefore = (previous?: PreviousImport | null) => {
+    if (previous) {
+      toast.warning(`This file was already imported on ${fmt.date(previous.createdAt)}`)
+    }
+  }
+
+  const openReview = (source: ImportSource, data: Omit<ParsePreview, 'dryRun' | 'diagnostics'> & { diagnostics?: LineDiagnostic[] }) => {
+    setReviewSource(source)
+    setReviewTransactions(data.transactions)
+    setDiagnostics(data.diagnostics ?? [])
+    setReviewFile(data.file)
+    setShowReview(true)
+    warnIfImportedBefore(data.previousImport)
+  }
+
+  // Every import path may hand back probable duplicates for the user to keep or
+  // skip; kept rows are added to the same import batch
+  const reviewDuplicates = (data: ImportResult) => {
+    setDuplicates(data.duplicates ?? [])
+    setKeepDuplicate((data.duplicates ?? []).map(() => false))
+    setDuplicateBatchId(data.batchId ?? null)
+    warnIfImportedBefore(data.previousImport)
+    qc.invalidateQueries({ queryKey: ['imports'] })
+    qc.invalidateQueries({ queryKey: ['categories'] })
+    qc.invalidateQueries({ queryKey: ['accounts'] })
+    qc.invalidateQueries({ queryKey: ['alerts'] })
+  }
+
   const receipt = useMutation({
     mutationFn: async (file: File) => {
       setErrorMessage('')
       const form = new FormData()
       form.append('file', file)
+      if (reviewFirst) form.append('dryRun', 'true')
+      if (accountId) form.append('accountId', accountId)
       const res = await api.post('/api/uploads/receipt', form)
-      return res.data as { imported: number }
+      return res.data as ImportResult | ParsePreview
+    },
+    onSuccess: (data) => {
+      if ('dryRun' in data) openReview('receipt', data)
+      else reviewDuplicates(data)
     },
     onError: (error: any) => {
       const msg = error?.response?.data?.error || error?.message || 'Unknown error'
@@ -31,12 +169,24 @@ export default function Upload() {
     }
   })
   const statement = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, mapping, saveProfileAs }: { file: File; mapping?: CsvMapping; saveProfileAs?: string }) => {
       setErrorMessage('')
       const form = new FormData()
       form.append('file', file)
+      if (mapping) form.append('mapping', JSON.stringify(mapping))
+      if (saveProfileAs) form.append('saveProfileAs', saveProfileAs)
+      if (reviewFirst) form.append('dryRun', 'true')
+      if (accountId) form.append('accountId', accountId)
       const res = await api.post('/api/uploads/statement', form)
-      return res.data as { imported: number }
+      return res.data as StatementResult | ParsePreview
+    },
+    onSuccess: (data, { saveProfileAs }) => {
+      if ('dryRun' in data) openReview('statement', data)
+      else reviewDuplicates(data)
+      setCsvFile(null)
+      setCsvPreview(null)
+      setProfileName('')
+      if (saveProfileAs) qc.invalidateQueries({ queryKey: ['import-profiles'] })
     },
     onError: (error: any) => {
       const msg = error?.response?.data?.error || error?.message || 'Unknown error'
@@ -45,19 +195,47 @@ export default function Upload() {
     }
   })
 
+  // CSV statements go through a column-mapping step before import
+  const csvPreviewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      setErrorMessage('')
+      const form = new FormData()
+      form.append('file', file)
+      const res = await api.post('/api/uploads/statement/preview', form)
+      return res.data as CsvPreview
+    },
+    onSuccess: (data, file) => {
+      setCsvFile(file)
+      setCsvPreview(data)
+      setCsvMapping({ date: '', description: '', dateFormat: 'YYYY-MM-DD', ...data.suggestedMapping })
+    },
+    onError: (error: { response?: { data?: { error?: string } }; message?: string }) => {
+      const msg = error.response?.data?.error || error.message || 'Unknown error'
+      setErrorMessage(`Could not read CSV file: ${msg}`)
+    }
+  })
+
+  const handleStatementFile = (file: File) => {
+    if (isCsv(file)) csvPreviewMutation.mutate(file)
+    else statement.mutate({ file })
+  }
+
   const aiReceipt = useMutation({
     mutationFn: async (file: File) => {
       setErrorMessage('')
-      setShowAiReview(false)
+      setShowReview(false)
+      setDiagnostics([])
       const form = new FormData()
       form.append('file', file)
       const res = await api.post('/api/uploads/ai-receipt', form)
-      return res.data as { extractedText: string; transactions: AITransaction[] }
-    },
-    onSuccess: (data) => {
-      setAiTransactions(data.transactions)
-      setShowAiReview(true)
+      return res.data as {
+        extractedText: string
+        transactions: ReviewTransaction[]
+        file: { name: string; hash: string }
+        previousImport: PreviousImport | null
+      }
     },
+    onSuccess: (data) => openReview('ai-receipt', data),
     onError: (error: any) => {
       const msg = error?.response?.data?.error || error?.message || 'Unknown error'
       setErrorMessage(`AI receipt analysis failed: ${msg}`)
@@ -65,14 +243,23 @@ export default function Upload() {
     }
   })
 
-  const confirmAi = useMutation({
-    mutationFn: async (transactions: AITransaction[]) => {
-      const res = await api.post('/api/uploads/ai-receipt/confirm', { transactions })
-      return res.data as { imported: number }
+  const commitReview = useMutation({
+    mutationFn: async (transactions: ReviewTransaction[]) => {
+      const res = await api.post('/api/uploads/commit', {
+        source: reviewSource,
+        transactions,
+        filename: reviewFile?.name,
+        fileHash: reviewFile?.hash,
+        accountId: accountId || undefined,
+      })
+      return res.data as ImportResult
     },
-    onSuccess: () => {
-      setShowAiReview(false)
-      setAiTransactions([])
+    onSuccess: (data) => {
+      setShowReview(false)
+      setReviewTransactions([])
+      setReviewFile(null)
+      setDiagnostics([])
+      reviewDuplicates(data)
     },
     onError: (error: any) => {
       const msg = error?.response?.data?.error || error?.message || 'Unknown error'
@@ -81,23 +268,69 @@ export default function Upload() {
     }
   })
 
-  const handleUpdateTransaction = (index: number, field: keyof AITransaction, value: string | number) => {
-    const updated = [...aiTransactions]
+  const keepDuplicates = useMutation({
+    mutationFn: async (transactions: DuplicateFlag['transaction'][]) => {
+      const res = await api.post('/api/uploads/commit', {
+        transactions,
+        allowDuplicates: true,
+        importBatchId: duplicateBatchId ?? undefined,
+        accountId: accountId || undefined,
+      })
+      return res.data as ImportResult
+    },
+    onSuccess: () => {
+      setDuplicates([])
+      setKeepDuplicate([])
+      setDuplicateBatchId(null)
+      qc.invalidateQueries({ queryKey: ['imports'] })
+    },
+    onError: (error: { response?: { data?: { error?: string } }; message?: string }) => {
+      const msg = error.response?.data?.error || error.message || 'Unknown error'
+      setErrorMessage(`Failed to save transactions: ${msg}`)
+    }
+  })
+
+  // Rolls back every transaction an upload created
+  const undoImport = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await api.delete(`/api/imports/${id}`)
+      return res.data as { deleted: string; removed: number }
+    },
+    onSuccess: (data) => {
+      toast.success(`Removed ${data.removed} imported transaction${data.removed !== 1 ? 's' : ''}`)
+      if (data.deleted === duplicateBatchId) {
+        setDuplicates([])
+        setKeepDuplicate([])
+        setDuplicateBatchId(null)
+      }
+      for (const key of ['imports', 'transactions', 'categories', 'accounts', 'summary', 'trends', 'stats', 'budget-status', 'budget-history', 'category-budget-status']) {
+        qc.invalidateQueries({ queryKey: [key] })
+      }
+    },
+    onError: (error: { response?: { data?: { error?: string } }; message?: string }) => {
+      toast.error(error.response?.data?.error || error.message || 'Failed to undo import')
+    }
+  })
+
+  const handleUpdateTransaction = (index: number, field: keyof ReviewTransaction, value: string | number) => {
+    const updated = [...reviewTransactions]
     updated[index] = { ...updated[index], [field]: value }
-    setAiTransactions(updated)
+    setReviewTransactions(updated)
   }
 
   const handleDeleteTransaction = (index: number) => {
-    setAiTransactions(aiTransactions.filter((_, i) => i !== index))
+    setReviewTransactions(reviewTransactions.filter((_, i) => i !== index))
   }
 
   const handleConfirm = () => {
-    confirmAi.mutate(aiTransactions)
+    commitReview.mutate(reviewTransactions)
   }
 
   const handleCancel = () => {
-    setShowAiReview(false)
-    setAiTransactions([])
+    setShowReview(false)
+    setReviewTransactions([])
+    setReviewFile(null)
+    setDiagnostics([])
   }
 
   return (
@@ -127,7 +360,7 @@ export default function Upload() {
             }`}
             onClick={() => setTab('statement')}
           >
-            Statement PDF
+            Bank Statement
           </button>
           <button 
             className={`flex-1 px-6 py-4 rounded-xl font-bold transition-all duration-300 ${
@@ -149,9 +382,9 @@ export default function Upload() {
           />
         ) : tab === 'statement' ? (
           <FileBox 
-            onFile={(f) => statement.mutate(f)} 
-            label="Upload Bank Statement PDF" 
-            description="PDF format from your bank"
+            onFile={handleStatementFile} 
+            label="Upload Bank Statement" 
+            description="PDF, CSV or OFX/QFX export from your bank"
           />
         ) : (
           <FileBox 
@@ -160,16 +393,121 @@ export default function Upload() {
             description="AI will extract and categorize transactions"
           />
         )}
+
+        <label className="flex items-center gap-3 mt-5 text-slate-700 font-medium">
+          Import into account
+          <AccountSelect
+            blankLabel="No account"
+            className="px-4 py-2 rounded-xl border-2 border-slate-200 focus:border-blue-500 outline-none bg-white font-medium"
+            value={accountId}
+            onChange={setAccountId}
+          />
+        </label>
+
+        {tab !== 'ai' && (
+          <label className="flex items-center gap-3 mt-5 text-slate-700 font-medium">
+            <input
+              type="checkbox"
+              className="w-5 h-5 rounded accent-blue-600"
+              checked={reviewFirst}
+              onChange={(e) => setReviewFirst(e.target.checked)}
+            />
+            Review parsed rows before importing
+          </label>
+        )}
       </div>
 
-      {/* AI Review Modal */}
-      {showAiReview && aiTransactions.length > 0 && (
+      {/* CSV Column Mapping */}
+      {tab === 'statement' && csvFile && csvPreview && (
+        <CsvMappingStep
+          fileName={csvFile.name}
+          preview={csvPreview}
+          mapping={csvMapping}
+          onMappingChange={setCsvMapping}
+          profiles={profiles?.items ?? []}
+          profileName={profileName}
+          onProfileNameChange={setProfileName}
+          importing={statement.isPending}
+          onImport={() => statement.mutate({ file: csvFile, mapping: csvMapping, saveProfileAs: profileName.trim() || undefined })}
+          onCancel={() => {
+            setCsvFile(null)
+            setCsvPreview(null)
+          }}
+        />
+      )}
+
+      {/* Duplicate Review */}
+      {duplicates.length > 0 && (
+        <div className="bg-white/90 backdrop-blur rounded-2xl shadow-2xl border-2 border-amber-200 p-8">
+          <h2 className="text-2xl font-bold text-slate-800 mb-3">Possible Duplicates</h2>
+          <p className="text-slate-600 mb-6 font-medium">
+            These rows look like transactions you already have, so they were not imported. Choose which ones to keep anyway.
+          </p>
+          <div className="space-y-4 mb-8">
+            {duplicates.map((dup, index) => (
+              <div key={index} className="border-2 border-slate-200 rounded-xl p-5 bg-gradient-to-br from-amber-50 to-orange-50 flex flex-wrap items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="font-bold text-slate-800">
+                    {fmt.date(dup.transaction.date)} · {dup.transaction.description} · {fmt.money(Number(dup.transaction.amount))}
+                  </div>
+                  <div className="text-sm text-slate-600 font-medium">
+                    {dup.reason === 'external_id'
+                      ? 'Same bank transaction id was imported before'
+                      : `Matches ${dup.matches.map((m) => `${fmt.date(m.date)} ${m.description ?? m.category} (${fmt.money(m.amount)})`).join(', ')}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className={`px-4 py-2 rounded-xl font-bold transition-all ${keepDuplicate[index] ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                    onClick={() => setKeepDuplicate(keepDuplicate.map((k, i) => (i === index ? true : k)))}
+                  >
+                    Keep
+                  </button>
+                  <button
+                    className={`px-4 py-2 rounded-xl font-bold transition-all ${!keepDuplicate[index] ? 'bg-gradient-to-r from-slate-600 to-slate-700 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                    onClick={() => setKeepDuplicate(keepDuplicate.map((k, i) => (i === index ? false : k)))}
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-4">
+            <button
+              className="flex-1 px-6 py-4 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg hover:shadow-xl font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={keepDuplicates.isPending || !keepDuplicate.some(Boolean)}
+              onClick={() => keepDuplicates.mutate(duplicates.filter((_, i) => keepDuplicate[i]).map((d) => d.transaction))}
+            >
+              {keepDuplicates.isPending ? 'Saving...' : `Import ${keepDuplicate.filter(Boolean).length} Kept Row${keepDuplicate.filter(Boolean).length !== 1 ? 's' : ''}`}
+            </button>
+            <button
+              className="px-8 py-4 rounded-xl border-2 border-slate-300 text-slate-700 hover:bg-slate-100 transition-all font-bold"
+              onClick={() => {
+                setDuplicates([])
+                setKeepDuplicate([])
+              }}
+            >
+              Skip All
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Review Modal (AI analysis and dry-run receipt/statement imports) */}
+      {showReview && (
         <div className="bg-white/90 backdrop-blur rounded-2xl shadow-2xl border border-slate-200/50 p-8">
           <h2 className="text-2xl font-bold text-slate-800 mb-3">Review Extracted Transactions</h2>
-          <p className="text-slate-600 mb-6 font-medium">Please review and edit the transactions before adding them</p>
+          <p className="text-slate-600 mb-6 font-medium">
+            {reviewTransactions.length > 0
+              ? 'Please review and edit the transactions before adding them'
+              : 'No transactions could be parsed from this file'}
+          </p>
+
+          {diagnostics.length > 0 && <ParseDiagnostics diagnostics={diagnostics} />}
           
           <div className="space-y-5 mb-8">
-            {aiTransactions.map((transaction, index) => (
+            {reviewTransactions.map((transaction, index) => (
               <div key={index} className="border-2 border-slate-300 rounded-xl p-6 bg-gradient-to-br from-slate-50 to-blue-50 hover:shadow-md transition-all">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                   <div>
@@ -196,11 +534,11 @@ export default function Upload() {
                   
                   <div>
                     <label className="block text-sm font-bold text-slate-700 mb-2">Category</label>
-                    <input 
-                      type="text" 
+                    <CategorySelect 
                       className="w-full px-4 py-3 rounded-xl border-2 border-slate-300 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none bg-white"
+                      type={transaction.type}
                       value={transaction.category}
-                      onChange={(e) => handleUpdateTransaction(index, 'category', e.target.value)}
+                      onChange={(category) => handleUpdateTransaction(index, 'category', category)}
                     />
                   </div>
                   
@@ -240,9 +578,9 @@ export default function Upload() {
             <button 
               className="flex-1 px-6 py-4 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg hover:shadow-xl font-bold"
               onClick={handleConfirm}
-              disabled={confirmAi.isPending}
+              disabled={commitReview.isPending || reviewTransactions.length === 0}
             >
-              {confirmAi.isPending ? 'Saving...' : `Add ${aiTransactions.length} Transaction${aiTransactions.length !== 1 ? 's' : ''}`}
+              {commitReview.isPending ? 'Saving...' : `Add ${reviewTransactions.length} Transaction${reviewTransactions.length !== 1 ? 's' : ''}`}
             </button>
             <button 
               className="px-8 py-4 rounded-xl border-2 border-slate-300 text-slate-700 hover:bg-slate-100 transition-all font-bold"
@@ -267,7 +605,7 @@ export default function Upload() {
             Processing receipt... This may take a moment.
           </div>
         )}
-        {receipt.data && (
+        {receipt.data && !('dryRun' in receipt.data) && (
           <div className="bg-gradient-to-r from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 text-emerald-700 font-medium shadow-lg">
             Successfully imported {receipt.data.imported} transaction{receipt.data.imported !== 1 ? 's' : ''} from receipt
           </div>
@@ -278,9 +616,14 @@ export default function Upload() {
             Processing statement... This may take a moment.
           </div>
         )}
-        {statement.data && (
+        {statement.data && !('dryRun' in statement.data) && (
           <div className="bg-gradient-to-r from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 text-emerald-700 font-medium shadow-lg">
             Successfully imported {statement.data.imported} transaction{statement.data.imported !== 1 ? 's' : ''} from statement
+            {statement.data.errors && statement.data.errors.length > 0 && (
+              <ul className="text-sm mt-2 text-amber-700 list-disc list-inside">
+                {statement.data.errors.map((e, i) => <li key={i}>{e}</li>)}
+              </ul>
+            )}
           </div>
         )}
         
@@ -290,16 +633,79 @@ export default function Upload() {
           </div>
         )}
         
-        {confirmAi.data && (
+        {keepDuplicates.data && (
           <div className="bg-gradient-to-r from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 text-emerald-700 font-medium shadow-lg">
-            Successfully added {confirmAi.data.imported} transaction{confirmAi.data.imported !== 1 ? 's' : ''}
+            Added {keepDuplicates.data.imported} kept transaction{keepDuplicates.data.imported !== 1 ? 's' : ''}
+          </div>
+        )}
+
+        {commitReview.data && (
+          <div className="bg-gradient-to-r from-emerald-50 to-green-50 border-2 border-emerald-200 rounded-2xl p-5 text-emerald-700 font-medium shadow-lg">
+            Successfully added {commitReview.data.imported} transaction{commitReview.data.imported !== 1 ? 's' : ''}
           </div>
         )}
       </div>
+
+      {/* Recent Imports */}
+      {(imports?.items.length ?? 0) > 0 && (
+        <div className="bg-white/90 backdrop-blur rounded-2xl shadow-lg border border-slate-200/50 p-8">
+          <h2 className="text-2xl font-bold text-slate-800 mb-3">Recent Imports</h2>
+          <p className="text-slate-600 mb-6 font-medium">Undo removes every transaction an upload added.</p>
+          <div className="space-y-3">
+            {imports?.items.map((batch) => (
+              <div key={batch.id} className="border-2 border-slate-200 rounded-xl p-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="font-bold text-slate-800">{batch.filename ?? SOURCE_LABELS[batch.source]}</div>
+                  <div className="text-sm text-slate-600 font-medium">
+                    {SOURCE_LABELS[batch.source]} · {fmt.dateTime(batch.createdAt)} · {batch.remaining} of {batch.rowCount} row{batch.rowCount !== 1 ? 's' : ''} remaining
+                  </div>
+                </div>
+                <button
+                  className="px-4 py-2 rounded-xl border-2 border-red-200 text-red-600 hover:bg-red-50 transition-all font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={undoImport.isPending}
+                  onClick={() => {
+                    if (window.confirm(`Remove the ${batch.remaining} transaction${batch.remaining !== 1 ? 's' : ''} added by this import?`)) {
+                      undoImport.mutate(batch.id)
+                    }
+                  }}
+                >
+                  Undo
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
 
+const DIAGNOSTIC_STYLES: Record<LineDiagnostic['status'], string> = {
+  parsed: 'text-emerald-700',
+  skipped: 'text-slate-500',
+  error: 'text-red-600',
+}
+
+function ParseDiagnostics({ diagnostics }: { diagnostics: LineDiagnostic[] }) {
+  const skipped = diagnostics.filter((d) => d.status === 'skipped').length
+  const errors = diagnostics.filter((d) => d.status === 'error').length
+  return (
+    <details className="mb-6 border-2 border-slate-200 rounded-xl p-4 bg-slate-50">
+      <summary className="cursor-pointer font-bold text-slate-700">
+        Parse details: {diagnostics.length - skipped - errors} parsed, {skipped} skipped, {errors} error{errors !== 1 ? 's' : ''}
+      </summary>
+      <ul className="mt-3 space-y-1 text-sm font-mono max-h-72 overflow-y-auto">
+        {diagnostics.map((d) => (
+          <li key={d.line} className={DIAGNOSTIC_STYLES[d.status]}>
+            <span className="text-slate-400">{d.line}:</span> {d.text}
+            {d.message && <span className="font-sans font-medium"> · {d.message}</span>}
+          </li>
+        ))}
+      </ul>
+    </details>
+  )
+}
+
 function FileBox({ onFile, label, description }: { onFile: (f: File) => void; label: string; description: string }) {
   const [isDragging, setIsDragging] = useState(false)
   
@@ -334,4 +740,132 @@ function FileBox({ onFile, label, description }: { onFile: (f: File) => void; la
       />
     </label>
   )
-}
\ No newline at end of file
+}
+
+const MAPPING_FIELDS: Array<{ key: keyof Omit<CsvMapping, 'dateFormat'>; label: string; required?: boolean }> = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Debit' },
+  { key: 'credit', label: 'Credit' },
+  { key: 'category', label: 'Category' },
+  { key: 'type', label: 'Type' },
+]
+
+function CsvMappingStep({ fileName, preview, mapping, onMappingChange, profiles, profileName, onProfileNameChange, importing, onImport, onCancel }: {
+  fileName: string
+  preview: CsvPreview
+  mapping: CsvMapping
+  onMappingChange: (m: CsvMapping) => void
+  profiles: ImportProfile[]
+  profileName: string
+  onProfileNameChange: (name: string) => void
+  importing: boolean
+  onImport: () => void
+  onCancel: () => void
+}) {
+  const selectClass = 'w-full px-4 py-3 rounded-xl border-2 border-slate-300 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none bg-white font-medium'
+  const canImport = !!mapping.date && !!mapping.description && (!!mapping.amount || !!mapping.debit || !!mapping.credit)
+  return (
+    <div className="bg-white/90 backdrop-blur rounded-2xl shadow-2xl border border-slate-200/50 p-8">
+      <h2 className="text-2xl font-bold text-slate-800 mb-3">Map CSV Columns</h2>
+      <p className="text-slate-600 mb-6 font-medium">
+        {fileName} · {preview.totalRows} row{preview.totalRows !== 1 ? 's' : ''}. Choose which column holds each field, or load a saved bank profile.
+      </p>
+
+      {profiles.length > 0 && (
+        <div className="mb-6">
+          <label className="block text-sm font-bold text-slate-700 mb-2">Saved Profile</label>
+          <select
+            className={selectClass}
+            value=""
+            onChange={(e) => {
+              const profile = profiles.find((p) => p.id === e.target.value)
+              if (profile) {
+                onMappingChange(profile.mapping)
+                onProfileNameChange(profile.name)
+              }
+            }}
+          >
+            <option value="">Choose a profile…</option>
+            {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-6">
+        {MAPPING_FIELDS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-sm font-bold text-slate-700 mb-2">
+              {field.label}{field.required && ' *'}
+            </label>
+            <select
+              className={selectClass}
+              value={mapping[field.key] ?? ''}
+              onChange={(e) => onMappingChange({ ...mapping, [field.key]: e.target.value || undefined })}
+            >
+              <option value="">{field.required ? 'Select column…' : 'Not mapped'}</option>
+              {preview.headers.map((h) => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">Date Format</label>
+          <select
+            className={selectClass}
+            value={mapping.dateFormat}
+            onChange={(e) => onMappingChange({ ...mapping, dateFormat: e.target.value as CsvMapping['dateFormat'] })}
+          >
+            <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+            <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+            <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto mb-6 rounded-xl border-2 border-slate-200">
+        <table className="min-w-full text-left text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-slate-700">
+              {preview.headers.map((h) => <th key={h} className="py-2 px-3 font-bold">{h}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row, i) => (
+              <tr key={i} className="border-t border-slate-200/70">
+                {row.map((cell, j) => <td key={j} className="py-2 px-3 text-slate-600">{cell}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-bold text-slate-700 mb-2">Save mapping as profile (optional)</label>
+        <input
+          type="text"
+          placeholder="e.g., My Bank Checking"
+          className="w-full px-4 py-3 rounded-xl border-2 border-slate-300 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 outline-none bg-white"
+          value={profileName}
+          onChange={(e) => onProfileNameChange(e.target.value)}
+        />
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          className="flex-1 px-6 py-4 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg hover:shadow-xl font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={onImport}
+          disabled={!canImport || importing}
+        >
+          {importing ? 'Importing...' : 'Import Transactions'}
+        </button>
+        <button
+          className="px-8 py-4 rounded-xl border-2 border-slate-300 text-slate-700 hover:bg-slate-100 transition-all font-bold"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
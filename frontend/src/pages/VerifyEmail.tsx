@@ -0,0 +1,54 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link, useSearchParams } from 'react-router-dom'
+import { api, getToken } from '../lib/api'
+
+type ApiError = { response?: { data?: { error?: unknown } }; message?: string }
+
+function errorMessage(error: ApiError, fallback: string) {
+  const detail = error.response?.data?.error
+  if (typeof detail === 'string') return detail
+  return error.message || fallback
+}
+
+// Opened from the link in the verification email, signed in or not
+export default function VerifyEmail() {
+  const qc = useQueryClient()
+  const [params] = useSearchParams()
+  const token = params.get('token')
+
+  // A query rather than an effect, so the single-use token is sent once even
+  // when StrictMode mounts the page twice
+  const { isPending, isSuccess, error } = useQuery({
+    queryKey: ['verify-email', token],
+    queryFn: async () => {
+      await api.post('/api/auth/verify', { token })
+      qc.invalidateQueries({ queryKey: ['me'] })
+      return true
+    },
+    enabled: !!token,
+    retry: false,
+    staleTime: Infinity,
+  })
+
+  const next = getToken() ? { to: '/dashboard', label: 'Go to your dashboard' } : { to: '/login', label: 'Sign in' }
+
+  return (
+    <div className="max-w-md mx-auto mt-20">
+      <div className="bg-white/90 backdrop-blur rounded-3xl shadow-2xl border border-slate-200/50 p-10 text-center space-y-6">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent">Confirm Email</h1>
+        {!token ? (
+          <p className="text-slate-700">This link is incomplete. Open the link from the email again.</p>
+        ) : isPending ? (
+          <p className="text-slate-500 font-medium">Confirming your email address...</p>
+        ) : isSuccess ? (
+          <p className="text-slate-700">Your email address is confirmed.</p>
+        ) : (
+          <p className="text-red-600 font-medium">
+            {errorMessage(error as ApiError, 'Could not confirm your email address')}. You can send a new link from Settings.
+          </p>
+        )}
+        <Link to={next.to} className="inline-block text-sm font-bold text-blue-600 hover:text-blue-800">{next.label}</Link>
+      </div>
+    </div>
+  )
+}